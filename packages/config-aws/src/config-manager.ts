@@ -1,14 +1,43 @@
-import type { ZodError } from 'zod';
-import type { ConfigLoader } from './interfaces/config-loader.interface.js';
+import { isDeepStrictEqual } from 'util';
+import type { ConfigLoader, LoaderErrorPolicy, LoaderOptions } from './interfaces/config-loader.interface.js';
 import type {
   ConfigManagerOptions,
   ConfigLoadResult,
   ConfigSourceInfo,
+  ConfigChangeEvent,
+  ConfigChangeListener,
+  ConfigManagerEvents,
+  FailedLoaderInfo,
+  KeyProvenance,
+  KeyProvenanceSource,
   Logger,
   LoaderPrecedence,
+  RefreshOptions,
+  RotatingSecretOptions,
+  SecretStage,
+  SkippedLoaderInfo,
   VerboseOptions,
 } from './interfaces/config-manager.interface.js';
-import { ConfigurationError, ConfigurationLoadError, ValidationError } from './errors/index.js';
+import type { ConfigPlugin, PluginHookResult } from './interfaces/plugin.interface.js';
+import type { SnapshotOptions, SnapshotStore } from './interfaces/snapshot.interface.js';
+import type { AttributedValidationIssue, ConfigValidator, ValidationIssue } from './interfaces/validator.interface.js';
+import {
+  AWSServiceError,
+  ConfigurationError,
+  ConfigurationLoadError,
+  LoaderTimeoutError,
+  MissingConfigurationError,
+} from './errors/index.js';
+import { ConfigMergeUtil } from './utils/merge.util.js';
+import { ConfigValueUtil } from './utils/config-value.util.js';
+import { ConfigInterpolationUtil } from './utils/interpolation.util.js';
+import { KeyTransformUtil } from './utils/key-transform.util.js';
+import { RetryUtil } from './utils/retry.util.js';
+import { ConfigSnapshotUtil } from './utils/snapshot.util.js';
+import { ConfigValidationUtil } from './utils/validation.util.js';
+import { FileSnapshotStore } from './stores/file-snapshot.store.js';
+import { SecretReferenceResolver } from './resolvers/secret-reference.resolver.js';
+import { KmsValueResolver } from './resolvers/kms-value.resolver.js';
 
 /**
  * Default console logger implementation
@@ -60,6 +89,250 @@ const PRECEDENCE_ORDERS: Record<'aws-first' | 'local-first', string[]> = {
   ],
 };
 
+/**
+ * Get the stable kind of a loader, falling back to its name for loaders
+ * that do not implement getKind().
+ */
+function getLoaderKind(loader: ConfigLoader): string {
+  return loader.getKind?.() ?? loader.getName();
+}
+
+/**
+ * Get the unique id of a loader, falling back to its name.
+ */
+function getLoaderId(loader: ConfigLoader): string {
+  return loader.getOptions?.().id ?? loader.getName();
+}
+
+/**
+ * Resolve the effective error policy of a loader
+ */
+function getErrorPolicy(options: LoaderOptions): LoaderErrorPolicy {
+  if (options.required) {
+    return 'fail';
+  }
+  return options.onError ?? (options.required === false ? 'warn' : 'fail');
+}
+
+/**
+ * Sort loaders by rank, then by their per-instance priority.
+ * Lower values sort first, so higher ranked loaders load last and win.
+ * Loaders with equal rank and priority keep their registration order.
+ */
+function sortByRank(loaders: ConfigLoader[], rankOf: (loader: ConfigLoader) => number): ConfigLoader[] {
+  return loaders
+    .map((loader) => ({ loader, rank: rankOf(loader), priority: loader.getOptions?.().priority ?? 0 }))
+    .sort((a, b) => a.rank - b.rank || a.priority - b.priority)
+    .map(({ loader }) => loader);
+}
+
+/**
+ * Outcome of fetching a single loader, before it is merged
+ */
+type LoaderFetchResult =
+  | { status: 'loaded'; config: Record<string, unknown>; objects?: Record<string, string>; duration: number }
+  | { status: 'skipped'; duration: number }
+  | { status: 'failed'; error: Error; duration: number };
+
+/**
+ * Get the object that supplied each top-level key a loader produced, renamed by the loader's key transform.
+ * Keys nested from several objects are left out, since no single object supplied them.
+ * @returns Map of top-level key to object, or undefined if the loader does not report objects
+ */
+function getObjectSources(loader: ConfigLoader): Record<string, string> | undefined {
+  const keySources = loader.getKeySources?.();
+  if (keySources === undefined) {
+    return undefined;
+  }
+
+  const collect = (value: unknown, found: Set<string>): Set<string> => {
+    if (typeof value === 'string') {
+      found.add(value);
+    } else if (value !== null && typeof value === 'object') {
+      Object.values(value).forEach((nested) => collect(nested, found));
+    }
+    return found;
+  };
+
+  const objects: Record<string, string> = {};
+  const transformed = KeyTransformUtil.applyLoaderOptions(keySources, loader.getOptions?.() ?? {});
+  for (const [key, value] of Object.entries(transformed)) {
+    const found = collect(value, new Set());
+    if (found.size === 1) {
+      objects[key] = [...found][0]!;
+    }
+  }
+  return objects;
+}
+
+/**
+ * Outcome of the loader pipeline: the load result and the merged configuration as it was
+ * before validation. Snapshots store the latter so that restoring one validates it exactly once.
+ */
+interface PipelineResult<T> {
+  result: ConfigLoadResult<T>;
+  unvalidated: Record<string, unknown>;
+}
+
+/**
+ * Whether a failed load may fall back to the last-known-good snapshot.
+ * Only errors reading a source qualify; validation, interpolation and plugin errors
+ * are problems in the configuration itself and are always thrown.
+ */
+function isSourceError(error: unknown): error is ConfigurationError {
+  return (
+    error instanceof ConfigurationLoadError || error instanceof AWSServiceError || error instanceof LoaderTimeoutError
+  );
+}
+
+/**
+ * Map items through an async function, running at most `limit` calls at once.
+ * Results keep the order of the input.
+ */
+async function mapWithConcurrency<I, R>(items: I[], limit: number, fn: (item: I) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!);
+    }
+  };
+
+  const workerCount = Math.min(items.length, Math.max(1, limit));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * Error codes used by database and cache clients when a credential is rejected
+ */
+const AUTH_ERROR_CODES = ['28P01', '28000', 'ER_ACCESS_DENIED_ERROR', 'ER_DBACCESS_DENIED_ERROR', 'ELOGIN', 'WRONGPASS'];
+const AUTH_ERROR_MESSAGE = /authentication failed|access denied|login failed|invalid password|WRONGPASS/i;
+
+/**
+ * Default check for errors caused by a rejected credential.
+ */
+function isAuthenticationError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const code = (error as { code?: unknown }).code;
+  return (typeof code === 'string' && AUTH_ERROR_CODES.includes(code)) || AUTH_ERROR_MESSAGE.test(error.message);
+}
+
+/**
+ * Mask a string so only the first and last 2 characters are visible.
+ */
+function maskString(value: string): string {
+  if (value.length <= 4) {
+    return '****';
+  }
+  return `${value.slice(0, 2)}**...${value.slice(-2)}`;
+}
+
+/**
+ * Mask an arbitrary configuration value. Objects and arrays are masked as JSON.
+ */
+function maskConfigValue(value: unknown): string {
+  return maskString(typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value));
+}
+
+/**
+ * Attribute a validation issue to the offending value and the loader that supplied it.
+ * Only issues for keys that are present are attributed to a loader.
+ */
+function attributeIssue(
+  issue: ValidationIssue,
+  config: Record<string, unknown>,
+  originOf: (key: string) => string | undefined
+): AttributedValidationIssue {
+  let value: unknown = config;
+  for (const segment of issue.path) {
+    value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined;
+  }
+
+  const missing = value === undefined || issue.path.length === 0;
+  return {
+    ...issue,
+    key: issue.path.join('.'),
+    maskedValue: missing ? undefined : maskConfigValue(value),
+    loader: missing ? undefined : originOf(String(issue.path[0])),
+  };
+}
+
+/**
+ * Build the provenance table from the per-key list of contributing loaders.
+ * @param contributions Loaders that supplied each key, in load order (lowest precedence first)
+ */
+function buildProvenance(contributions: Map<string, KeyProvenanceSource[]>): Record<string, KeyProvenance> {
+  const provenance: Record<string, KeyProvenance> = {};
+
+  for (const [key, loadOrder] of contributions) {
+    const sources = [...loadOrder].reverse();
+    provenance[key] = {
+      key,
+      winner: sources[0]!.loader,
+      sources,
+      shadowed: sources.slice(1),
+    };
+  }
+
+  return provenance;
+}
+
+/**
+ * Build a load result for configuration that did not come from the loaders,
+ * attributing every key to a single pseudo-loader.
+ */
+function buildStaticResult<T>(config: T, loader: string): ConfigLoadResult<T> {
+  const contributions = new Map<string, KeyProvenanceSource[]>();
+  for (const [key, value] of Object.entries(config as Record<string, unknown>)) {
+    contributions.set(key, [{ loader, maskedValue: maskConfigValue(value) }]);
+  }
+
+  return {
+    config,
+    sources: [{ loader, id: loader, kind: loader, keysLoaded: [...contributions.keys()], duration: 0 }],
+    provenance: buildProvenance(contributions),
+    failed: [],
+    skipped: [],
+    stale: false,
+    sensitiveKeys: [],
+    loadedAt: new Date(),
+  };
+}
+
+/**
+ * Compute the keys that were added, removed or modified between two configurations.
+ * Values are compared structurally so nested objects from JSON sources only count
+ * as modified when their contents differ.
+ */
+function diffConfig(
+  previous: Record<string, unknown>,
+  current: Record<string, unknown>
+): Pick<ConfigChangeEvent<unknown>, 'added' | 'removed' | 'modified'> {
+  const added: string[] = [];
+  const removed: string[] = [];
+  const modified: string[] = [];
+
+  for (const key of Object.keys(current)) {
+    if (!(key in previous)) {
+      added.push(key);
+    } else if (!isDeepStrictEqual(previous[key], current[key])) {
+      modified.push(key);
+    }
+  }
+
+  for (const key of Object.keys(previous)) {
+    if (!(key in current)) {
+      removed.push(key);
+    }
+  }
+
+  return { added, removed, modified };
+}
 
 /**
  * ConfigManager orchestrates loading configuration from multiple sources
@@ -92,10 +365,12 @@ const PRECEDENCE_ORDERS: Record<'aws-first' | 'local-first', string[]> = {
  */
 export class ConfigManager<T = Record<string, unknown>> {
   /** @internal */
-  protected readonly _options: Required<Omit<ConfigManagerOptions<T>, 'schema' | 'logger' | 'verbose'>> & {
+  protected readonly _options: Required<Omit<ConfigManagerOptions<T>, 'schema' | 'logger' | 'verbose' | 'snapshot' | 'loadTimeoutMs'>> & {
     schema?: ConfigManagerOptions<T>['schema'];
+    loadTimeoutMs?: number;
     logger?: Logger;
     verbose?: VerboseOptions | boolean;
+    snapshot?: SnapshotOptions;
   };
   /** @internal */
   protected readonly _logger: Logger;
@@ -103,21 +378,71 @@ export class ConfigManager<T = Record<string, unknown>> {
   protected readonly _verboseOptions: Required<VerboseOptions> | null;
 
   private config: T | null = null;
+  private unvalidatedConfig: Record<string, unknown> | null = null;
   private loadResult: ConfigLoadResult<T> | null = null;
   private loaded = false;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private refreshInFlight: Promise<ConfigChangeEvent<T> | null> | null = null;
+  private readonly referenceResolver: SecretReferenceResolver | null;
+  private readonly kmsResolver: KmsValueResolver | null;
+  private readonly snapshotStore: SnapshotStore | null;
+  private readonly validator: ConfigValidator<T> | null;
+  private readonly listeners: { [E in keyof ConfigManagerEvents<T>]: Set<ConfigManagerEvents<T>[E]> } = {
+    change: new Set(),
+    error: new Set(),
+  };
 
   constructor(options: ConfigManagerOptions<T> = {}) {
+    const concurrency = options.concurrency ?? Infinity;
+    if (concurrency !== Infinity && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      throw new ConfigurationError(`Invalid concurrency: ${options.concurrency}. Must be a positive integer.`);
+    }
+    const persistsSnapshot = Boolean(options.snapshot?.path || options.snapshot?.store);
+    const storesSecrets = Boolean(options.decrypt || options.resolveReferences);
+    if (persistsSnapshot && storesSecrets && options.snapshot?.encryptionKey === undefined) {
+      throw new ConfigurationError(
+        'snapshot.encryptionKey is required when decrypt or resolveReferences is enabled, ' +
+          'otherwise decrypted secrets would be written to the snapshot in plaintext.'
+      );
+    }
+
     this._options = {
       loaders: options.loaders ?? [],
       schema: options.schema,
       precedence: options.precedence ?? 'aws-first',
+      merge: options.merge ?? {},
+      interpolate: options.interpolate ?? false,
+      resolveReferences: options.resolveReferences ?? false,
+      decrypt: options.decrypt ?? false,
+      plugins: options.plugins ?? [],
+      concurrency,
+      loadTimeoutMs: options.loadTimeoutMs,
       validateOnLoad: options.validateOnLoad ?? true,
       enableLogging: options.enableLogging ?? false,
       logger: options.logger,
       verbose: options.verbose,
+      snapshot: options.snapshot,
     };
     this._logger = options.logger ?? defaultLogger;
     this._verboseOptions = this.resolveVerboseOptions(options.verbose);
+    this.referenceResolver = this._options.resolveReferences
+      ? new SecretReferenceResolver(this._options.resolveReferences === true ? {} : this._options.resolveReferences)
+      : null;
+    this.kmsResolver = this._options.decrypt
+      ? new KmsValueResolver(this._options.decrypt === true ? {} : this._options.decrypt)
+      : null;
+    this.snapshotStore = this.createSnapshotStore(options.snapshot);
+    this.validator = options.schema ? ConfigValidationUtil.toValidator(options.schema) : null;
+  }
+
+  /**
+   * Create the snapshot store from the snapshot options
+   */
+  private createSnapshotStore(snapshot?: SnapshotOptions): SnapshotStore | null {
+    if (snapshot?.store) {
+      return snapshot.store;
+    }
+    return snapshot?.path ? new FileSnapshotStore(snapshot.path) : null;
   }
 
   /**
@@ -158,18 +483,9 @@ export class ConfigManager<T = Record<string, unknown>> {
     }
 
     const strValue = String(value);
-    const lowerKey = key.toLowerCase();
 
-    // Check if key contains any sensitive patterns
-    const isSensitive = this._verboseOptions.sensitiveKeys.some(
-      (pattern) => lowerKey.includes(pattern.toLowerCase())
-    );
-
-    if (this._verboseOptions.maskValues || isSensitive) {
-      if (strValue.length <= 4) {
-        return '****';
-      }
-      return `${strValue.slice(0, 2)}**...${strValue.slice(-2)}`;
+    if (this._verboseOptions.maskValues || this.isSensitive(key)) {
+      return maskString(strValue);
     }
 
     return strValue;
@@ -198,7 +514,8 @@ export class ConfigManager<T = Record<string, unknown>> {
   }
 
   /**
-   * Sort loaders by custom precedence configuration
+   * Sort loaders by custom precedence configuration.
+   * Entries are matched against the loader id, then its name, then its kind.
    */
   private sortByCustomPrecedence(loaders: ConfigLoader[], precedence: LoaderPrecedence[]): ConfigLoader[] {
     const priorityMap = new Map<string, number>();
@@ -206,104 +523,247 @@ export class ConfigManager<T = Record<string, unknown>> {
       priorityMap.set(p.loader, p.priority);
     }
 
-    // Sort by priority (lower first, so higher priority loads last and wins)
-    return [...loaders].sort((a, b) => {
-      const priorityA = priorityMap.get(a.getName()) ?? 0;
-      const priorityB = priorityMap.get(b.getName()) ?? 0;
-      return priorityA - priorityB;
-    });
+    return sortByRank(loaders, (loader) =>
+      priorityMap.get(getLoaderId(loader)) ??
+      priorityMap.get(loader.getName()) ??
+      priorityMap.get(getLoaderKind(loader)) ??
+      0
+    );
   }
 
   /**
-   * Sort loaders by predefined order
+   * Sort loaders by predefined order, matched against the loader kind
    */
   private sortByPredefinedOrder(loaders: ConfigLoader[], order: string[]): ConfigLoader[] {
     const orderMap = new Map<string, number>();
-    order.forEach((name, index) => orderMap.set(name, index));
+    order.forEach((kind, index) => orderMap.set(kind, index));
 
-    // Sort by order index (lower first, so higher index loads last and wins)
-    return [...loaders].sort((a, b) => {
-      const indexA = orderMap.get(a.getName()) ?? -1;
-      const indexB = orderMap.get(b.getName()) ?? -1;
-      return indexA - indexB;
-    });
+    return sortByRank(loaders, (loader) => orderMap.get(getLoaderKind(loader)) ?? -1);
   }
 
   /**
    * Load configuration from all configured loaders.
-   * Loaders are executed in precedence order, with later loaders overriding earlier ones.
+   * Loaders are fetched concurrently and merged in precedence order, with later loaders overriding earlier ones.
+   * When a snapshot is configured, a successful load is saved as the last-known-good
+   * configuration, and a failed load falls back to it. A load where an optional loader failed
+   * is incomplete and is not saved, so it cannot replace a complete snapshot.
    */
   async load(): Promise<void> {
+    let result: PipelineResult<T>;
+    try {
+      result = await this.loadConfiguration();
+    } catch (error) {
+      const fallback = isSourceError(error) ? await this.loadSnapshot(error) : null;
+      if (!fallback) {
+        throw error;
+      }
+      this.applyLoadResult(fallback);
+      return;
+    }
+
+    this.applyLoadResult(result);
+    await this.saveSnapshot(result);
+  }
+
+  /**
+   * Persist a successfully loaded configuration as the last-known-good snapshot.
+   * The configuration is stored as it was before validation, so schema transforms are not applied twice.
+   * Write failures are logged and do not fail the load.
+   */
+  private async saveSnapshot({ result, unvalidated }: PipelineResult<T>): Promise<void> {
+    if (!this.snapshotStore || !this._options.snapshot) {
+      return;
+    }
+    if (result.failed.length > 0) {
+      const names = result.failed.map((failure) => failure.loader).join(', ');
+      this.log(`Not saving configuration snapshot: ${names} failed and the configuration is incomplete`);
+      return;
+    }
+
+    try {
+      await this.snapshotStore.write(
+        await ConfigSnapshotUtil.createAsync(unvalidated, this._options.snapshot, result.loadedAt, result.sensitiveKeys)
+      );
+      this.log('Saved last-known-good configuration snapshot');
+    } catch (error) {
+      this._logger.warn(
+        `[config-aws] Failed to save configuration snapshot: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Restore the last-known-good snapshot after a failed load, validating it against the schema.
+   * @param loadError The error that caused the fallback
+   * @returns The stale load result, or null if no usable snapshot exists
+   */
+  private async loadSnapshot(loadError: ConfigurationError): Promise<PipelineResult<T> | null> {
+    if (!this.snapshotStore || !this._options.snapshot) {
+      return null;
+    }
+
+    try {
+      const data = await this.snapshotStore.read();
+      if (data === null) {
+        this._logger.warn('[config-aws] Configuration load failed and no snapshot is available');
+        return null;
+      }
+
+      const snapshot = await ConfigSnapshotUtil.readAsync<Record<string, unknown>>(data, this._options.snapshot);
+      const config = await this.validate(
+        snapshot.config,
+        'Snapshot does not match the configuration schema',
+        () => 'snapshot'
+      );
+
+      const result = buildStaticResult(config, 'snapshot');
+      result.stale = true;
+      result.sensitiveKeys = snapshot.sensitiveKeys;
+      result.snapshot = {
+        savedAt: snapshot.savedAt,
+        ageMs: result.loadedAt.getTime() - snapshot.savedAt.getTime(),
+        schemaVersion: snapshot.schemaVersion,
+        reason: loadError.message,
+      };
+
+      this._logger.warn(
+        `[config-aws] ${loadError.message}. Using stale last-known-good snapshot from ${snapshot.savedAt.toISOString()}`
+      );
+      return { result, unvalidated: snapshot.config };
+    } catch (error) {
+      this._logger.warn(
+        `[config-aws] Configuration load failed and the snapshot could not be used: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Run the loader pipeline and validation without touching the current state.
+   * Plugins are notified through onError when the pipeline fails.
+   * @returns The validated configuration and source information
+   * @throws ConfigurationLoadError if a loader fails
+   * @throws ValidationError if schema validation fails
+   */
+  private async loadConfiguration(): Promise<PipelineResult<T>> {
+    try {
+      return await this.runPipeline();
+    } catch (error) {
+      await this.notifyPluginsOfError(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch, merge, decrypt, resolve, interpolate and validate configuration, running plugin hooks along the way.
+   */
+  private async runPipeline(): Promise<PipelineResult<T>> {
     const startTime = Date.now();
     const sources: ConfigSourceInfo[] = [];
+    const failed: FailedLoaderInfo[] = [];
+    const skipped: SkippedLoaderInfo[] = [];
     let mergedConfig: Record<string, unknown> = {};
-    const keyOrigins: Map<string, string> = new Map(); // Track which loader set each key
+    const contributions: Map<string, KeyProvenanceSource[]> = new Map(); // Track which loaders set each key
 
     this.log('Loading configuration...');
+    await this.runPluginHook('beforeLoad', undefined, (plugin) => plugin.beforeLoad!());
 
     const orderedLoaders = this.getLoadOrder();
 
-    for (const loader of orderedLoaders) {
+    // Fetch every loader concurrently, then merge the results in precedence order
+    const results = await this.fetchLoaders(orderedLoaders);
+
+    for (const [index, loader] of orderedLoaders.entries()) {
       const loaderName = loader.getName();
-      const loaderStartTime = Date.now();
+      const result = results[index]!;
 
-      try {
-        // Check if loader is available
-        const isAvailable = await loader.isAvailable();
-        if (!isAvailable) {
-          if (this._verboseOptions?.logTiming) {
-            this.log(`${loaderName}: skipped (not available)`);
-          }
-          continue;
+      if (result.status === 'skipped') {
+        skipped.push({
+          loader: loaderName,
+          id: getLoaderId(loader),
+          kind: getLoaderKind(loader),
+          reason: 'not available',
+        });
+        if (this._verboseOptions?.logTiming) {
+          this.log(`${loaderName}: skipped (not available)`);
         }
+        continue;
+      }
 
-        // Load configuration from this loader
-        const loaderConfig = await loader.load();
-        const keysLoaded = Object.keys(loaderConfig);
-        const duration = Date.now() - loaderStartTime;
+      if (result.status === 'failed') {
+        const errorPolicy = getErrorPolicy(loader.getOptions?.() ?? {});
+        if (errorPolicy === 'fail') {
+          throw new ConfigurationLoadError(
+            `Failed to load configuration from ${loaderName}: ${result.error.message}`,
+            loaderName,
+            result.error
+          );
+        }
 
-        // Track source info
-        sources.push({
+        failed.push({
           loader: loaderName,
-          keysLoaded,
-          duration,
+          id: getLoaderId(loader),
+          kind: getLoaderKind(loader),
+          error: result.error,
+          duration: result.duration,
         });
-
-        // Log timing and keys
-        if (this._verboseOptions?.logTiming) {
-          this.log(`${loaderName}: loaded ${keysLoaded.length} keys in ${duration}ms`);
+        if (errorPolicy === 'warn') {
+          this._logger.warn(`[config-aws] ${loaderName} failed and was skipped: ${result.error.message}`);
         }
+        continue;
+      }
 
-        // Log individual keys and track overrides
-        for (const key of keysLoaded) {
-          const previousLoader = keyOrigins.get(key);
-          const isOverride = previousLoader !== undefined;
-
-          if (this._verboseOptions?.logKeys) {
-            let logLine = `  - ${key}`;
-            if (this._verboseOptions.logValues) {
-              logLine += ` = "${this.maskValue(key, loaderConfig[key])}"`;
-            }
-            if (isOverride && this._verboseOptions.logOverrides) {
-              logLine += ` (overrides ${previousLoader})`;
-            }
-            this.log(logLine);
-          }
+      const loaderConfig = await this.runPluginHook('afterLoader', result.config, (plugin, config) =>
+        plugin.afterLoader!(loaderName, config)
+      );
+      const keysLoaded = Object.keys(loaderConfig);
+
+      // Track source info
+      sources.push({
+        loader: loaderName,
+        id: getLoaderId(loader),
+        kind: getLoaderKind(loader),
+        keysLoaded,
+        duration: result.duration,
+      });
+
+      // Log timing and keys
+      if (this._verboseOptions?.logTiming) {
+        this.log(`${loaderName}: loaded ${keysLoaded.length} keys in ${result.duration}ms`);
+      }
 
-          keyOrigins.set(key, loaderName);
+      // Log individual keys and track overrides
+      for (const key of keysLoaded) {
+        const keySources = contributions.get(key) ?? [];
+        const previousLoader = keySources[keySources.length - 1]?.loader;
+        const isOverride = previousLoader !== undefined;
+
+        if (this._verboseOptions?.logKeys) {
+          let logLine = `  - ${key}`;
+          if (this._verboseOptions.logValues) {
+            logLine += ` = "${this.maskValue(key, loaderConfig[key])}"`;
+          }
+          if (isOverride && this._verboseOptions.logOverrides) {
+            logLine += ` (overrides ${previousLoader})`;
+          }
+          this.log(logLine);
         }
 
-        // Merge configuration (later loaders override earlier ones)
-        mergedConfig = { ...mergedConfig, ...loaderConfig };
-      } catch (error) {
-        throw new ConfigurationLoadError(
-          `Failed to load configuration from ${loaderName}: ${error instanceof Error ? error.message : String(error)}`,
-          loaderName,
-          error instanceof Error ? error : undefined
-        );
+        const object = result.objects?.[key];
+        keySources.push({
+          loader: loaderName,
+          maskedValue: maskConfigValue(loaderConfig[key]),
+          ...(object && { object }),
+        });
+        contributions.set(key, keySources);
       }
+
+      // Merge configuration (later loaders override earlier ones)
+      mergedConfig = ConfigMergeUtil.merge(mergedConfig, loaderConfig, this._options.merge);
     }
 
+    mergedConfig = await this.runPluginHook('afterMerge', mergedConfig, (plugin, config) => plugin.afterMerge!(config));
+
     // Count overrides
     const totalKeys = Object.keys(mergedConfig).length;
     const totalDuration = Date.now() - startTime;
@@ -313,44 +773,620 @@ export class ConfigManager<T = Record<string, unknown>> {
       this.log(`Configuration loaded: ${totalKeys} total keys, ${overrideCount} overrides, ${totalDuration}ms total`);
     }
 
+    const origins: Record<string, string> = {};
+    for (const [key, keySources] of contributions) {
+      origins[key] = keySources[keySources.length - 1]!.loader;
+    }
+
+    // Decrypt kms: values and remember which keys now hold plaintext secrets
+    let sensitiveKeys: string[] = [];
+    if (this.kmsResolver) {
+      const decrypted = await this.kmsResolver.resolve(mergedConfig, origins);
+      mergedConfig = decrypted.config;
+      sensitiveKeys = decrypted.decryptedKeys;
+      if (sensitiveKeys.length > 0) {
+        this.log(`Decrypted ${sensitiveKeys.length} KMS-encrypted values: ${sensitiveKeys.join(', ')}`);
+      }
+    }
+
+    // Replace ssm:/secretsmanager:/s3:// references with the values they point at
+    if (this.referenceResolver) {
+      mergedConfig = await this.referenceResolver.resolve(mergedConfig, origins);
+    }
+
+    // Expand ${VAR} references now that every loader has contributed
+    if (this._options.interpolate) {
+      const keys = this._options.interpolate === true ? undefined : this._options.interpolate.keys;
+      mergedConfig = ConfigInterpolationUtil.interpolate(mergedConfig, { keys, origins });
+    }
+
     // Validate if schema is provided and validation is enabled
-    if (this._options.schema && this._options.validateOnLoad) {
-      const result = this._options.schema.safeParse(mergedConfig);
-      if (!result.success) {
-        const zodError = result.error as ZodError;
-        throw new ValidationError(
-          `Configuration validation failed: ${zodError.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
-          zodError.errors,
-          undefined
+    mergedConfig = await this.runPluginHook('beforeValidate', mergedConfig, (plugin, config) =>
+      plugin.beforeValidate!(config)
+    );
+    const validated = await this.validate(mergedConfig, 'Configuration validation failed', (key) => origins[key]);
+    const config = await this.runPluginHook<T>('afterValidate', validated, (plugin, value) => plugin.afterValidate!(value));
+
+    return {
+      result: {
+        config,
+        sources,
+        provenance: buildProvenance(contributions),
+        failed,
+        skipped,
+        stale: false,
+        sensitiveKeys,
+        loadedAt: new Date(),
+      },
+      unvalidated: mergedConfig,
+    };
+  }
+
+  /**
+   * Run a hook on every plugin that implements it, in registration order.
+   * A hook that returns a value replaces the value passed to the next plugin.
+   * @param hook The hook to run
+   * @param value The value passed to the first plugin
+   * @param invoke Calls the hook on a plugin
+   * @returns The value returned by the last plugin that returned one
+   * @throws ConfigurationError naming the plugin and hook if a hook throws
+   */
+  private async runPluginHook<V>(
+    hook: Exclude<keyof ConfigPlugin<T>, 'name' | 'onError'>,
+    value: V,
+    invoke: (plugin: ConfigPlugin<T>, value: V) => PluginHookResult<V>
+  ): Promise<V> {
+    let current = value;
+
+    for (const plugin of this._options.plugins) {
+      if (!plugin[hook]) {
+        continue;
+      }
+      try {
+        const result = await invoke(plugin, current);
+        if (result !== undefined) {
+          current = result;
+        }
+      } catch (error) {
+        throw new ConfigurationError(
+          `Plugin ${plugin.name} failed in ${hook}: ${error instanceof Error ? error.message : String(error)}`,
+          error instanceof Error ? error : undefined
         );
       }
-      this.config = result.data as T;
-    } else {
-      this.config = mergedConfig as T;
     }
 
-    this.loadResult = {
-      config: this.config,
-      sources,
-      loadedAt: new Date(),
-    };
+    return current;
+  }
 
+  /**
+   * Pass a load failure to every plugin's onError hook. Errors thrown by the hooks are logged.
+   */
+  private async notifyPluginsOfError(error: Error): Promise<void> {
+    for (const plugin of this._options.plugins) {
+      try {
+        await plugin.onError?.(error);
+      } catch (hookError) {
+        this._logger.warn(
+          `[config-aws] Plugin ${plugin.name} failed in onError: ${hookError instanceof Error ? hookError.message : String(hookError)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Fetch loaders concurrently, up to the configured concurrency limit.
+   * Loaders that have not finished when the load deadline passes fail with a LoaderTimeoutError.
+   * @param loaders The loaders to fetch
+   * @returns The fetch result of each loader, in the same order
+   */
+  private async fetchLoaders(loaders: ConfigLoader[]): Promise<LoaderFetchResult[]> {
+    const loadTimeoutMs = this._options.loadTimeoutMs;
+    const deadline = loadTimeoutMs !== undefined && loadTimeoutMs > 0 ? Date.now() + loadTimeoutMs : undefined;
+
+    return mapWithConcurrency(loaders, this._options.concurrency, async (loader) => {
+      const loaderName = loader.getName();
+      const loaderStartTime = Date.now();
+
+      if (deadline !== undefined && loaderStartTime >= deadline) {
+        return {
+          status: 'failed',
+          error: new LoaderTimeoutError(
+            `${loaderName} did not start before the ${loadTimeoutMs}ms load deadline`,
+            loaderName,
+            loadTimeoutMs!
+          ),
+          duration: 0,
+        };
+      }
+
+      try {
+        const fetch = this.fetchLoader(loader);
+        const config = deadline === undefined
+          ? await fetch
+          : await RetryUtil.withTimeout(fetch, deadline - loaderStartTime, loaderName);
+        return config === null
+          ? { status: 'skipped', duration: Date.now() - loaderStartTime }
+          : { status: 'loaded', config, objects: getObjectSources(loader), duration: Date.now() - loaderStartTime };
+      } catch (error) {
+        return {
+          status: 'failed',
+          error: error instanceof Error ? error : new Error(String(error)),
+          duration: Date.now() - loaderStartTime,
+        };
+      }
+    });
+  }
+
+  /**
+   * Check a loader's availability and load its configuration, applying its timeout, retries and key transform.
+   * @param loader The loader to fetch
+   * @returns The loaded configuration, or null if the loader is not available
+   * @throws ConfigurationLoadError if a required loader is unavailable or loads nothing
+   */
+  private async fetchLoader(loader: ConfigLoader): Promise<Record<string, unknown> | null> {
+    const loaderName = loader.getName();
+    const loaderOptions = loader.getOptions?.() ?? {};
+
+    // Check if loader is available
+    const isAvailable = await RetryUtil.withTimeout(loader.isAvailable(), loaderOptions.timeoutMs, loaderName);
+    if (!isAvailable) {
+      if (loaderOptions.required) {
+        throw new ConfigurationLoadError('Loader is required but not available', loaderName);
+      }
+      return null;
+    }
+
+    // Load configuration from this loader, retrying transient failures
+    const loadedConfig = await RetryUtil.retry(
+      () => RetryUtil.withTimeout(loader.load(), loaderOptions.timeoutMs, loaderName),
+      {
+        retries: loaderOptions.retries,
+        backoff: loaderOptions.backoff,
+        onRetry: (error, attempt, delay) => {
+          this.log(
+            `${loaderName}: attempt ${attempt} failed (${RetryUtil.classifyError(error)}: ${error.message}), retrying in ${delay}ms`
+          );
+        },
+      }
+    );
+
+    const loaderConfig = KeyTransformUtil.applyLoaderOptions(loadedConfig, loaderOptions);
+
+    if (loaderOptions.required && Object.keys(loaderConfig).length === 0) {
+      throw new ConfigurationLoadError('Loader is required but loaded no configuration', loaderName);
+    }
+    return loaderConfig;
+  }
+
+  /**
+   * Validate a configuration with the configured schema, if validation is enabled.
+   * Failures are attributed to the loader that supplied each offending key.
+   * @param config The configuration to validate
+   * @param context Prefix for the error message
+   * @param originOf Returns the loader that supplied a top-level key
+   * @returns The validated configuration
+   * @throws ValidationError if validation fails
+   */
+  private async validate(
+    config: Record<string, unknown>,
+    context: string,
+    originOf: (key: string) => string | undefined
+  ): Promise<T> {
+    if (!this.validator || !this._options.validateOnLoad) {
+      return config as T;
+    }
+
+    const result = await this.validator.validate(config);
+    if (!result.success) {
+      throw ConfigValidationUtil.createValidationError(
+        result.issues.map((issue) => attributeIssue(issue, config, originOf)),
+        context
+      );
+    }
+    return result.data;
+  }
+
+  /**
+   * Swap in a freshly loaded configuration.
+   */
+  private applyLoadResult({ result, unvalidated }: PipelineResult<T>): void {
+    this.config = result.config;
+    this.unvalidatedConfig = unvalidated;
+    this.loadResult = result;
     this.loaded = true;
   }
 
+  /**
+   * Re-run the loader pipeline and swap in the new configuration if it validates.
+   * The previous configuration is kept when any loader or the validation fails, including
+   * an optional loader that loaded successfully last time.
+   * Concurrent calls share the same in-flight refresh.
+   * @returns The change event, or null if nothing changed
+   * @throws ConfigurationError if configuration is not loaded
+   * @throws ConfigurationLoadError if a loader fails
+   * @throws ValidationError if schema validation fails
+   */
+  async refresh(): Promise<ConfigChangeEvent<T> | null> {
+    if (!this.loaded || this.config === null) {
+      throw new ConfigurationError('Configuration not loaded. Call load() first.');
+    }
+
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.runRefresh().finally(() => {
+        this.refreshInFlight = null;
+      });
+    }
+    return this.refreshInFlight;
+  }
+
+  /**
+   * Perform a single refresh cycle.
+   */
+  private async runRefresh(): Promise<ConfigChangeEvent<T> | null> {
+    const pipelineResult = await this.loadConfiguration();
+    const { result } = pipelineResult;
+
+    // Optional loaders that already failed last time do not make the new configuration any less complete
+    const failedBefore = new Set(this.loadResult?.failed.map((failure) => failure.id));
+    const newlyFailed = result.failed.filter((failure) => !failedBefore.has(failure.id));
+    if (newlyFailed.length > 0) {
+      const [first] = newlyFailed;
+      throw new ConfigurationLoadError(
+        `Refresh kept the previous configuration because ${newlyFailed.map((failure) => failure.loader).join(', ')} ` +
+          `failed: ${first!.error.message}`,
+        first!.loader,
+        first!.error
+      );
+    }
+
+    const previous = this.config as T;
+    const diff = diffConfig(
+      previous as Record<string, unknown>,
+      result.config as Record<string, unknown>
+    );
+
+    this.applyLoadResult(pipelineResult);
+    await this.saveSnapshot(pipelineResult);
+
+    if (diff.added.length === 0 && diff.removed.length === 0 && diff.modified.length === 0) {
+      this.log('Configuration refreshed: no changes');
+      return null;
+    }
+
+    const event: ConfigChangeEvent<T> = {
+      ...diff,
+      previous,
+      current: result.config,
+      changedAt: result.loadedAt,
+    };
+
+    this.log(
+      `Configuration refreshed: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.modified.length} modified`
+    );
+    this.emit('change', event);
+
+    return event;
+  }
+
+  /**
+   * Start refreshing configuration on a fixed interval.
+   * Failed refreshes are reported through the 'error' event and keep the previous configuration.
+   * @param options Refresh options
+   * @throws ConfigurationError if configuration is not loaded or the interval is invalid
+   */
+  startRefresh(options: RefreshOptions): void {
+    if (!this.loaded || this.config === null) {
+      throw new ConfigurationError('Configuration not loaded. Call load() first.');
+    }
+    if (!Number.isFinite(options.intervalMs) || options.intervalMs <= 0) {
+      throw new ConfigurationError(`Invalid refresh interval: ${options.intervalMs}. Must be a positive number.`);
+    }
+
+    this.stopRefresh();
+
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch((error: unknown) => {
+        const err = error instanceof Error ? error : new Error(String(error));
+        this._logger.error(`[config-aws] Configuration refresh failed: ${err.message}`);
+        this.emit('error', err);
+      });
+    }, options.intervalMs);
+
+    if (!options.keepAlive) {
+      this.refreshTimer.unref?.();
+    }
+
+    this.log(`Refreshing configuration every ${options.intervalMs}ms`);
+  }
+
+  /**
+   * Stop the periodic refresh started by startRefresh() or watch().
+   */
+  stopRefresh(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Check if periodic refresh is active.
+   * @returns true if a refresh timer is running
+   */
+  isRefreshing(): boolean {
+    return this.refreshTimer !== null;
+  }
+
+  /**
+   * Subscribe to configuration changes and start refreshing on an interval.
+   * @param listener Called with the change event whenever the configuration changes
+   * @param options Refresh options
+   * @returns Function that unsubscribes the listener and stops the refresh
+   */
+  watch(listener: ConfigChangeListener<T>, options: RefreshOptions): () => void {
+    this.on('change', listener);
+    this.startRefresh(options);
+
+    return () => {
+      this.off('change', listener);
+      this.stopRefresh();
+    };
+  }
+
+  /**
+   * Register an event listener.
+   * @param event The event name
+   * @param listener The listener to register
+   * @returns This ConfigManager for chaining
+   */
+  on<E extends keyof ConfigManagerEvents<T>>(event: E, listener: ConfigManagerEvents<T>[E]): this {
+    this.listeners[event].add(listener);
+    return this;
+  }
+
+  /**
+   * Remove a previously registered event listener.
+   * @param event The event name
+   * @param listener The listener to remove
+   * @returns This ConfigManager for chaining
+   */
+  off<E extends keyof ConfigManagerEvents<T>>(event: E, listener: ConfigManagerEvents<T>[E]): this {
+    this.listeners[event].delete(listener);
+    return this;
+  }
+
+  /**
+   * Invoke all listeners for an event. Listener errors are logged and do not
+   * interrupt other listeners.
+   */
+  private emit<E extends keyof ConfigManagerEvents<T>>(
+    event: E,
+    payload: Parameters<ConfigManagerEvents<T>[E]>[0]
+  ): void {
+    for (const listener of this.listeners[event]) {
+      try {
+        (listener as (payload: Parameters<ConfigManagerEvents<T>[E]>[0]) => void)(payload);
+      } catch (error) {
+        this._logger.error(
+          `[config-aws] Error in '${event}' listener: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
 
   /**
    * Get a specific configuration value by key.
-   * @param key The configuration key
+   * Keys that do not exist at the top level are looked up as dotted paths
+   * into nested objects, e.g. 'database.host'.
+   * @param key The configuration key or dotted path
    * @returns The configuration value
    * @throws ConfigurationError if configuration is not loaded
    */
-  get<K extends keyof T>(key: K): T[K] {
+  get<K extends keyof T>(key: K): T[K];
+  get<V = unknown>(path: string): V | undefined;
+  get(key: string): unknown {
     if (!this.loaded || this.config === null) {
       throw new ConfigurationError('Configuration not loaded. Call load() first.');
     }
-    // Non-null assertion is safe here because we've checked this.config !== null above
-    return this.config![key];
+    return ConfigValueUtil.getPath(this.config as Record<string, unknown>, key);
+  }
+
+  /**
+   * Get a configuration value, throwing if it is not set.
+   * @param key The configuration key or dotted path
+   * @returns The configuration value
+   * @throws MissingConfigurationError if the value is undefined or null
+   */
+  getOrThrow<V = unknown>(key: string): V {
+    return this.getTyped(key, undefined, (value) => value as V);
+  }
+
+  /**
+   * Get a configuration value as a string.
+   * @param key The configuration key or dotted path
+   * @param defaultValue Value used when the key is not set
+   * @returns The string value
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value cannot be converted
+   */
+  getString(key: string, defaultValue?: string): string {
+    return this.getTyped(key, defaultValue, (value) => ConfigValueUtil.toString(value, key));
+  }
+
+  /**
+   * Get a configuration value as a number.
+   * @param key The configuration key or dotted path
+   * @param defaultValue Value used when the key is not set
+   * @returns The number value
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value is not numeric
+   */
+  getNumber(key: string, defaultValue?: number): number {
+    return this.getTyped(key, defaultValue, (value) => ConfigValueUtil.toNumber(value, key));
+  }
+
+  /**
+   * Get a configuration value as a boolean. Accepts true/false, 1/0, yes/no and on/off.
+   * @param key The configuration key or dotted path
+   * @param defaultValue Value used when the key is not set
+   * @returns The boolean value
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value is not a recognized boolean
+   */
+  getBoolean(key: string, defaultValue?: boolean): boolean {
+    return this.getTyped(key, defaultValue, (value) => ConfigValueUtil.toBoolean(value, key));
+  }
+
+  /**
+   * Get a configuration value parsed as JSON. Values that are already objects are returned as-is.
+   * @param key The configuration key or dotted path
+   * @param defaultValue Value used when the key is not set
+   * @returns The parsed value
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value is not valid JSON
+   */
+  getJson<V = unknown>(key: string, defaultValue?: V): V {
+    return this.getTyped(key, defaultValue, (value) => ConfigValueUtil.toJson<V>(value, key));
+  }
+
+  /**
+   * Get a configuration value as a list of strings, splitting strings on the separator.
+   * @param key The configuration key or dotted path
+   * @param defaultValue Value used when the key is not set
+   * @param separator Separator for string values. Default: ','
+   * @returns The list
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value is not a string or array
+   */
+  getList(key: string, defaultValue?: string[], separator: string = ','): string[] {
+    return this.getTyped(key, defaultValue, (value) => ConfigValueUtil.toList(value, key, separator));
+  }
+
+  /**
+   * Get a configuration value as a duration in milliseconds.
+   * Accepts milliseconds or strings such as '500ms', '30s', '5m' and '1h30m'.
+   * @param key The configuration key or dotted path
+   * @param defaultValue Value used when the key is not set, in milliseconds or as a duration string
+   * @returns The duration in milliseconds
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value is not a duration
+   */
+  getDuration(key: string, defaultValue?: number | string): number {
+    return this.getTyped(key, defaultValue, (value) => ConfigValueUtil.toDuration(value, key));
+  }
+
+  /**
+   * Get a configuration value as a URL.
+   * @param key The configuration key or dotted path
+   * @param defaultValue Value used when the key is not set
+   * @returns The parsed URL
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value is not an absolute URL
+   */
+  getUrl(key: string, defaultValue?: string | URL): URL {
+    return this.getTyped(key, defaultValue, (value) => ConfigValueUtil.toUrl(value, key));
+  }
+
+  /**
+   * Look up a value and convert it, falling back to the default when it is not set.
+   * Defaults go through the same conversion, so '30s' is a valid default duration.
+   */
+  private getTyped<V>(key: string, defaultValue: unknown, convert: (value: unknown) => V): V {
+    let value = this.get<unknown>(key);
+    if (value === undefined || value === null) {
+      if (defaultValue === undefined) {
+        throw new MissingConfigurationError(`Configuration key '${key}' is not set`, [key]);
+      }
+      value = defaultValue;
+    }
+    return convert(value);
+  }
+
+  /**
+   * Run a callback with a rotating secret, retrying with the other stage when the credential is rejected.
+   * The callback gets the current stage first and the pending stage if the current one fails with an
+   * authentication error. Whenever a fallback was needed the configuration is refreshed: in the background
+   * if the pending stage worked, or before one more attempt with the refreshed stages if none did.
+   * @param key Key or dotted path of a RotatingSecret loaded with SecretsManagerLoader's rotation option.
+   * Any other value is used as the only stage
+   * @param fn Callback receiving the credential and its stage
+   * @param options How authentication failures are recognized
+   * @returns The result of the callback
+   * @throws MissingConfigurationError if the key is not set
+   * @throws The callback's error if it is not an authentication error, or the last authentication error if no stage works
+   */
+  async withRotatingSecret<V = Record<string, unknown>, R = unknown>(
+    key: string,
+    fn: (credential: V, stage: SecretStage) => R | Promise<R>,
+    options: RotatingSecretOptions = {}
+  ): Promise<R> {
+    const isAuthError = options.isAuthError ?? isAuthenticationError;
+    const attempted: V[] = [];
+    let lastError: unknown;
+
+    const attempt = async (): Promise<{ value: R } | undefined> => {
+      for (const [stage, credential] of this.getSecretStages<V>(key)) {
+        if (attempted.some((previous) => isDeepStrictEqual(previous, credential))) {
+          continue;
+        }
+        attempted.push(credential);
+
+        try {
+          return { value: await fn(credential, stage) };
+        } catch (error) {
+          if (!isAuthError(error)) {
+            throw error;
+          }
+          lastError = error;
+          this.log(`Credential '${key}' (${stage}) was rejected`);
+        }
+      }
+      return undefined;
+    };
+
+    const result = await attempt();
+    if (result) {
+      if (attempted.length > 1) {
+        this.refresh().catch((error: unknown) => {
+          this._logger.warn(
+            `[config-aws] Refresh after rotating '${key}' failed: ${error instanceof Error ? error.message : String(error)}`
+          );
+        });
+      }
+      return result.value;
+    }
+
+    try {
+      await this.refresh();
+    } catch (error) {
+      this._logger.warn(
+        `[config-aws] Refresh after rotating '${key}' failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+      throw lastError;
+    }
+
+    const retried = await attempt();
+    if (retried) {
+      return retried.value;
+    }
+    throw lastError;
+  }
+
+  /**
+   * Get the stages of a rotating secret, current first.
+   */
+  private getSecretStages<V>(key: string): [SecretStage, V][] {
+    const value = this.getOrThrow<unknown>(key);
+    if (!ConfigMergeUtil.isPlainObject(value) || !('current' in value)) {
+      return [['current', value as V]];
+    }
+
+    const stages: [SecretStage, V][] = [['current', value['current'] as V]];
+    if (value['pending'] !== undefined) {
+      stages.push(['pending', value['pending'] as V]);
+    }
+    return stages;
   }
 
   /**
@@ -389,6 +1425,39 @@ export class ConfigManager<T = Record<string, unknown>> {
     return this.loadResult;
   }
 
+  /**
+   * Explain where a configuration key came from.
+   * Lists the winning loader, every loader that supplied the key and the masked
+   * values that were shadowed, in precedence order.
+   * @param key The configuration key
+   * @returns The key's provenance, or null if no loader supplied it
+   * @throws ConfigurationError if configuration is not loaded
+   */
+  explain(key: string): KeyProvenance | null {
+    if (!this.loaded || this.loadResult === null) {
+      throw new ConfigurationError('Configuration not loaded. Call load() first.');
+    }
+    return this.loadResult.provenance[key] ?? null;
+  }
+
+  /**
+   * Check whether a key holds a secret that must be masked when displayed: a value
+   * decrypted with KMS, an object containing one or a value inside one, or a key
+   * matching the verbose `sensitiveKeys` patterns.
+   * @param key The configuration key or dotted path
+   * @returns true if the value should be masked
+   */
+  isSensitive(key: string): boolean {
+    const registered = this.loadResult?.sensitiveKeys ?? [];
+    if (registered.some((path) => path === key || path.startsWith(`${key}.`) || key.startsWith(`${path}.`))) {
+      return true;
+    }
+
+    const lowerKey = key.toLowerCase();
+    const patterns = this._verboseOptions?.sensitiveKeys ?? DEFAULT_SENSITIVE_KEYS;
+    return patterns.some((pattern) => lowerKey.includes(pattern.toLowerCase()));
+  }
+
   /**
    * Serialize the current configuration to JSON string.
    * @returns JSON string representation of the configuration
@@ -401,41 +1470,84 @@ export class ConfigManager<T = Record<string, unknown>> {
     return JSON.stringify(this.config);
   }
 
+  /**
+   * Create a versioned snapshot of the current configuration, encrypted when
+   * `snapshot.encryptionKey` is configured. Like the last-known-good snapshot, it holds the
+   * configuration as it was before validation. Restore it with deserialize().
+   * @returns The serialized snapshot
+   * @throws ConfigurationError if configuration is not loaded
+   */
+  createSnapshot(): string {
+    if (!this.loaded || this.config === null) {
+      throw new ConfigurationError('Configuration not loaded. Call load() first.');
+    }
+    return ConfigSnapshotUtil.create(
+      this.unvalidatedConfig ?? this.config,
+      this._options.snapshot,
+      undefined,
+      this.loadResult?.sensitiveKeys
+    );
+  }
+
   /**
    * Create a new ConfigManager with configuration loaded from a JSON string.
    * This is useful for restoring configuration from a serialized state.
-   * @param json JSON string to deserialize
+   * Snapshots created by createSnapshot() are decrypted and checked against
+   * `options.snapshot`, validated with the schema's output used as the configuration,
+   * and the result is marked as stale.
+   * @param json JSON string or snapshot to deserialize
    * @param options Optional ConfigManager options (schema will be used for validation)
    * @returns A new ConfigManager instance with the deserialized configuration
+   * @throws ValidationError if the configuration does not match the schema
+   * @throws SnapshotError if a snapshot cannot be decrypted, has another schema version or is too old
    */
   static deserialize<T = Record<string, unknown>>(
     json: string,
     options: ConfigManagerOptions<T> = {}
   ): ConfigManager<T> {
-    const parsed = JSON.parse(json);
+    let parsed = JSON.parse(json);
+    const snapshot = ConfigSnapshotUtil.isSnapshot(parsed)
+      ? ConfigSnapshotUtil.read(json, options.snapshot)
+      : null;
+    if (snapshot) {
+      parsed = snapshot.config;
+    }
 
     // Validate if schema is provided
+    let config = parsed as T;
     if (options.schema) {
-      const result = options.schema.safeParse(parsed);
+      const result = ConfigValidationUtil.toValidator(options.schema).validate(parsed);
+      if (result instanceof Promise) {
+        throw new ConfigurationError('deserialize() does not support asynchronous validators');
+      }
       if (!result.success) {
-        const zodError = result.error as ZodError;
-        throw new ValidationError(
-          `Deserialization validation failed: ${zodError.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
-          zodError.errors,
-          undefined
+        throw ConfigValidationUtil.createValidationError(
+          result.issues.map((issue) => attributeIssue(issue, parsed, () => 'deserialize')),
+          'Deserialization validation failed'
         );
       }
+      // Snapshots hold unvalidated configuration, so the schema's output is the configuration
+      if (snapshot) {
+        config = result.data;
+      }
     }
 
     // Create a new ConfigManager and set its internal state
     const manager = new ConfigManager<T>(options);
-    manager.config = parsed as T;
+    manager.config = config;
+    manager.unvalidatedConfig = parsed;
     manager.loaded = true;
-    manager.loadResult = {
-      config: parsed as T,
-      sources: [{ loader: 'deserialize', keysLoaded: Object.keys(parsed), duration: 0 }],
-      loadedAt: new Date(),
-    };
+    manager.loadResult = buildStaticResult(config, 'deserialize');
+    if (snapshot) {
+      manager.loadResult.stale = true;
+      manager.loadResult.sensitiveKeys = snapshot.sensitiveKeys;
+      manager.loadResult.snapshot = {
+        savedAt: snapshot.savedAt,
+        ageMs: manager.loadResult.loadedAt.getTime() - snapshot.savedAt.getTime(),
+        schemaVersion: snapshot.schemaVersion,
+        reason: 'deserialized from snapshot',
+      };
+    }
 
     return manager;
   }
@@ -12,6 +12,9 @@ import {
   AWSServiceError,
   ConfigurationLoadError,
   MissingConfigurationError,
+  InterpolationError,
+  LoaderTimeoutError,
+  SnapshotError,
 } from './index';
 
 describe('Error Class Hierarchy Property Tests', () => {
@@ -138,6 +141,49 @@ describe('Error Class Hierarchy Property Tests', () => {
     });
   });
 
+  describe('InterpolationError', () => {
+    it('should extend ConfigurationError for any key, variable and loader', () => {
+      fc.assert(
+        fc.property(
+          fc.string(),
+          fc.string({ minLength: 1 }),
+          fc.string({ minLength: 1 }),
+          fc.option(fc.string({ minLength: 1 }), { nil: undefined }),
+          (message, key, variable, loader) => {
+            const error = new InterpolationError(message, key, variable, loader);
+            expect(error).toBeInstanceOf(Error);
+            expect(error).toBeInstanceOf(ConfigurationError);
+            expect(error).toBeInstanceOf(InterpolationError);
+            expect(error.name).toBe('InterpolationError');
+            expect(error.message).toBe(message);
+            expect(error.key).toBe(key);
+            expect(error.variable).toBe(variable);
+            expect(error.loader).toBe(loader);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('LoaderTimeoutError', () => {
+    it('should extend ConfigurationError for any loader and timeout', () => {
+      fc.assert(
+        fc.property(fc.string(), fc.string({ minLength: 1 }), fc.nat(), (message, loader, timeoutMs) => {
+          const error = new LoaderTimeoutError(message, loader, timeoutMs);
+          expect(error).toBeInstanceOf(Error);
+          expect(error).toBeInstanceOf(ConfigurationError);
+          expect(error).toBeInstanceOf(LoaderTimeoutError);
+          expect(error.name).toBe('LoaderTimeoutError');
+          expect(error.message).toBe(message);
+          expect(error.loader).toBe(loader);
+          expect(error.timeoutMs).toBe(timeoutMs);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
   describe('Inheritance chain consistency', () => {
     it('all error types should maintain proper prototype chain', () => {
       fc.assert(
@@ -148,6 +194,9 @@ describe('Error Class Hierarchy Property Tests', () => {
             new AWSServiceError(message, 'service', 'operation'),
             new ConfigurationLoadError(message, 'loader'),
             new MissingConfigurationError(message, ['key']),
+            new InterpolationError(message, 'key', 'variable'),
+            new LoaderTimeoutError(message, 'loader', 1000),
+            new SnapshotError(message),
           ];
 
           for (const error of errors) {
@@ -1,3 +1,5 @@
+import type { AttributedValidationIssue } from '../interfaces/validator.interface.js';
+
 /**
  * Base error class for all configuration-related errors
  */
@@ -17,13 +19,16 @@ export class ConfigurationError extends Error {
  * Error thrown when configuration validation fails
  */
 export class ValidationError extends ConfigurationError {
-  /** Detailed validation errors from Zod */
+  /** Detailed validation errors, formatted by ConfigValidationUtil.formatValidationErrors() */
   public readonly validationErrors: unknown;
+  /** Each failure with its key path, masked value and the loader that supplied it */
+  public readonly issues: AttributedValidationIssue[];
 
-  constructor(message: string, validationErrors: unknown, cause?: Error) {
+  constructor(message: string, validationErrors: unknown, cause?: Error, issues: AttributedValidationIssue[] = []) {
     super(message, cause);
     this.name = 'ValidationError';
     this.validationErrors = validationErrors;
+    this.issues = issues;
     Object.setPrototypeOf(this, ValidationError.prototype);
   }
 }
@@ -75,3 +80,74 @@ export class MissingConfigurationError extends ConfigurationError {
     Object.setPrototypeOf(this, MissingConfigurationError.prototype);
   }
 }
+
+/**
+ * Error thrown when a variable reference in a configuration value cannot be expanded
+ */
+export class InterpolationError extends ConfigurationError {
+  /** The configuration key whose value contains the reference */
+  public readonly key: string;
+  /** The referenced variable name */
+  public readonly variable: string;
+  /** The name of the loader that supplied the value containing the reference */
+  public readonly loader?: string;
+
+  constructor(message: string, key: string, variable: string, loader?: string, cause?: Error) {
+    super(message, cause);
+    this.name = 'InterpolationError';
+    this.key = key;
+    this.variable = variable;
+    this.loader = loader;
+    Object.setPrototypeOf(this, InterpolationError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a loader does not finish within its configured timeout
+ */
+export class LoaderTimeoutError extends ConfigurationError {
+  /** The name of the loader that timed out */
+  public readonly loader: string;
+  /** The timeout in milliseconds */
+  public readonly timeoutMs: number;
+
+  constructor(message: string, loader: string, timeoutMs: number) {
+    super(message);
+    this.name = 'LoaderTimeoutError';
+    this.loader = loader;
+    this.timeoutMs = timeoutMs;
+    Object.setPrototypeOf(this, LoaderTimeoutError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a configuration snapshot cannot be read, decrypted or used
+ */
+export class SnapshotError extends ConfigurationError {
+  constructor(message: string, cause?: Error) {
+    super(message, cause);
+    this.name = 'SnapshotError';
+    Object.setPrototypeOf(this, SnapshotError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a configuration file cannot be parsed
+ */
+export class ConfigParseError extends ConfigurationError {
+  /** The format being parsed, e.g. 'yaml' */
+  public readonly format: string;
+  /** 1-based line of the error, if known */
+  public readonly line?: number;
+  /** 1-based column of the error, if known */
+  public readonly column?: number;
+
+  constructor(message: string, format: string, line?: number, column?: number, cause?: Error) {
+    super(line !== undefined && column !== undefined ? `${message} at line ${line}, column ${column}` : message, cause);
+    this.name = 'ConfigParseError';
+    this.format = format;
+    this.line = line;
+    this.column = column;
+    Object.setPrototypeOf(this, ConfigParseError.prototype);
+  }
+}
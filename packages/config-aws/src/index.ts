@@ -10,6 +10,13 @@
 export type {
   ConfigLoader,
   ConfigLoaderResult,
+  LoaderOptions,
+  LoaderErrorPolicy,
+  BackoffOptions,
+  KeyCase,
+  KeyTransformOptions,
+  ConfigFormat,
+  EnvFileSyntax,
 } from './interfaces/config-loader.interface.js';
 
 export type {
@@ -17,9 +24,23 @@ export type {
   LoaderPrecedence,
   VerboseOptions,
   PrecedenceStrategy,
+  MergeStrategy,
+  MergeOptions,
+  InterpolationOptions,
   ConfigLoadResult,
   ConfigSourceInfo,
+  FailedLoaderInfo,
+  SkippedLoaderInfo,
+  KeyProvenance,
+  KeyProvenanceSource,
   Logger,
+  RefreshOptions,
+  ConfigChangeEvent,
+  ConfigChangeListener,
+  ConfigErrorListener,
+  ConfigManagerEvents,
+  RotatingSecretOptions,
+  SecretStage,
 } from './interfaces/config-manager.interface.js';
 
 export type {
@@ -32,16 +53,62 @@ export type {
 
 export type {
   S3LoaderConfig,
+  S3ObjectMetadata,
+  S3SignatureOptions,
 } from './interfaces/s3-loader.interface.js';
 
 export type {
   SecretsManagerLoaderConfig,
+  SecretSource,
+  SecretVersionOptions,
+  SecretBinaryFormat,
+  RotatingSecret,
 } from './interfaces/secrets-manager-loader.interface.js';
 
 export type {
   SSMParameterStoreLoaderConfig,
+  SSMParameterKeyStyle,
+  SSMParameterMetadata,
 } from './interfaces/ssm-parameter-store-loader.interface.js';
 
+export type {
+  ErrorClassification,
+  RetryOptions,
+} from './interfaces/retry.interface.js';
+
+export type {
+  SecretReference,
+  SecretReferenceOptions,
+} from './interfaces/secret-reference.interface.js';
+
+export type {
+  KmsDecryptionOptions,
+  KmsDecryptionResult,
+} from './interfaces/kms-decryption.interface.js';
+
+export type {
+  SnapshotStore,
+  SnapshotOptions,
+  ConfigSnapshot,
+  SnapshotInfo,
+} from './interfaces/snapshot.interface.js';
+
+export type {
+  ValidationIssue,
+  AttributedValidationIssue,
+  ConfigValidationResult,
+  ConfigValidator,
+  ConfigSchema,
+  StandardSchemaV1,
+  StandardSchemaIssue,
+  StandardSchemaResult,
+} from './interfaces/validator.interface.js';
+
+export type { ConfigPlugin, PluginHookResult } from './interfaces/plugin.interface.js';
+
+export type { JoiSchemaLike } from './validators/joi.validator.js';
+export type { ClassValidatorErrorLike, ClassValidatorFunctions } from './validators/class-validator.validator.js';
+
 // Error classes
 export {
   ConfigurationError,
@@ -49,6 +116,10 @@ export {
   AWSServiceError,
   ConfigurationLoadError,
   MissingConfigurationError,
+  InterpolationError,
+  LoaderTimeoutError,
+  SnapshotError,
+  ConfigParseError,
 } from './errors/index.js';
 
 // Loaders
@@ -58,9 +129,32 @@ export { S3Loader } from './loaders/s3.loader.js';
 export { SecretsManagerLoader } from './loaders/secrets-manager.loader.js';
 export { SSMParameterStoreLoader } from './loaders/ssm-parameter-store.loader.js';
 
+// Resolvers
+export { SecretReferenceResolver } from './resolvers/secret-reference.resolver.js';
+export { KmsValueResolver } from './resolvers/kms-value.resolver.js';
+
+// Validators
+export { ZodConfigValidator } from './validators/zod.validator.js';
+export { StandardSchemaConfigValidator } from './validators/standard-schema.validator.js';
+export { JoiConfigValidator } from './validators/joi.validator.js';
+export { ClassValidatorConfigValidator } from './validators/class-validator.validator.js';
+
+// Snapshot stores
+export { FileSnapshotStore } from './stores/file-snapshot.store.js';
+
 // ConfigManager
 export { ConfigManager } from './config-manager.js';
 
 // Utilities
 export { ConfigValidationUtil } from './utils/validation.util.js';
 export { EnvFileParser } from './utils/env-file-parser.util.js';
+export { ConfigMergeUtil } from './utils/merge.util.js';
+export { ConfigInterpolationUtil } from './utils/interpolation.util.js';
+export { RetryUtil } from './utils/retry.util.js';
+export { ConfigSnapshotUtil } from './utils/snapshot.util.js';
+export { ConfigValueUtil } from './utils/config-value.util.js';
+export { KeyTransformUtil } from './utils/key-transform.util.js';
+export { ConfigFormatUtil } from './utils/config-format.util.js';
+export { YamlParser } from './utils/yaml-parser.util.js';
+export { TomlParser } from './utils/toml-parser.util.js';
+export { IniParser } from './utils/ini-parser.util.js';
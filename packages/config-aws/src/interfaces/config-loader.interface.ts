@@ -10,6 +10,118 @@ export interface ConfigLoaderResult {
   duration: number;
 }
 
+/**
+ * Exponential backoff settings for loader retries
+ */
+export interface BackoffOptions {
+  /** Delay before the first retry in milliseconds. Default: 1000 */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay in milliseconds. Default: 30000 */
+  maxDelayMs?: number;
+  /** Random spread applied to each delay as a fraction of it (0.25 = ±25%). Default: 0.25 */
+  jitter?: number;
+}
+
+/**
+ * Case conversions for transformed keys:
+ * - 'upper' / 'lower': change the letter case only
+ * - 'constant': DATABASE_HOST
+ * - 'snake': database_host
+ * - 'camel': databaseHost
+ * - 'pascal': DatabaseHost
+ * - 'kebab': database-host
+ */
+export type KeyCase = 'upper' | 'lower' | 'constant' | 'snake' | 'camel' | 'pascal' | 'kebab';
+
+/**
+ * Declarative transformation of the top-level keys a loader produces.
+ *
+ * Steps run in this order:
+ * 1. include / exclude, matched against the key as the loader produced it
+ * 2. stripPrefix
+ * 3. rename, looked up with the stripped key; renamed keys skip case and addPrefix
+ * 4. case, applied to each nesting segment separately when nest is set
+ * 5. addPrefix
+ * 6. nest
+ */
+export interface KeyTransformOptions {
+  /**
+   * Glob patterns a key must match to be kept. `*` matches any sequence of characters
+   * and `?` a single character. Default: all keys
+   */
+  include?: string[];
+  /** Glob patterns of keys to drop. Exclusion wins over inclusion */
+  exclude?: string[];
+  /** Prefix removed from keys that start with it. Keys that do not start with it are kept unchanged */
+  stripPrefix?: string;
+  /** Map of stripped key to final key name */
+  rename?: Record<string, string>;
+  /** Case conversion applied to the key */
+  case?: KeyCase;
+  /** Prefix prepended to every key that was not renamed */
+  addPrefix?: string;
+  /** Separator that splits keys into nested objects, e.g. '__' turns DATABASE__HOST into { DATABASE: { HOST } } */
+  nest?: string;
+}
+
+/**
+ * File formats understood by ConfigFormatUtil:
+ * - 'json': a JSON object
+ * - 'env': an environment file, parsed with the chosen EnvFileSyntax
+ * - 'yaml': a single YAML document
+ * - 'toml': a TOML document
+ * - 'ini': an INI file with optional [section] headers
+ */
+export type ConfigFormat = 'json' | 'env' | 'yaml' | 'toml' | 'ini';
+
+/**
+ * Syntax of environment files:
+ * - 'ecs': the AWS ECS format, where everything after the first = is the literal value
+ * - 'dotenv': the dotenv format, with quotes, escape sequences, `export` prefixes,
+ *   inline comments and multi-line quoted values
+ */
+export type EnvFileSyntax = 'ecs' | 'dotenv';
+
+/**
+ * What to do when a loader fails:
+ * - 'fail': abort the load with a ConfigurationLoadError
+ * - 'warn': log a warning and continue with the remaining loaders
+ * - 'silent': continue with the remaining loaders without logging
+ */
+export type LoaderErrorPolicy = 'fail' | 'warn' | 'silent';
+
+/**
+ * Options shared by all built-in loaders.
+ * Custom loaders can expose the same options through ConfigLoader.getOptions().
+ */
+export interface LoaderOptions {
+  /** Unique identifier for this loader instance, used by custom precedence. Default: the loader name */
+  id?: string;
+  /**
+   * Priority among loaders with the same precedence rank - higher values override lower values.
+   * Useful for ordering several instances of the same loader kind. Default: 0
+   */
+  priority?: number;
+  /** Timeout in milliseconds for the availability check and each load attempt. Default: no timeout */
+  timeoutMs?: number;
+  /**
+   * Number of times a failed load is retried. Only throttling, network and timeout errors are retried;
+   * access denied, not found and unknown errors fail immediately. Default: 2
+   */
+  retries?: number;
+  /** Backoff between retries */
+  backoff?: BackoffOptions;
+  /**
+   * Whether this loader must contribute configuration. A required loader that is unavailable,
+   * fails or loads no keys (e.g. a missing secret) always fails the load, regardless of onError.
+   */
+  required?: boolean;
+  /** Transformation applied to the keys this loader produces, before they are merged */
+  keyTransform?: KeyTransformOptions;
+  /** Policy for failures of a loader that is not required. Default: 'warn' when required is false, otherwise 'fail' */
+  onError?: LoaderErrorPolicy;
+}
+
 /**
  * Interface for configuration loaders.
  * All loaders must implement this interface to be used with ConfigManager.
@@ -32,4 +144,24 @@ export interface ConfigLoader {
    * @returns Promise resolving to true if the loader can load configuration
    */
   isAvailable(): Promise<boolean>;
+
+  /**
+   * Get the stable kind of this loader, independent of instance configuration.
+   * Predefined precedence strategies match on this value. When not implemented, getName() is used.
+   * @returns The loader kind, e.g. 'SSMParameterStoreLoader'
+   */
+  getKind?(): string;
+
+  /**
+   * Get the per-instance loader options.
+   * @returns The loader options
+   */
+  getOptions?(): LoaderOptions;
+
+  /**
+   * Get the object within the source that supplied each top-level key in the last load(),
+   * for loaders that merge several objects. ConfigManager records it in the key's provenance.
+   * @returns Map of top-level key to object identifier, e.g. an S3 object URI
+   */
+  getKeySources?(): Record<string, string>;
 }
@@ -1,5 +1,9 @@
-import type { ZodType } from 'zod';
 import type { ConfigLoader } from './config-loader.interface.js';
+import type { KmsDecryptionOptions } from './kms-decryption.interface.js';
+import type { SecretReferenceOptions } from './secret-reference.interface.js';
+import type { SnapshotInfo, SnapshotOptions } from './snapshot.interface.js';
+import type { ConfigSchema } from './validator.interface.js';
+import type { ConfigPlugin } from './plugin.interface.js';
 
 /**
  * Logger interface for ConfigManager
@@ -33,7 +37,7 @@ export interface VerboseOptions {
  * Custom loader precedence configuration
  */
 export interface LoaderPrecedence {
-  /** Loader name */
+  /** Loader id, name or kind (matched in that order) */
   loader: string;
   /** Priority - higher values override lower values */
   priority: number;
@@ -44,19 +48,91 @@ export interface LoaderPrecedence {
  * - 'aws-first': env -> envFile -> s3 -> secretsManager -> ssm (AWS wins)
  * - 'local-first': secretsManager -> ssm -> s3 -> envFile -> env (local wins)
  * - Custom array: user-defined order via LoaderPrecedence[]
+ *
+ * Loaders with the same rank are ordered by their `priority` option.
  */
 export type PrecedenceStrategy = 'aws-first' | 'local-first' | LoaderPrecedence[];
 
+/**
+ * Strategy for merging a key supplied by more than one loader
+ * - 'replace': the higher precedence value replaces the lower one
+ * - 'deep': plain objects are merged recursively, other values are replaced
+ * - 'append': arrays are concatenated, other values are replaced
+ * - 'union': arrays are concatenated without duplicates, other values are replaced
+ */
+export type MergeStrategy = 'replace' | 'deep' | 'append' | 'union';
+
+/**
+ * Options for merging configuration from multiple loaders
+ */
+export interface MergeOptions {
+  /** Strategy applied to every top-level key. Default: 'replace' (shallow merge) */
+  strategy?: MergeStrategy;
+  /**
+   * Strategies for specific dotted paths, e.g. { 'database': 'deep', 'features.flags': 'union' }.
+   * Keys nested under a 'deep' path inherit 'deep' unless overridden here. A nested path applies
+   * whatever the strategy of its parents: their other keys are merged with the parent's strategy.
+   */
+  paths?: Record<string, MergeStrategy>;
+}
+
+/**
+ * Options for expanding `${VAR}` references in configuration values
+ */
+export interface InterpolationOptions {
+  /** Only expand the values of these top-level keys. Default: all keys */
+  keys?: string[];
+}
+
 /**
  * Options for ConfigManager
  */
 export interface ConfigManagerOptions<T = Record<string, unknown>> {
   /** Array of loaders to use */
   loaders?: ConfigLoader[];
-  /** Zod schema for validation */
-  schema?: ZodType<T>;
+  /**
+   * Schema for validation: a Zod schema, a Standard Schema (Valibot, ArkType, ...) or a
+   * ConfigValidator such as JoiConfigValidator or ClassValidatorConfigValidator
+   */
+  schema?: ConfigSchema<T>;
   /** Precedence strategy for merging configurations */
   precedence?: PrecedenceStrategy;
+  /** How values supplied by multiple loaders are merged. Default: shallow merge */
+  merge?: MergeOptions;
+  /**
+   * Expand `${VAR}`, `${VAR:-fallback}` and `${nested.path}` references after all loaders are merged.
+   * Use `\${VAR}` for a literal `${VAR}`. Default: false
+   */
+  interpolate?: boolean | InterpolationOptions;
+  /**
+   * Resolve values of the form `ssm:/path`, `secretsmanager:<id>#jsonKey` or `s3://bucket/key`
+   * to the secret they point at. Resolution happens after merging and before interpolation. Default: false
+   */
+  resolveReferences?: boolean | SecretReferenceOptions;
+  /**
+   * Decrypt values of the form `kms:<base64 ciphertext>` from any loader with AWS KMS.
+   * Decryption happens after merging and before reference resolution, and decrypted keys
+   * are always masked in logs. Default: false
+   */
+  decrypt?: boolean | KmsDecryptionOptions;
+  /**
+   * Persist a last-known-good snapshot after each successful load and fall back to it
+   * when a later load fails. Requires `snapshot.encryptionKey` when `decrypt` or `resolveReferences`
+   * is enabled. Default: disabled
+   */
+  snapshot?: SnapshotOptions;
+  /** Plugins whose hooks run during every load and refresh, in registration order */
+  plugins?: ConfigPlugin<T>[];
+  /**
+   * Maximum number of loaders fetched at once, as a positive integer.
+   * Results are still merged in precedence order. Default: unlimited
+   */
+  concurrency?: number;
+  /**
+   * Deadline in milliseconds for fetching all loaders. Loaders that have not finished by then
+   * fail with a LoaderTimeoutError and are handled by their error policy. Default: no deadline
+   */
+  loadTimeoutMs?: number;
   /** Whether to validate configuration on load. Default: true */
   validateOnLoad?: boolean;
   /** Enable logging. Default: false */
@@ -73,12 +149,72 @@ export interface ConfigManagerOptions<T = Record<string, unknown>> {
 export interface ConfigSourceInfo {
   /** Name of the loader */
   loader: string;
+  /** Unique id of the loader instance */
+  id: string;
+  /** Stable kind of the loader */
+  kind: string;
   /** Keys loaded by this loader */
   keysLoaded: string[];
   /** Time taken to load in milliseconds */
   duration: number;
 }
 
+/**
+ * A single loader's contribution to a configuration key
+ */
+export interface KeyProvenanceSource {
+  /** Name of the loader that supplied the key */
+  loader: string;
+  /** Masked value supplied by the loader (first/last 2 chars only) */
+  maskedValue: string;
+  /** Object within the source that supplied the key, e.g. the S3 object URI when S3Loader loads a prefix */
+  object?: string;
+}
+
+/**
+ * Provenance of a single configuration key across all loaders
+ */
+export interface KeyProvenance {
+  /** The configuration key */
+  key: string;
+  /** Name of the loader whose value was used */
+  winner: string;
+  /** Every loader that supplied the key, highest precedence (the winner) first */
+  sources: KeyProvenanceSource[];
+  /** Loaders whose values were overridden by the winner, highest precedence first */
+  shadowed: KeyProvenanceSource[];
+}
+
+/**
+ * Information about a loader that failed without aborting the load
+ */
+export interface FailedLoaderInfo {
+  /** Name of the loader */
+  loader: string;
+  /** Unique id of the loader instance */
+  id: string;
+  /** Stable kind of the loader */
+  kind: string;
+  /** The error the loader failed with */
+  error: Error;
+  /** Time spent on the loader in milliseconds */
+  duration: number;
+}
+
+/**
+ * Information about a loader that was skipped because it was not available
+ */
+export interface SkippedLoaderInfo {
+  /** Name of the loader */
+  loader: string;
+  /** Unique id of the loader instance */
+  id: string;
+  /** Stable kind of the loader */
+  kind: string;
+  /** Why the loader was skipped */
+  reason: string;
+}
+
 /**
  * Result of loading configuration
  */
@@ -87,6 +223,85 @@ export interface ConfigLoadResult<T> {
   config: T;
   /** Information about each source */
   sources: ConfigSourceInfo[];
+  /** Per-key provenance table describing which loaders supplied each key */
+  provenance: Record<string, KeyProvenance>;
+  /** Loaders that failed but were allowed to by their onError policy */
+  failed: FailedLoaderInfo[];
+  /** Loaders that were skipped because they were not available */
+  skipped: SkippedLoaderInfo[];
+  /** Whether the configuration was restored from a last-known-good snapshot instead of loaded fresh */
+  stale: boolean;
+  /** The snapshot the configuration was restored from, when stale */
+  snapshot?: SnapshotInfo;
+  /**
+   * Dotted paths of values known to be secrets, such as values decrypted with KMS.
+   * They are masked in verbose logs regardless of `maskValues` and `sensitiveKeys`
+   */
+  sensitiveKeys: string[];
   /** When the configuration was loaded */
   loadedAt: Date;
 }
+
+/**
+ * Options for periodic configuration refresh
+ */
+export interface RefreshOptions {
+  /** Interval between refreshes in milliseconds */
+  intervalMs: number;
+  /** Keep the Node.js process alive while the refresh timer is active. Default: false */
+  keepAlive?: boolean;
+}
+
+/**
+ * Event emitted when a refresh produces a different configuration
+ */
+export interface ConfigChangeEvent<T> {
+  /** Keys present in the new configuration but not in the previous one */
+  added: string[];
+  /** Keys present in the previous configuration but not in the new one */
+  removed: string[];
+  /** Keys present in both configurations whose values differ */
+  modified: string[];
+  /** The configuration before the refresh */
+  previous: T;
+  /** The configuration after the refresh */
+  current: T;
+  /** When the change was applied */
+  changedAt: Date;
+}
+
+/**
+ * Stage of a rotating secret passed to a withRotatingSecret() callback
+ */
+export type SecretStage = 'current' | 'pending';
+
+/**
+ * Options for ConfigManager.withRotatingSecret()
+ */
+export interface RotatingSecretOptions {
+  /**
+   * Whether an error thrown by the callback means the credential was rejected.
+   * Default: recognizes common PostgreSQL, MySQL, SQL Server, MongoDB and Redis authentication failures
+   */
+  isAuthError?: (error: unknown) => boolean;
+}
+
+/**
+ * Listener invoked when the configuration changes
+ */
+export type ConfigChangeListener<T> = (event: ConfigChangeEvent<T>) => void;
+
+/**
+ * Listener invoked when a background refresh fails
+ */
+export type ConfigErrorListener = (error: Error) => void;
+
+/**
+ * Events emitted by ConfigManager
+ * - 'change': a refresh loaded and validated a different configuration
+ * - 'error': a refresh failed; the previous configuration is kept
+ */
+export interface ConfigManagerEvents<T> {
+  change: ConfigChangeListener<T>;
+  error: ConfigErrorListener;
+}
@@ -1,11 +1,21 @@
+import type { EnvFileSyntax, LoaderOptions } from './config-loader.interface.js';
+
 /**
  * Configuration options for EnvFileLoader
  */
-export interface EnvFileLoaderConfig {
-  /** Paths to .env files to load. Default: ['.env', '.env.local'] */
+export interface EnvFileLoaderConfig extends LoaderOptions {
+  /**
+   * Paths to .env files to load. Files with a .json, .yaml, .yml, .toml, .ini or .cfg extension
+   * are parsed in that format; any other file is an env file. Default: ['.env', '.env.local']
+   */
   paths?: string[];
   /** File encoding. Default: 'utf-8' */
   encoding?: BufferEncoding;
   /** Whether later files override earlier ones. Default: true */
   override?: boolean;
+  /**
+   * File syntax: 'ecs' for the AWS ECS format, where values are literal, or 'dotenv' for
+   * quotes, escape sequences, `export` prefixes, inline comments and multi-line values. Default: 'ecs'
+   */
+  syntax?: EnvFileSyntax;
 }
@@ -1,7 +1,9 @@
+import type { LoaderOptions } from './config-loader.interface.js';
+
 /**
  * Configuration options for EnvironmentLoader
  */
-export interface EnvironmentLoaderConfig {
+export interface EnvironmentLoaderConfig extends LoaderOptions {
   /** Prefix to filter environment variables. Only variables starting with this prefix will be loaded. */
   prefix?: string;
   /** List of environment variable names to exclude from loading */
@@ -1,15 +1,54 @@
-export type { ConfigLoader, ConfigLoaderResult } from './config-loader.interface.js';
+export type { ConfigLoader, ConfigLoaderResult, LoaderOptions, LoaderErrorPolicy, BackoffOptions, KeyCase, KeyTransformOptions, ConfigFormat, EnvFileSyntax } from './config-loader.interface.js';
 export type {
   ConfigManagerOptions,
   LoaderPrecedence,
   VerboseOptions,
   PrecedenceStrategy,
+  MergeStrategy,
+  MergeOptions,
+  InterpolationOptions,
   ConfigLoadResult,
   ConfigSourceInfo,
+  FailedLoaderInfo,
+  SkippedLoaderInfo,
+  KeyProvenance,
+  KeyProvenanceSource,
   Logger,
+  RefreshOptions,
+  ConfigChangeEvent,
+  ConfigChangeListener,
+  ConfigErrorListener,
+  RotatingSecretOptions,
+  SecretStage,
+  ConfigManagerEvents,
 } from './config-manager.interface.js';
 export type { EnvironmentLoaderConfig } from './environment-loader.interface.js';
 export type { EnvFileLoaderConfig } from './env-file-loader.interface.js';
-export type { S3LoaderConfig } from './s3-loader.interface.js';
-export type { SecretsManagerLoaderConfig } from './secrets-manager-loader.interface.js';
-export type { SSMParameterStoreLoaderConfig } from './ssm-parameter-store-loader.interface.js';
+export type { S3LoaderConfig, S3ObjectMetadata, S3SignatureOptions } from './s3-loader.interface.js';
+export type {
+  SecretsManagerLoaderConfig,
+  SecretSource,
+  SecretVersionOptions,
+  SecretBinaryFormat,
+  RotatingSecret,
+} from './secrets-manager-loader.interface.js';
+export type {
+  SSMParameterStoreLoaderConfig,
+  SSMParameterKeyStyle,
+  SSMParameterMetadata,
+} from './ssm-parameter-store-loader.interface.js';
+export type { SecretReference, SecretReferenceOptions } from './secret-reference.interface.js';
+export type { KmsDecryptionOptions, KmsDecryptionResult } from './kms-decryption.interface.js';
+export type { ErrorClassification, RetryOptions } from './retry.interface.js';
+export type { SnapshotStore, SnapshotOptions, ConfigSnapshot, SnapshotInfo } from './snapshot.interface.js';
+export type {
+  ValidationIssue,
+  AttributedValidationIssue,
+  ConfigValidationResult,
+  ConfigValidator,
+  ConfigSchema,
+  StandardSchemaV1,
+  StandardSchemaIssue,
+  StandardSchemaResult,
+} from './validator.interface.js';
+export type { ConfigPlugin, PluginHookResult } from './plugin.interface.js';
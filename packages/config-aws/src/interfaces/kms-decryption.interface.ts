@@ -0,0 +1,30 @@
+import type { KMSClient } from '@aws-sdk/client-kms';
+
+/**
+ * Options for decrypting KMS-encrypted configuration values (`kms:<base64 ciphertext>`)
+ */
+export interface KmsDecryptionOptions {
+  /** AWS region of the KMS key. Default: AWS_REGION or 'us-east-1' */
+  region?: string;
+  /** Marker that identifies encrypted values. Default: 'kms:' */
+  prefix?: string;
+  /**
+   * Key the values must have been encrypted with, as a key ID, key ARN, alias name or alias ARN.
+   * Required for asymmetric keys; for symmetric keys KMS reads the key from the ciphertext. Default: none
+   */
+  keyId?: string;
+  /** Encryption context the values were encrypted with. Default: none */
+  encryptionContext?: Record<string, string>;
+  /** Client used for Decrypt calls. Default: a KMSClient for `region` using the default credential chain */
+  client?: Pick<KMSClient, 'send'>;
+}
+
+/**
+ * Result of decrypting the encrypted values in a configuration object
+ */
+export interface KmsDecryptionResult {
+  /** The configuration with encrypted values replaced by their plaintext */
+  config: Record<string, unknown>;
+  /** Dotted paths of the values that were decrypted, e.g. ['DB_PASSWORD', 'database.password'] */
+  decryptedKeys: string[];
+}
@@ -0,0 +1,68 @@
+/**
+ * Return type of hooks that may replace the value they receive.
+ * Returning undefined keeps the value unchanged.
+ */
+export type PluginHookResult<V> = V | void | Promise<V | void>;
+
+/**
+ * Plugin that hooks into the ConfigManager load pipeline.
+ *
+ * Hooks run for every load() and refresh(), in the order plugins are registered.
+ * All hooks are optional and may be async. Pipeline hooks receive the current
+ * configuration and may return a replacement; an error thrown by a hook fails the load.
+ *
+ * Pipeline order:
+ * 1. beforeLoad
+ * 2. afterLoader, once per loader that loaded, in precedence order
+ * 3. afterMerge, before secret references are resolved and variables interpolated
+ * 4. beforeValidate
+ * 5. afterValidate
+ *
+ * @example
+ * ```typescript
+ * const upperCaseKeys: ConfigPlugin = {
+ *   name: 'upper-case-keys',
+ *   afterLoader: (loader, config) =>
+ *     Object.fromEntries(Object.entries(config).map(([key, value]) => [key.toUpperCase(), value])),
+ * };
+ * ```
+ */
+export interface ConfigPlugin<T = Record<string, unknown>> {
+  /** Name of the plugin, used in log and error messages */
+  readonly name: string;
+
+  /** Called before any loader runs */
+  beforeLoad?(): void | Promise<void>;
+
+  /**
+   * Called with the configuration from a single loader, before it is merged.
+   * @param loader Name of the loader
+   * @param config The loader's configuration
+   */
+  afterLoader?(loader: string, config: Record<string, unknown>): PluginHookResult<Record<string, unknown>>;
+
+  /**
+   * Called with the merged configuration from all loaders.
+   * @param config The merged configuration
+   */
+  afterMerge?(config: Record<string, unknown>): PluginHookResult<Record<string, unknown>>;
+
+  /**
+   * Called with the final configuration right before schema validation.
+   * Runs even when no schema is configured.
+   * @param config The configuration to validate
+   */
+  beforeValidate?(config: Record<string, unknown>): PluginHookResult<Record<string, unknown>>;
+
+  /**
+   * Called with the validated configuration before it is swapped in.
+   * @param config The validated configuration
+   */
+  afterValidate?(config: T): PluginHookResult<T>;
+
+  /**
+   * Called when a load or refresh fails. Errors thrown here are logged and ignored.
+   * @param error The error that failed the load
+   */
+  onError?(error: Error): void | Promise<void>;
+}
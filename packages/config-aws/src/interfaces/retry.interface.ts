@@ -0,0 +1,25 @@
+import type { BackoffOptions } from './config-loader.interface.js';
+
+/**
+ * Classification of a loader error, used to decide whether it is worth retrying
+ */
+export type ErrorClassification =
+  | 'throttling'
+  | 'network'
+  | 'unavailable'
+  | 'timeout'
+  | 'access-denied'
+  | 'not-found'
+  | 'unknown';
+
+/**
+ * Options for RetryUtil.retry()
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt. Default: 2 */
+  retries?: number;
+  /** Backoff between retries */
+  backoff?: BackoffOptions;
+  /** Called before waiting for each retry */
+  onRetry?: (error: Error, attempt: number, delayMs: number) => void;
+}
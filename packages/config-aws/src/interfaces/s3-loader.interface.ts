@@ -1,13 +1,86 @@
+import type { KeyObject } from 'crypto';
+import type { ConfigFormat, EnvFileSyntax, LoaderOptions } from './config-loader.interface.js';
+import type { MergeOptions } from './config-manager.interface.js';
+
 /**
- * Configuration options for S3Loader
+ * A configuration object loaded by S3Loader
  */
-export interface S3LoaderConfig {
+export interface S3ObjectMetadata {
+  /** Object key */
+  key: string;
+  /** Object URI, e.g. 's3://my-config/app/prod/10-db.env' */
+  uri: string;
+  /** Format the object was parsed as */
+  format: ConfigFormat;
+  /** Top-level keys the object supplied, including keys later objects overrode */
+  keysLoaded: string[];
+  /** Object ETag */
+  etag?: string;
+  /** When the object was last modified */
+  lastModified?: Date;
+  /** Whether the object was unchanged since the previous load, so its cached content was used */
+  notModified: boolean;
+}
+
+/**
+ * Detached signature verification for S3Loader.
+ * The signature is read from a sidecar object next to each configuration object,
+ * e.g. 'app/config.json.sig', and holds the base64-encoded signature of the object's bytes.
+ * In prefix mode, listed objects ending in the sidecar suffix are not loaded as configuration.
+ */
+export interface S3SignatureOptions {
+  /** Public key that verifies the signatures, as a PEM string or KeyObject */
+  publicKey: string | KeyObject;
+  /** Suffix appended to the object key to find the sidecar object. Default: '.sig' */
+  suffix?: string;
+  /**
+   * Digest algorithm passed to crypto.verify(). Default: 'sha256',
+   * or none for Ed25519 and Ed448 keys, which do not take one
+   */
+  algorithm?: string;
+}
+
+/**
+ * Configuration options for S3Loader.
+ * Set either `key` to load a single object or `prefix` to load every object under a prefix.
+ */
+export interface S3LoaderConfig extends LoaderOptions {
   /** S3 bucket name */
   bucket: string;
   /** S3 object key */
-  key: string;
+  key?: string;
+  /**
+   * Key prefix, e.g. 'app/prod/'. Every object under the prefix is loaded and merged in
+   * lexical key order, so later objects override earlier ones. Keys ending in '/' are skipped.
+   */
+  prefix?: string;
+  /**
+   * Key of a manifest object, relative to `prefix`, listing the objects to load in merge order.
+   * The manifest is a JSON array of keys or one key per line ('#' starts a comment), each relative
+   * to `prefix`. Only listed objects are loaded, and a listed object that does not exist fails the load.
+   */
+  manifest?: string;
+  /** How objects under a prefix are merged. Default: { strategy: 'replace' } (shallow merge) */
+  merge?: MergeOptions;
   /** AWS region. If not specified, uses default region from environment */
   region?: string;
-  /** Format of the configuration file. Default: 'auto' (auto-detect based on content) */
-  format?: 'json' | 'env' | 'auto';
+  /**
+   * Format of the configuration file. Default: 'auto' (detect from the key extension,
+   * then the object's Content-Type, then the content). In prefix mode, detection runs per object.
+   */
+  format?: ConfigFormat | 'auto';
+  /** Syntax of env objects: 'ecs' (AWS ECS format, literal values) or 'dotenv'. Default: 'ecs' */
+  envSyntax?: EnvFileSyntax;
+  /**
+   * Remember each object's ETag and send If-None-Match on the next load, so an unchanged object
+   * costs a 304 response instead of a download. Default: true
+   */
+  conditional?: boolean;
+  /**
+   * Request the object's SHA-256 checksum and verify the downloaded content against it.
+   * Objects must be uploaded with a SHA-256 checksum. Default: false
+   */
+  verifyChecksum?: boolean;
+  /** Verify a detached signature for each object before trusting its content */
+  signature?: S3SignatureOptions;
 }
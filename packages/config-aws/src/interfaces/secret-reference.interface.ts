@@ -0,0 +1,28 @@
+import type { S3Loader } from '../loaders/s3.loader.js';
+import type { SecretsManagerLoader } from '../loaders/secrets-manager.loader.js';
+import type { SSMParameterStoreLoader } from '../loaders/ssm-parameter-store.loader.js';
+
+/**
+ * A parsed secret reference value
+ */
+export type SecretReference =
+  | { type: 'ssm'; reference: string; name: string }
+  | { type: 'secretsmanager'; reference: string; secretId: string; jsonKey?: string }
+  | { type: 's3'; reference: string; bucket: string; key: string };
+
+/**
+ * Options for resolving secret reference values (`ssm:`, `secretsmanager:` and `s3://`)
+ */
+export interface SecretReferenceOptions {
+  /** AWS region used for reference lookups. Default: AWS_REGION or 'us-east-1' */
+  region?: string;
+  /** Loader used to fetch `ssm:` references. Default: an SSMParameterStoreLoader for `region` */
+  ssm?: Pick<SSMParameterStoreLoader, 'getParameter'>;
+  /**
+   * Loader used to fetch `secretsmanager:` references.
+   * Default: a SecretsManagerLoader for the region in the ARN, or `region`
+   */
+  secretsManager?: Pick<SecretsManagerLoader, 'getSecretString'>;
+  /** Loader used to fetch `s3://` references. Default: an S3Loader for `region` */
+  s3?: Pick<S3Loader, 'getObjectContent'>;
+}
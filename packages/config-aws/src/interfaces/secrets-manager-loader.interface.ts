@@ -1,9 +1,73 @@
+import type { LoaderOptions } from './config-loader.interface.js';
+
+/**
+ * How SecretsManagerLoader exposes binary secrets:
+ * - 'base64': a base64 encoded string
+ * - 'buffer': a Buffer
+ */
+export type SecretBinaryFormat = 'base64' | 'buffer';
+
+/**
+ * Version of a secret to load. Without either option the current version (AWSCURRENT) is loaded.
+ */
+export interface SecretVersionOptions {
+  /** Staging label of the version to load, e.g. 'AWSPREVIOUS' to roll back */
+  versionStage?: string;
+  /** Unique identifier of the version to load */
+  versionId?: string;
+}
+
+/**
+ * Both stages of a secret that is being rotated, as loaded with the rotation option.
+ * pending is only set while a rotation is in progress.
+ */
+export interface RotatingSecret<V = Record<string, unknown>> {
+  /** The AWSCURRENT version */
+  current: V;
+  /** The AWSPENDING version */
+  pending?: V;
+}
+
+/**
+ * A secret loaded by SecretsManagerLoader as part of a list of secrets.
+ * Without versionStage or versionId, the loader's version options apply.
+ */
+export interface SecretSource extends SecretVersionOptions {
+  /** Name or ARN of the secret. Names get the environment prefix, ARNs are used as-is */
+  secretName: string;
+  /** Prefix prepended to each key of the secret, e.g. 'DB_' */
+  prefix?: string;
+  /** Key the secret's values are nested under, e.g. 'database' */
+  namespace?: string;
+  /**
+   * Load AWSCURRENT and AWSPENDING as a RotatingSecret under namespace, which is then required.
+   * Default: the loader's rotation option
+   */
+  rotation?: boolean;
+}
+
 /**
  * Configuration options for SecretsManagerLoader
  */
-export interface SecretsManagerLoaderConfig {
+export interface SecretsManagerLoaderConfig extends LoaderOptions, SecretVersionOptions {
   /** Name or ARN of the secret to load */
   secretName?: string;
+  /**
+   * Secrets to load instead of secretName, fetched with BatchGetSecretValue and merged in order,
+   * later secrets overriding earlier ones. Entries may be a name or a SecretSource.
+   * Secrets pinned to a version are fetched with GetSecretValue, as BatchGetSecretValue only reads AWSCURRENT.
+   */
+  secrets?: (string | SecretSource)[];
+  /** Key for secrets that are not JSON objects, such as plain strings and binary secrets. Default: 'SECRET_VALUE' */
+  valueKey?: string;
+  /** How binary secrets are exposed. Default: 'base64' */
+  binaryFormat?: SecretBinaryFormat;
+  /**
+   * Load both the AWSCURRENT and AWSPENDING versions, exposing each secret as
+   * { current, pending } under its namespace instead of its keys. Every secret in `secrets`
+   * must then have a namespace, and `secretName` cannot be used. Version options are ignored. Default: false
+   */
+  rotation?: boolean;
   /** AWS region. If not specified, uses default region from environment */
   region?: string;
   /** Mapping of environment names to path prefixes */
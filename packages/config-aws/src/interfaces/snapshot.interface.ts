@@ -0,0 +1,63 @@
+/**
+ * Storage backend for last-known-good configuration snapshots
+ */
+export interface SnapshotStore {
+  /**
+   * Read the stored snapshot.
+   * @returns Promise resolving to the snapshot data, or null if none has been written
+   */
+  read(): Promise<string | null>;
+
+  /**
+   * Replace the stored snapshot.
+   * @param data The snapshot data
+   */
+  write(data: string): Promise<void>;
+}
+
+/**
+ * Options for persisting a last-known-good configuration snapshot
+ */
+export interface SnapshotOptions {
+  /** File the snapshot is written to and read from. Without a path or store, snapshots are not persisted */
+  path?: string;
+  /** Custom storage backend, used instead of path */
+  store?: SnapshotStore;
+  /**
+   * Key used to encrypt the snapshot with AES-256-GCM. Required when `decrypt` or `resolveReferences`
+   * is enabled, since the snapshot holds the decrypted values. Default: snapshot is stored unencrypted
+   */
+  encryptionKey?: string | Buffer;
+  /** Maximum age in milliseconds of a snapshot that may be used as a fallback. Default: no limit */
+  maxAgeMs?: number;
+  /** Version of the configuration schema. Snapshots written for another version are not used */
+  schemaVersion?: string | number;
+}
+
+/**
+ * A decoded configuration snapshot
+ */
+export interface ConfigSnapshot<T = Record<string, unknown>> {
+  /** The configuration stored in the snapshot */
+  config: T;
+  /** When the snapshot was written */
+  savedAt: Date;
+  /** Schema version the snapshot was written for */
+  schemaVersion?: string | number;
+  /** Keys whose values were decrypted when the snapshot was written, and are masked in logs */
+  sensitiveKeys: string[];
+}
+
+/**
+ * Describes the snapshot a stale configuration was restored from
+ */
+export interface SnapshotInfo {
+  /** When the snapshot was written */
+  savedAt: Date;
+  /** Age of the snapshot in milliseconds when it was restored */
+  ageMs: number;
+  /** Schema version the snapshot was written for */
+  schemaVersion?: string | number;
+  /** Why the snapshot was used instead of a fresh load */
+  reason: string;
+}
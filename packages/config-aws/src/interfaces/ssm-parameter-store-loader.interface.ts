@@ -1,13 +1,58 @@
+import type { LoaderOptions } from './config-loader.interface.js';
+
+/**
+ * How SSMParameterStoreLoader names keys, shown for the parameter '/dev/app/database/host' under '/app':
+ * - 'flat': DATABASE_HOST
+ * - 'nested': { database: { host } }
+ * - 'path': 'database/host'
+ */
+export type SSMParameterKeyStyle = 'flat' | 'nested' | 'path';
+
+/**
+ * Metadata of a loaded SSM parameter
+ */
+export interface SSMParameterMetadata {
+  /** Full parameter name, e.g. '/dev/app/database/host' */
+  name: string;
+  /** Parameter type: 'String', 'StringList' or 'SecureString' */
+  type?: string;
+  /** Parameter version */
+  version?: number;
+  /** Data type, e.g. 'text' or 'aws:ec2:image' */
+  dataType?: string;
+  /** When the parameter was last changed */
+  lastModifiedDate?: Date;
+  /** Parameter ARN */
+  arn?: string;
+  /** Version or label selector the parameter was requested with, e.g. ':3' or ':stable' */
+  selector?: string;
+}
+
 /**
  * Configuration options for SSMParameterStoreLoader
  */
-export interface SSMParameterStoreLoaderConfig {
+export interface SSMParameterStoreLoaderConfig extends LoaderOptions {
   /** Path prefix for parameters to load */
   parameterPath?: string;
+  /**
+   * Explicit parameters to load with GetParameters instead of loading everything under parameterPath.
+   * Names without a leading slash are relative to parameterPath, names with one are relative to the
+   * environment prefix. Append ':version' or ':label' to pin a value, e.g. 'api/key:stable'.
+   */
+  parameterNames?: string[];
+  /** Skip parameterNames that do not exist instead of failing the load. Default: false */
+  allowMissing?: boolean;
   /** AWS region. If not specified, uses default region from environment */
   region?: string;
   /** Mapping of environment names to path prefixes */
   environmentMapping?: Record<string, string>;
   /** Whether to decrypt SecureString parameters. Default: true */
   withDecryption?: boolean;
+  /** How parameter names are turned into keys. Default: 'flat' */
+  keyStyle?: SSMParameterKeyStyle;
+  /**
+   * Whether StringList parameters are split into arrays.
+   * Default: false for the 'flat' key style, which mirrors environment variables, otherwise true
+   */
+  stringListAsArray?: boolean;
 }
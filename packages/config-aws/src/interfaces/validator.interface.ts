@@ -0,0 +1,82 @@
+import type { ZodType } from 'zod';
+
+/**
+ * A single validation failure
+ */
+export interface ValidationIssue {
+  /** Path of the invalid value, e.g. ['database', 'port'] */
+  path: (string | number)[];
+  /** Human readable description of the failure */
+  message: string;
+  /** Library specific error code, e.g. 'invalid_type' or 'number.base' */
+  code?: string;
+}
+
+/**
+ * A validation failure attributed to the value and loader that caused it
+ */
+export interface AttributedValidationIssue extends ValidationIssue {
+  /** Dotted key path, e.g. 'database.port' */
+  key: string;
+  /** Masked offending value, or undefined if the value is missing */
+  maskedValue?: string;
+  /** Loader that supplied the top-level key, or undefined if no loader supplied it */
+  loader?: string;
+}
+
+/**
+ * Outcome of validating a configuration object
+ */
+export type ConfigValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+/**
+ * Adapter that validates configuration with a validation library.
+ * Implement this to plug in a library that is not supported out of the box.
+ */
+export interface ConfigValidator<T = Record<string, unknown>> {
+  /** Name of the validation library, used in log and error messages */
+  readonly name: string;
+
+  /**
+   * Validate a configuration object.
+   * @param value The merged configuration
+   * @returns The validated (and possibly transformed) configuration, or the issues found
+   */
+  validate(value: unknown): ConfigValidationResult<T> | Promise<ConfigValidationResult<T>>;
+}
+
+/**
+ * Issue reported by a Standard Schema validator
+ */
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * Result of a Standard Schema validation
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * A schema implementing the Standard Schema v1 interface (https://standardschema.dev),
+ * such as Valibot, ArkType or Zod 3.24+.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+/**
+ * Anything ConfigManager accepts as a schema: a Zod schema, a Standard Schema
+ * or a ConfigValidator such as JoiConfigValidator or ClassValidatorConfigValidator.
+ */
+export type ConfigSchema<T = Record<string, unknown>> = ZodType<T> | StandardSchemaV1<unknown, T> | ConfigValidator<T>;
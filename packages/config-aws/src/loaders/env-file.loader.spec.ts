@@ -114,6 +114,36 @@ describe('EnvFileLoader', () => {
       expect(result).toEqual({ MESSAGE: '"Hello World"' });
     });
 
+    it('should parse quotes, exports, inline comments and multi-line values with dotenv syntax', async () => {
+      const filePath = await createEnvFile(
+        '.env',
+        'export MESSAGE="Hello World"\nHOST=db # primary\nCERT="-----BEGIN-----\nabc\n-----END-----"\n',
+      );
+      const loader = new EnvFileLoader({ paths: [filePath], syntax: 'dotenv' });
+      const result = await loader.load();
+
+      expect(result).toEqual({
+        MESSAGE: 'Hello World',
+        HOST: 'db',
+        CERT: '-----BEGIN-----\nabc\n-----END-----',
+      });
+    });
+
+    it('should parse files in the format of their extension', async () => {
+      const yamlFile = await createEnvFile('defaults.yaml', 'database:\n  host: db.internal\n  port: 5432\n');
+      const tomlFile = await createEnvFile('features.toml', '[features]\nsearch = true\n');
+      const envFile = await createEnvFile('.env', 'LOG_LEVEL=debug');
+
+      const loader = new EnvFileLoader({ paths: [yamlFile, tomlFile, envFile] });
+      const result = await loader.load();
+
+      expect(result).toEqual({
+        database: { host: 'db.internal', port: 5432 },
+        features: { search: true },
+        LOG_LEVEL: 'debug',
+      });
+    });
+
     it('should return empty object when no files exist', async () => {
       const loader = new EnvFileLoader({ paths: ['/nonexistent/.env'] });
       const result = await loader.load();
@@ -180,6 +210,24 @@ describe('EnvFileLoader', () => {
       await expect(loader.load()).rejects.toThrow(ConfigurationLoadError);
       await expect(loader.load()).rejects.toThrow('Failed to read env file');
     });
+
+    it('should report the file, line and column of a dotenv syntax error', async () => {
+      const filePath = await createEnvFile('.env', 'KEY=value\nCERT="unterminated\n');
+      const loader = new EnvFileLoader({ paths: [filePath], syntax: 'dotenv' });
+
+      await expect(loader.load()).rejects.toThrow(
+        `Failed to parse env file ${filePath}: Unterminated quoted value for 'CERT' at line 2, column 6`,
+      );
+    });
+
+    it('should report the format, file, line and column of a YAML syntax error', async () => {
+      const filePath = await createEnvFile('app.yaml', 'port: 80\nport: 443\n');
+      const loader = new EnvFileLoader({ paths: [filePath] });
+
+      await expect(loader.load()).rejects.toThrow(
+        `Failed to parse YAML file ${filePath}: Map keys must be unique at line 2, column 1`,
+      );
+    });
   });
 
   describe('encoding', () => {
@@ -1,13 +1,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import type { ConfigLoader } from '../interfaces/config-loader.interface.js';
+import type { ConfigLoader, LoaderOptions } from '../interfaces/config-loader.interface.js';
 import type { EnvFileLoaderConfig } from '../interfaces/env-file-loader.interface.js';
-import { EnvFileParser } from '../utils/env-file-parser.util.js';
-import { ConfigurationLoadError } from '../errors/index.js';
+import { pickLoaderOptions } from '../utils/loader-options.util.js';
+import { ConfigFormatUtil } from '../utils/config-format.util.js';
+import { ConfigParseError, ConfigurationLoadError } from '../errors/index.js';
 
 /**
  * Loader that reads configuration from .env files on the filesystem.
- * Uses AWS ECS-compatible format for parsing.
+ * Uses AWS ECS-compatible format for parsing, or dotenv syntax when `syntax: 'dotenv'` is set.
+ * Files with a .json, .yaml, .yml, .toml, .ini or .cfg extension are parsed in that format
+ * with ConfigFormatUtil, the same way S3Loader parses objects.
  *
  * @example
  * ```typescript
@@ -24,13 +27,21 @@ import { ConfigurationLoadError } from '../errors/index.js';
  *   paths: ['.env', '.env.local'],
  *   override: false
  * });
+ *
+ * // Quoted, multi-line and exported values
+ * const loader = new EnvFileLoader({ syntax: 'dotenv' });
+ *
+ * // Shared defaults in YAML, overridden by a local .env file
+ * const loader = new EnvFileLoader({ paths: ['config/defaults.yaml', '.env'] });
  * ```
  *
  * @see https://docs.aws.amazon.com/AmazonECS/latest/developerguide/use-environment-file.html
  */
 export class EnvFileLoader implements ConfigLoader {
   /** @internal */
-  protected readonly _config: Required<EnvFileLoaderConfig>;
+  protected readonly _config: Required<Omit<EnvFileLoaderConfig, keyof LoaderOptions>>;
+  /** @internal */
+  protected readonly _loaderOptions: LoaderOptions;
 
   /** Default paths to search for .env files */
   private static readonly DEFAULT_PATHS = ['.env', '.env.local'];
@@ -39,10 +50,12 @@ export class EnvFileLoader implements ConfigLoader {
   private static readonly DEFAULT_ENCODING: BufferEncoding = 'utf-8';
 
   constructor(config: EnvFileLoaderConfig = {}) {
+    this._loaderOptions = pickLoaderOptions(config);
     this._config = {
       paths: config.paths ?? EnvFileLoader.DEFAULT_PATHS,
       encoding: config.encoding ?? EnvFileLoader.DEFAULT_ENCODING,
       override: config.override ?? true,
+      syntax: config.syntax ?? 'ecs',
     };
   }
 
@@ -50,6 +63,14 @@ export class EnvFileLoader implements ConfigLoader {
     return 'EnvFileLoader';
   }
 
+  getKind(): string {
+    return 'EnvFileLoader';
+  }
+
+  getOptions(): LoaderOptions {
+    return { ...this._loaderOptions };
+  }
+
 
   /**
    * Check if at least one of the configured .env files exists.
@@ -66,7 +87,7 @@ export class EnvFileLoader implements ConfigLoader {
   }
 
   /**
-   * Load configuration from .env files.
+   * Load configuration from .env files and other configuration files.
    *
    * Files are processed in order. When override is true (default),
    * later files override earlier ones. When override is false,
@@ -75,7 +96,7 @@ export class EnvFileLoader implements ConfigLoader {
    * Missing files are silently skipped.
    *
    * @returns Promise resolving to the merged configuration
-   * @throws ConfigurationLoadError if a file exists but cannot be read
+   * @throws ConfigurationLoadError if a file exists but cannot be read or parsed
    */
   async load(): Promise<Record<string, unknown>> {
     const result: Record<string, unknown> = {};
@@ -88,9 +109,10 @@ export class EnvFileLoader implements ConfigLoader {
         continue;
       }
 
+      const format = ConfigFormatUtil.fromPath(filePath) ?? 'env';
       try {
         const content = await this.readFile(resolvedPath);
-        const parsed = EnvFileParser.parse(content);
+        const parsed = ConfigFormatUtil.parse(content, format, this._config.syntax);
 
         // Merge based on override setting
         if (this._config.override) {
@@ -105,6 +127,13 @@ export class EnvFileLoader implements ConfigLoader {
           }
         }
       } catch (error) {
+        if (error instanceof ConfigParseError) {
+          throw new ConfigurationLoadError(
+            `Failed to parse ${ConfigFormatUtil.formatName(format)} file ${resolvedPath}: ${error.message}`,
+            this.getName(),
+            error,
+          );
+        }
         throw new ConfigurationLoadError(
           `Failed to read env file: ${resolvedPath}`,
           this.getName(),
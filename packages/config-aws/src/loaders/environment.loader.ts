@@ -1,5 +1,6 @@
-import type { ConfigLoader } from '../interfaces/config-loader.interface.js';
+import type { ConfigLoader, LoaderOptions } from '../interfaces/config-loader.interface.js';
 import type { EnvironmentLoaderConfig } from '../interfaces/environment-loader.interface.js';
+import { pickLoaderOptions } from '../utils/loader-options.util.js';
 
 /**
  * Loader that reads configuration from process.env.
@@ -26,8 +27,11 @@ import type { EnvironmentLoaderConfig } from '../interfaces/environment-loader.i
 export class EnvironmentLoader implements ConfigLoader {
   /** @internal */
   protected readonly _config: EnvironmentLoaderConfig;
+  /** @internal */
+  protected readonly _loaderOptions: LoaderOptions;
 
   constructor(config: EnvironmentLoaderConfig = {}) {
+    this._loaderOptions = pickLoaderOptions(config);
     this._config = config;
   }
 
@@ -35,6 +39,14 @@ export class EnvironmentLoader implements ConfigLoader {
     return 'EnvironmentLoader';
   }
 
+  getKind(): string {
+    return 'EnvironmentLoader';
+  }
+
+  getOptions(): LoaderOptions {
+    return { ...this._loaderOptions };
+  }
+
   async isAvailable(): Promise<boolean> {
     return true;
   }
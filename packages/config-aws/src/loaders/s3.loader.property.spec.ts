@@ -7,10 +7,11 @@
 
 import * as fc from 'fast-check';
 import { S3Loader } from './s3.loader';
+import type { ConfigFormat } from '../interfaces/config-loader.interface';
 
 // Create a testable subclass to access protected methods
 class TestableS3Loader extends S3Loader {
-  public testDetectFormat(content: string): 'json' | 'env' {
+  public testDetectFormat(content: string): ConfigFormat {
     return this.detectFormat(content);
   }
 
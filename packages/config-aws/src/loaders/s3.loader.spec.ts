@@ -0,0 +1,480 @@
+/**
+ * Unit tests for S3Loader
+ *
+ * Tests format detection from the object key and Content-Type, parse error reporting, prefix mode and its provenance,
+ * conditional requests and checksum and signature verification.
+ */
+
+import { createHash, generateKeyPairSync, sign } from 'crypto';
+import { S3Loader } from './s3.loader';
+import { ConfigManager } from '../config-manager';
+import { AWSServiceError, ConfigParseError, ConfigurationLoadError } from '../errors';
+
+// Mock the AWS SDK
+jest.mock('@aws-sdk/client-s3', () => {
+  const mockSend = jest.fn();
+  return {
+    S3Client: jest.fn().mockImplementation(() => ({
+      send: mockSend,
+      config: {
+        credentials: jest.fn().mockResolvedValue({}),
+      },
+    })),
+    GetObjectCommand: jest.fn().mockImplementation((input) => input),
+    ListObjectsV2Command: jest.fn().mockImplementation((input) => ({ ...input, list: true })),
+    __mockSend: mockSend,
+  };
+});
+
+jest.mock('@aws-sdk/credential-providers', () => ({
+  fromNodeProviderChain: jest.fn().mockReturnValue({}),
+}));
+
+// Get the mock send function
+const getMockSend = () => {
+  return require('@aws-sdk/client-s3').__mockSend as jest.Mock;
+};
+
+const object = (content: string, contentType?: string, headers: Record<string, unknown> = {}) => ({
+  Body: {
+    transformToString: jest.fn().mockResolvedValue(content),
+    transformToByteArray: jest.fn().mockResolvedValue(new Uint8Array(Buffer.from(content))),
+  },
+  ContentType: contentType,
+  ...headers,
+});
+
+const notModified = () => Object.assign(new Error('Not Modified'), { name: '304', $metadata: { httpStatusCode: 304 } });
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('base64');
+
+type StoredObject = { content: string; contentType?: string; etag?: string; checksum?: string };
+
+type MockCommand = { Key?: string; Prefix?: string; ContinuationToken?: string; IfNoneMatch?: string; list?: boolean };
+
+/**
+ * Serve ListObjectsV2 pages and GetObject contents from an in-memory bucket
+ */
+const mockBucket = (objects: Record<string, StoredObject>, pageSize = 1000) => {
+  getMockSend().mockImplementation(async (command: MockCommand) => {
+    if (command.list) {
+      const keys = Object.keys(objects).filter((key) => key.startsWith(command.Prefix ?? ''));
+      const start = command.ContinuationToken ? Number(command.ContinuationToken) : 0;
+      const end = start + pageSize;
+      return {
+        Contents: keys.slice(start, end).map((Key) => ({ Key, ETag: objects[Key]!.etag })),
+        IsTruncated: end < keys.length,
+        NextContinuationToken: end < keys.length ? String(end) : undefined,
+      };
+    }
+
+    const stored = objects[command.Key!];
+    if (!stored) {
+      throw Object.assign(new Error('The specified key does not exist.'), { name: 'NoSuchKey' });
+    }
+    if (stored.etag !== undefined && command.IfNoneMatch === stored.etag) {
+      throw notModified();
+    }
+    return object(stored.content, stored.contentType, { ETag: stored.etag, ChecksumSHA256: stored.checksum });
+  });
+};
+
+describe('S3Loader', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('format detection', () => {
+    it('should parse YAML detected from the key extension', async () => {
+      getMockSend().mockResolvedValueOnce(object('database:\n  host: db.internal\n  port: 5432\n', 'binary/octet-stream'));
+      const loader = new S3Loader({ bucket: 'platform-config', key: 'shared/app.yaml' });
+
+      await expect(loader.load()).resolves.toEqual({ database: { host: 'db.internal', port: 5432 } });
+      expect(getMockSend()).toHaveBeenCalledWith({ Bucket: 'platform-config', Key: 'shared/app.yaml' });
+    });
+
+    it('should parse TOML detected from the Content-Type when the key has no extension', async () => {
+      getMockSend().mockResolvedValueOnce(object('[database]\nport = 5432\n', 'application/toml'));
+      const loader = new S3Loader({ bucket: 'platform-config', key: 'shared/app' });
+
+      await expect(loader.load()).resolves.toEqual({ database: { port: 5432 } });
+    });
+
+    it('should use the configured format over detection', async () => {
+      getMockSend().mockResolvedValueOnce(object('[database]\nport = 5432\n', 'application/toml'));
+      const loader = new S3Loader({ bucket: 'platform-config', key: 'shared/app.toml', format: 'ini' });
+
+      await expect(loader.load()).resolves.toEqual({ database: { port: '5432' } });
+    });
+
+    it('should still detect JSON and env content without hints', async () => {
+      getMockSend().mockResolvedValueOnce(object('{"PORT": 8080}')).mockResolvedValueOnce(object('PORT=8080'));
+      const loader = new S3Loader({ bucket: 'platform-config', key: 'shared/app' });
+
+      await expect(loader.load()).resolves.toEqual({ PORT: 8080 });
+      await expect(loader.load()).resolves.toEqual({ PORT: '8080' });
+    });
+
+    it('should parse env objects in ECS syntax unless dotenv is configured', async () => {
+      const content = 'MESSAGE="Hello World"\nexport DEBUG=true\n';
+      getMockSend().mockResolvedValueOnce(object(content)).mockResolvedValueOnce(object(content));
+
+      await expect(new S3Loader({ bucket: 'platform-config', key: 'app.env' }).load()).resolves.toEqual({
+        MESSAGE: '"Hello World"',
+      });
+      await expect(
+        new S3Loader({ bucket: 'platform-config', key: 'app.env', envSyntax: 'dotenv' }).load(),
+      ).resolves.toEqual({ MESSAGE: 'Hello World', DEBUG: 'true' });
+    });
+  });
+
+  describe('parse errors', () => {
+    it('should report the line and column as a ConfigurationLoadError', async () => {
+      getMockSend().mockResolvedValueOnce(object('database:\n  host: db\n  host: replica\n'));
+      const loader = new S3Loader({ bucket: 'platform-config', key: 'shared/app.yml' });
+
+      const error = await loader.load().catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ConfigurationLoadError);
+      expect((error as ConfigurationLoadError).message).toBe(
+        'Failed to parse YAML from s3://platform-config/shared/app.yml: ' +
+          'Map keys must be unique at line 3, column 3',
+      );
+      expect((error as ConfigurationLoadError).loader).toBe('S3Loader(s3://platform-config/shared/app.yml)');
+      expect((error as ConfigurationLoadError).cause).toBeInstanceOf(ConfigParseError);
+      expect((error as ConfigurationLoadError).cause).toMatchObject({ line: 3, column: 3 });
+    });
+
+    it('should keep the JSON error prefix', async () => {
+      getMockSend().mockResolvedValueOnce(object('{"PORT": }', 'application/json'));
+      const loader = new S3Loader({ bucket: 'platform-config', key: 'shared/app' });
+
+      await expect(loader.load()).rejects.toThrow('Failed to parse JSON from s3://platform-config/shared/app: ');
+    });
+  });
+
+  describe('prefix mode', () => {
+    afterEach(() => {
+      getMockSend().mockReset();
+    });
+
+    it('should merge every object under the prefix in lexical order with per-object formats', async () => {
+      mockBucket({
+        'app/prod/': { content: '' },
+        'app/prod/20-feature-flags.yaml': { content: 'FLAGS:\n  beta: true\nLOG_LEVEL: warn\n' },
+        'app/prod/00-base.json': { content: '{"LOG_LEVEL": "info", "PORT": 8080}' },
+        'app/prod/10-db.env': { content: 'DB_HOST=db.internal\nPORT=9090' },
+        'app/staging/00-base.json': { content: '{"LOG_LEVEL": "debug"}' },
+      });
+      const loader = new S3Loader({ bucket: 'my-config', prefix: 'app/prod/' });
+
+      await expect(loader.load()).resolves.toEqual({
+        LOG_LEVEL: 'warn',
+        PORT: '9090',
+        DB_HOST: 'db.internal',
+        FLAGS: { beta: true },
+      });
+      expect(loader.getName()).toBe('S3Loader(s3://my-config/app/prod/)');
+      expect(loader.getObjectMetadata()).toEqual([
+        {
+          key: 'app/prod/00-base.json',
+          uri: 's3://my-config/app/prod/00-base.json',
+          format: 'json',
+          keysLoaded: ['LOG_LEVEL', 'PORT'],
+          notModified: false,
+        },
+        {
+          key: 'app/prod/10-db.env',
+          uri: 's3://my-config/app/prod/10-db.env',
+          format: 'env',
+          keysLoaded: ['DB_HOST', 'PORT'],
+          notModified: false,
+        },
+        {
+          key: 'app/prod/20-feature-flags.yaml',
+          uri: 's3://my-config/app/prod/20-feature-flags.yaml',
+          format: 'yaml',
+          keysLoaded: ['FLAGS', 'LOG_LEVEL'],
+          notModified: false,
+        },
+      ]);
+      expect(loader.getKeySources()).toEqual({
+        LOG_LEVEL: 's3://my-config/app/prod/20-feature-flags.yaml',
+        PORT: 's3://my-config/app/prod/10-db.env',
+        DB_HOST: 's3://my-config/app/prod/10-db.env',
+        FLAGS: 's3://my-config/app/prod/20-feature-flags.yaml',
+      });
+    });
+
+    it('should record the object that supplied each key in the ConfigManager provenance', async () => {
+      mockBucket({
+        'app/prod/00-base.json': { content: '{"LOG_LEVEL": "info", "PORT": 8080}' },
+        'app/prod/10-db.env': { content: 'DB__HOST=db.internal\nDB__PORT=5432\nPORT=9090' },
+      });
+      const manager = new ConfigManager({
+        loaders: [
+          new S3Loader({ bucket: 'my-config', prefix: 'app/prod/', keyTransform: { case: 'camel', nest: '__' } }),
+        ],
+      });
+
+      await manager.load();
+
+      expect(manager.explain('logLevel')?.sources).toEqual([
+        {
+          loader: 'S3Loader(s3://my-config/app/prod/)',
+          maskedValue: '****',
+          object: 's3://my-config/app/prod/00-base.json',
+        },
+      ]);
+      expect(manager.explain('port')?.sources[0]?.object).toBe('s3://my-config/app/prod/10-db.env');
+      expect(manager.explain('db')?.sources[0]?.object).toBe('s3://my-config/app/prod/10-db.env');
+    });
+
+    it('should follow continuation tokens', async () => {
+      mockBucket(
+        {
+          'app/a.json': { content: '{"A": 1}' },
+          'app/b.json': { content: '{"B": 2}' },
+          'app/c.json': { content: '{"C": 3}' },
+        },
+        2,
+      );
+      const loader = new S3Loader({ bucket: 'my-config', prefix: 'app/' });
+
+      await expect(loader.load()).resolves.toEqual({ A: 1, B: 2, C: 3 });
+      const listCalls = getMockSend().mock.calls.filter(([command]) => command.list);
+      expect(listCalls.map(([command]) => command.ContinuationToken)).toEqual([undefined, '2']);
+    });
+
+    it('should apply the merge options between objects', async () => {
+      mockBucket({
+        'app/00-base.json': { content: '{"database": {"host": "db", "port": 5432}}' },
+        'app/10-override.json': { content: '{"database": {"port": 6432}}' },
+      });
+      const loader = new S3Loader({ bucket: 'my-config', prefix: 'app/', merge: { strategy: 'deep' } });
+
+      await expect(loader.load()).resolves.toEqual({ database: { host: 'db', port: 6432 } });
+    });
+
+    it('should load only the objects a manifest lists, in manifest order', async () => {
+      mockBucket({
+        'app/manifest.txt': { content: '# merge order\nflags.yaml\n\nbase.json  # last wins\n' },
+        'app/base.json': { content: '{"LOG_LEVEL": "info"}' },
+        'app/flags.yaml': { content: 'LOG_LEVEL: warn\nBETA: true' },
+        'app/unlisted.json': { content: '{"UNLISTED": true}' },
+      });
+      const loader = new S3Loader({ bucket: 'my-config', prefix: 'app/', manifest: 'manifest.txt' });
+
+      await expect(loader.load()).resolves.toEqual({ LOG_LEVEL: 'info', BETA: true });
+      expect(loader.getObjectMetadata().map((object) => object.key)).toEqual(['app/flags.yaml', 'app/base.json']);
+      expect(getMockSend().mock.calls.some(([command]) => command.list)).toBe(false);
+    });
+
+    it('should accept a JSON array manifest and fail on listed objects that do not exist', async () => {
+      mockBucket({
+        'app/manifest.json': { content: '["base.json", "missing.json"]' },
+        'app/base.json': { content: '{"A": 1}' },
+      });
+      const loader = new S3Loader({ bucket: 'my-config', prefix: 'app/', manifest: 'manifest.json' });
+
+      await expect(loader.load()).rejects.toThrow(
+        'Objects listed in the manifest not found: s3://my-config/app/missing.json',
+      );
+    });
+
+    it('should fail when the manifest is missing or not a list of keys', async () => {
+      mockBucket({ 'app/manifest.json': { content: '[1, 2]' } });
+
+      await expect(
+        new S3Loader({ bucket: 'my-config', prefix: 'app/', manifest: 'other.json' }).load(),
+      ).rejects.toThrow('Manifest s3://my-config/app/other.json not found');
+      await expect(
+        new S3Loader({ bucket: 'my-config', prefix: 'app/', manifest: 'manifest.json' }).load(),
+      ).rejects.toThrow(ConfigurationLoadError);
+    });
+
+    it('should name the object that failed to parse', async () => {
+      mockBucket({
+        'app/00-base.json': { content: '{"A": 1}' },
+        'app/10-broken.toml': { content: 'a = 1\na = 2' },
+      });
+      const loader = new S3Loader({ bucket: 'my-config', prefix: 'app/' });
+
+      await expect(loader.load()).rejects.toThrow(
+        'Failed to parse TOML from s3://my-config/app/10-broken.toml: ' +
+          'Trying to redefine an already defined table or value at line 2, column 1',
+      );
+    });
+
+    it('should wrap listing errors in AWSServiceError', async () => {
+      getMockSend().mockRejectedValueOnce(Object.assign(new Error('Access Denied'), { name: 'AccessDenied' }));
+      const loader = new S3Loader({ bucket: 'my-config', prefix: 'app/' });
+
+      const error = await loader.load().catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(AWSServiceError);
+      expect(error).toMatchObject({ service: 'S3', operation: 'ListObjectsV2' });
+    });
+  });
+
+  describe('conditional requests', () => {
+    afterEach(() => {
+      getMockSend().mockReset();
+    });
+
+    it('should send If-None-Match with the remembered ETag and reuse the content on a 304', async () => {
+      const objects: Record<string, StoredObject> = { 'app.json': { content: '{"PORT": 8080}', etag: '"v1"' } };
+      mockBucket(objects);
+      const loader = new S3Loader({ bucket: 'my-config', key: 'app.json' });
+
+      await expect(loader.load()).resolves.toEqual({ PORT: 8080 });
+      expect(loader.getObjectMetadata()[0]).toMatchObject({ etag: '"v1"', notModified: false });
+      await expect(loader.load()).resolves.toEqual({ PORT: 8080 });
+      expect(loader.getObjectMetadata()[0]).toMatchObject({ etag: '"v1"', notModified: true });
+
+      objects['app.json'] = { content: '{"PORT": 9090}', etag: '"v2"' };
+      await expect(loader.load()).resolves.toEqual({ PORT: 9090 });
+
+      expect(getMockSend().mock.calls.map(([command]) => command.IfNoneMatch)).toEqual([undefined, '"v1"', '"v1"']);
+    });
+
+    it('should not send If-None-Match when conditional requests are disabled', async () => {
+      mockBucket({ 'app.json': { content: '{"PORT": 8080}', etag: '"v1"' } });
+      const loader = new S3Loader({ bucket: 'my-config', key: 'app.json', conditional: false });
+
+      await loader.load();
+      await loader.load();
+
+      expect(getMockSend().mock.calls.map(([command]) => command.IfNoneMatch)).toEqual([undefined, undefined]);
+    });
+
+    it('should skip GetObject for listed objects whose ETag is unchanged', async () => {
+      const objects: Record<string, StoredObject> = {
+        'app/00-base.json': { content: '{"A": 1}', etag: '"a1"' },
+        'app/10-db.env': { content: 'B=2', etag: '"b1"' },
+      };
+      mockBucket(objects);
+      const loader = new S3Loader({ bucket: 'my-config', prefix: 'app/' });
+      await loader.load();
+      getMockSend().mockClear();
+
+      objects['app/10-db.env'] = { content: 'B=3', etag: '"b2"' };
+      await expect(loader.load()).resolves.toEqual({ A: 1, B: '3' });
+
+      const gets = getMockSend().mock.calls.filter(([command]) => !command.list);
+      expect(gets.map(([command]) => command.Key)).toEqual(['app/10-db.env']);
+      expect(loader.getObjectMetadata().map((object) => object.notModified)).toEqual([true, false]);
+    });
+  });
+
+  describe('verification', () => {
+    afterEach(() => {
+      getMockSend().mockReset();
+    });
+
+    it('should request and verify the SHA-256 checksum', async () => {
+      const content = '{"PORT": 8080}';
+      mockBucket({ 'app.json': { content, checksum: sha256(content) } });
+      const loader = new S3Loader({ bucket: 'my-config', key: 'app.json', verifyChecksum: true });
+
+      await expect(loader.load()).resolves.toEqual({ PORT: 8080 });
+      expect(getMockSend()).toHaveBeenCalledWith(expect.objectContaining({ ChecksumMode: 'ENABLED' }));
+    });
+
+    it('should reject content that does not match its checksum', async () => {
+      mockBucket({ 'app.json': { content: '{"PORT": 6666}', checksum: sha256('{"PORT": 8080}') } });
+      const loader = new S3Loader({ bucket: 'my-config', key: 'app.json', verifyChecksum: true });
+
+      await expect(loader.load()).rejects.toThrow(
+        'Checksum mismatch for s3://my-config/app.json: the content does not match its SHA-256 checksum',
+      );
+    });
+
+    it('should reject objects without a full-object checksum', async () => {
+      mockBucket({
+        'plain.json': { content: '{}' },
+        'multipart.json': { content: '{}', checksum: 'abc=-3' },
+      });
+
+      await expect(
+        new S3Loader({ bucket: 'my-config', key: 'plain.json', verifyChecksum: true }).load(),
+      ).rejects.toThrow('s3://my-config/plain.json has no SHA-256 checksum');
+      await expect(
+        new S3Loader({ bucket: 'my-config', key: 'multipart.json', verifyChecksum: true }).load(),
+      ).rejects.toThrow('has a composite multipart checksum');
+    });
+
+    it('should verify a detached Ed25519 signature from the sidecar object', async () => {
+      const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+      const content = '{"PORT": 8080}';
+      mockBucket({
+        'app.json': { content },
+        'app.json.sig': { content: `${sign(null, Buffer.from(content), privateKey).toString('base64')}\n` },
+        'tampered.json': { content: '{"PORT": 6666}' },
+        'tampered.json.sig': { content: sign(null, Buffer.from(content), privateKey).toString('base64') },
+      });
+
+      const loader = new S3Loader({ bucket: 'my-config', key: 'app.json', signature: { publicKey } });
+      await expect(loader.load()).resolves.toEqual({ PORT: 8080 });
+      await expect(
+        new S3Loader({ bucket: 'my-config', key: 'tampered.json', signature: { publicKey } }).load(),
+      ).rejects.toThrow('Signature verification failed for s3://my-config/tampered.json');
+    });
+
+    it('should verify RSA signatures with SHA-256 and a custom sidecar suffix', async () => {
+      const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const content = 'PORT=8080';
+      mockBucket({
+        'app.env': { content },
+        'app.env.signature': { content: sign('sha256', Buffer.from(content), privateKey).toString('base64') },
+      });
+      const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+      const loader = new S3Loader({
+        bucket: 'my-config',
+        key: 'app.env',
+        signature: { publicKey: pem, suffix: '.signature' },
+      });
+
+      await expect(loader.load()).resolves.toEqual({ PORT: '8080' });
+    });
+
+    it('should verify every object under a prefix without loading the sidecars', async () => {
+      const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+      const signed = (content: string) => sign(null, Buffer.from(content), privateKey).toString('base64');
+      const base = '{"PORT": 8080}';
+      const db = 'DB_HOST=db.internal';
+      mockBucket({
+        'app/00-base.json': { content: base },
+        'app/00-base.json.sig': { content: signed(base) },
+        'app/10-db.env': { content: db },
+        'app/10-db.env.sig': { content: signed(db) },
+      });
+      const loader = new S3Loader({ bucket: 'my-config', prefix: 'app/', signature: { publicKey } });
+
+      await expect(loader.load()).resolves.toEqual({ PORT: 8080, DB_HOST: 'db.internal' });
+      expect(loader.getObjectMetadata().map((metadata) => metadata.key)).toEqual(['app/00-base.json', 'app/10-db.env']);
+    });
+
+    it('should fail when the sidecar signature is missing', async () => {
+      const { publicKey } = generateKeyPairSync('ed25519');
+      mockBucket({ 'app.json': { content: '{}' } });
+      const loader = new S3Loader({ bucket: 'my-config', key: 'app.json', signature: { publicKey } });
+
+      await expect(loader.load()).rejects.toThrow(
+        'Signature s3://my-config/app.json.sig for s3://my-config/app.json not found',
+      );
+    });
+
+    it('should not cache content that failed verification', async () => {
+      const objects: Record<string, StoredObject> = {
+        'app.json': { content: '{"PORT": 6666}', etag: '"v1"', checksum: sha256('{"PORT": 8080}') },
+      };
+      mockBucket(objects);
+      const loader = new S3Loader({ bucket: 'my-config', key: 'app.json', verifyChecksum: true });
+
+      await expect(loader.load()).rejects.toThrow(ConfigurationLoadError);
+      await expect(loader.load()).rejects.toThrow(ConfigurationLoadError);
+      expect(getMockSend().mock.calls.map(([command]) => command.IfNoneMatch)).toEqual([undefined, undefined]);
+    });
+  });
+});
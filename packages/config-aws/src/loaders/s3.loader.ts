@@ -1,13 +1,38 @@
-import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { createHash, createPublicKey, verify } from 'crypto';
+import { GetObjectCommand, ListObjectsV2Command, S3Client } from '@aws-sdk/client-s3';
 import { fromNodeProviderChain } from '@aws-sdk/credential-providers';
-import type { ConfigLoader } from '../interfaces/config-loader.interface.js';
-import type { S3LoaderConfig } from '../interfaces/s3-loader.interface.js';
-import { EnvFileParser } from '../utils/env-file-parser.util.js';
-import { AWSServiceError, ConfigurationLoadError } from '../errors/index.js';
+import type { ConfigFormat, ConfigLoader, LoaderOptions } from '../interfaces/config-loader.interface.js';
+import type { S3LoaderConfig, S3ObjectMetadata } from '../interfaces/s3-loader.interface.js';
+import { pickLoaderOptions } from '../utils/loader-options.util.js';
+import { ConfigFormatUtil } from '../utils/config-format.util.js';
+import { ConfigMergeUtil } from '../utils/merge.util.js';
+import { AWSServiceError, ConfigParseError, ConfigurationLoadError } from '../errors/index.js';
+
+/**
+ * An object's content with the response headers the loader uses
+ */
+interface S3ObjectContent {
+  content: string;
+  contentType?: string;
+  etag?: string;
+  lastModified?: Date;
+}
+
+/**
+ * Whether an S3 error is the 304 response to a conditional request
+ */
+function isNotModified(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error.name === 'NotModified' ||
+      (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode === 304)
+  );
+}
 
 /**
  * Loader that reads configuration from S3 buckets.
- * Supports JSON and .env file formats with auto-detection.
+ * Supports JSON, .env, YAML, TOML and INI formats with auto-detection.
+ * Loads either a single object or every object under a prefix, merged in order.
  *
  * @example
  * ```typescript
@@ -23,22 +48,59 @@ import { AWSServiceError, ConfigurationLoadError } from '../errors/index.js';
  *   bucket: 'my-config-bucket',
  *   key: 'config/.env'
  * });
+ *
+ * // Load YAML, detected from the .yaml extension
+ * const loader = new S3Loader({
+ *   bucket: 'platform-config',
+ *   key: 'shared/app.yaml'
+ * });
+ *
+ * // Merge 00-base.json, 10-db.env, 20-feature-flags.yaml, ... in lexical order
+ * const loader = new S3Loader({
+ *   bucket: 'my-config-bucket',
+ *   prefix: 'app/prod/'
+ * });
+ *
+ * // Verify the SHA-256 checksum and a detached signature in app.json.sig
+ * const loader = new S3Loader({
+ *   bucket: 'my-config-bucket',
+ *   key: 'app.json',
+ *   verifyChecksum: true,
+ *   signature: { publicKey: process.env.CONFIG_SIGNING_KEY! }
+ * });
  * ```
  *
  * @see https://docs.aws.amazon.com/AmazonECS/latest/developerguide/use-environment-file.html
  */
 export class S3Loader implements ConfigLoader {
   /** @internal */
-  protected readonly _config: Required<S3LoaderConfig>;
+  protected readonly _config: Required<
+    Omit<S3LoaderConfig, keyof LoaderOptions | 'key' | 'prefix' | 'manifest' | 'signature'>
+  > &
+    Pick<S3LoaderConfig, 'key' | 'prefix' | 'manifest' | 'signature'>;
+  /** @internal */
+  protected readonly _loaderOptions: LoaderOptions;
   /** @internal */
   protected readonly _client: S3Client;
+  /** @internal */
+  protected _objects: S3ObjectMetadata[] = [];
+  /** Last verified content of each object, by 'bucket/key', for conditional requests @internal */
+  protected readonly _cache = new Map<string, S3ObjectContent>();
 
   constructor(config: S3LoaderConfig) {
+    this._loaderOptions = pickLoaderOptions(config);
     this._config = {
       bucket: config.bucket,
       key: config.key,
+      prefix: config.prefix,
+      manifest: config.manifest,
+      merge: config.merge ?? {},
       region: config.region || process.env['AWS_REGION'] || 'us-east-1',
       format: config.format || 'auto',
+      envSyntax: config.envSyntax ?? 'ecs',
+      conditional: config.conditional ?? true,
+      verifyChecksum: config.verifyChecksum ?? false,
+      signature: config.signature,
     };
 
     this._client = new S3Client({
@@ -48,7 +110,15 @@ export class S3Loader implements ConfigLoader {
   }
 
   getName(): string {
-    return `S3Loader(s3://${this._config.bucket}/${this._config.key})`;
+    return `S3Loader(s3://${this._config.bucket}/${this._config.prefix ?? this._config.key ?? ''})`;
+  }
+
+  getKind(): string {
+    return 'S3Loader';
+  }
+
+  getOptions(): LoaderOptions {
+    return { ...this._loaderOptions };
   }
 
 
@@ -67,44 +137,164 @@ export class S3Loader implements ConfigLoader {
 
   /**
    * Load configuration from S3.
+   * With `prefix`, every object under the prefix (or listed in the manifest) is loaded and merged in order.
    * @returns Promise resolving to configuration key-value pairs
    * @throws AWSServiceError if S3 operation fails
-   * @throws ConfigurationLoadError if content cannot be parsed
+   * @throws ConfigurationLoadError if content cannot be parsed, or a manifest or listed object is missing
    */
   async load(): Promise<Record<string, unknown>> {
+    this._objects = [];
+
+    // ETags from the listing let unchanged objects be served from the cache without a request
+    let listed: { key: string; etag?: string }[];
+    if (this._config.prefix !== undefined) {
+      listed =
+        this._config.manifest !== undefined
+          ? (await this.readManifest(this._config.prefix, this._config.manifest)).map((key) => ({ key }))
+          : await this.listObjects(this._config.prefix);
+    } else if (this._config.key !== undefined) {
+      listed = [{ key: this._config.key }];
+    } else {
+      throw new ConfigurationLoadError('S3Loader requires either a key or a prefix', this.getName());
+    }
+    const keys = listed.map((entry) => entry.key);
+
+    // Fetch every object concurrently, then merge them in order
+    const objects = await Promise.all(
+      listed.map((entry) => this.getObject(this._config.bucket, entry.key, entry.etag)),
+    );
+
+    if (this._config.manifest !== undefined) {
+      const missing = keys.filter((_key, index) => !objects[index]);
+      if (missing.length > 0) {
+        throw new ConfigurationLoadError(
+          `Objects listed in the manifest not found: ${missing.map((key) => this.toUri(key)).join(', ')}`,
+          this.getName(),
+        );
+      }
+    }
+
+    let config: Record<string, unknown> = {};
+    for (const [index, key] of keys.entries()) {
+      const object = objects[index];
+      if (!object) {
+        continue;
+      }
+
+      const format = this.resolveFormat(object.content, object.contentType, key);
+      const objectConfig = object.content.trim() === '' ? {} : this.parseObject(object.content, format, key);
+      this._objects.push({
+        key,
+        uri: this.toUri(key),
+        format,
+        keysLoaded: Object.keys(objectConfig),
+        etag: object.etag,
+        lastModified: object.lastModified,
+        notModified: object.notModified,
+      });
+      config = ConfigMergeUtil.merge(config, objectConfig, this._config.merge);
+    }
+
+    return config;
+  }
+
+  /**
+   * Get the objects the last load() read, in merge order.
+   * @returns Metadata of each loaded object
+   */
+  getObjectMetadata(): S3ObjectMetadata[] {
+    return this._objects.map((object) => ({ ...object, keysLoaded: [...object.keysLoaded] }));
+  }
+
+  /**
+   * Get the object that supplied each top-level key in the last load(): the last object in merge order
+   * that contained the key.
+   * @returns Map of top-level key to object URI
+   */
+  getKeySources(): Record<string, string> {
+    const sources: Record<string, string> = {};
+    for (const object of this._objects) {
+      for (const key of object.keysLoaded) {
+        sources[key] = object.uri;
+      }
+    }
+    return sources;
+  }
+
+  /**
+   * Fetch the content of an S3 object as a string.
+   * Used by load() and to resolve `s3://` secret references.
+   * @param bucket The bucket name
+   * @param key The object key
+   * @returns Promise resolving to the object content, or undefined if the object or bucket does not exist
+   * @throws AWSServiceError if S3 operation fails
+   */
+  async getObjectContent(bucket: string, key: string): Promise<string | undefined> {
+    const object = await this.getObject(bucket, key);
+    return object?.content;
+  }
+
+  /**
+   * Fetch an S3 object, verifying its checksum and signature when configured.
+   * With conditional requests enabled, an unchanged object is answered from the cache: without a
+   * request when its listed ETag matches, otherwise with a 304 response to If-None-Match.
+   * @param listedEtag The object's ETag from a listing, if known
+   * @returns The object, or undefined if the object or bucket does not exist
+   * @throws AWSServiceError if S3 operation fails
+   * @throws ConfigurationLoadError if the checksum or signature does not match
+   */
+  private async getObject(
+    bucket: string,
+    key: string,
+    listedEtag?: string,
+  ): Promise<(S3ObjectContent & { notModified: boolean }) | undefined> {
+    const cacheKey = `${bucket}/${key}`;
+    const cached = this._config.conditional ? this._cache.get(cacheKey) : undefined;
+    if (cached && listedEtag !== undefined && cached.etag === listedEtag) {
+      return { ...cached, notModified: true };
+    }
+
+    let bytes: Uint8Array;
+    let object: S3ObjectContent;
+    let checksum: { value?: string; type?: string };
     try {
       const command = new GetObjectCommand({
-        Bucket: this._config.bucket,
-        Key: this._config.key,
+        Bucket: bucket,
+        Key: key,
+        IfNoneMatch: cached?.etag,
+        IfModifiedSince: cached && !cached.etag ? cached.lastModified : undefined,
+        ChecksumMode: this._config.verifyChecksum ? 'ENABLED' : undefined,
       });
 
       const response = await this._client.send(command);
 
       if (!response.Body) {
-        return {};
-      }
-
-      const content = await response.Body.transformToString();
-
-      if (!content || content.trim() === '') {
-        return {};
+        return undefined;
       }
 
-      return this.parseContent(content);
+      bytes = await response.Body.transformToByteArray();
+      object = {
+        content: Buffer.from(bytes).toString('utf-8'),
+        contentType: response.ContentType,
+        etag: response.ETag,
+        lastModified: response.LastModified,
+      };
+      checksum = { value: response.ChecksumSHA256, type: response.ChecksumType };
     } catch (error) {
-      if (error instanceof ConfigurationLoadError) {
-        throw error;
+      if (cached && isNotModified(error)) {
+        return { ...cached, notModified: true };
       }
 
       if (error instanceof Error) {
         if (error.name === 'NoSuchKey' || error.name === 'NoSuchBucket') {
-          // Object or bucket doesn't exist - return empty config
-          return {};
+          // Object or bucket doesn't exist
+          this._cache.delete(cacheKey);
+          return undefined;
         }
 
         if (error.name === 'AccessDenied') {
           throw new AWSServiceError(
-            `Access denied when retrieving s3://${this._config.bucket}/${this._config.key}. Check AWS credentials and permissions.`,
+            `Access denied when retrieving s3://${bucket}/${key}. Check AWS credentials and permissions.`,
             'S3',
             'GetObject',
             error,
@@ -113,61 +303,227 @@ export class S3Loader implements ConfigLoader {
       }
 
       throw new AWSServiceError(
-        `Failed to retrieve s3://${this._config.bucket}/${this._config.key}: ${error instanceof Error ? error.message : String(error)}`,
+        `Failed to retrieve s3://${bucket}/${key}: ${error instanceof Error ? error.message : String(error)}`,
         'S3',
         'GetObject',
         error instanceof Error ? error : undefined,
       );
     }
+
+    if (this._config.verifyChecksum) {
+      this.verifyChecksum(bucket, key, bytes, checksum);
+    }
+    if (this._config.signature) {
+      await this.verifySignature(bucket, key, bytes);
+    }
+
+    if (this._config.conditional) {
+      this._cache.set(cacheKey, object);
+    }
+    return { ...object, notModified: false };
   }
 
   /**
-   * Parse content based on format setting or auto-detection.
-   * @internal
+   * Compare the SHA-256 of the downloaded bytes with the checksum S3 stored for the object.
+   * @throws ConfigurationLoadError if the object has no full-object SHA-256 checksum or it does not match
    */
-  protected parseContent(content: string): Record<string, unknown> {
-    const format = this._config.format === 'auto' ? this.detectFormat(content) : this._config.format;
+  private verifyChecksum(
+    bucket: string,
+    key: string,
+    bytes: Uint8Array,
+    checksum: { value?: string; type?: string },
+  ): void {
+    const uri = `s3://${bucket}/${key}`;
+    if (!checksum.value) {
+      throw new ConfigurationLoadError(
+        `${uri} has no SHA-256 checksum. Upload it with ChecksumAlgorithm SHA256 to verify it.`,
+        this.getName(),
+      );
+    }
+    if (checksum.type === 'COMPOSITE' || checksum.value.includes('-')) {
+      throw new ConfigurationLoadError(
+        `${uri} has a composite multipart checksum, which cannot be verified against its content`,
+        this.getName(),
+      );
+    }
 
-    if (format === 'json') {
-      return this.parseJson(content);
-    } else {
-      return EnvFileParser.parse(content);
+    const actual = createHash('sha256').update(bytes).digest('base64');
+    if (actual !== checksum.value) {
+      throw new ConfigurationLoadError(
+        `Checksum mismatch for ${uri}: the content does not match its SHA-256 checksum`,
+        this.getName(),
+      );
     }
   }
 
   /**
-   * Detect content format based on structure.
-   * JSON content starts with '{' after trimming whitespace.
-   * @internal
+   * Verify the object's detached signature from its sidecar object.
+   * @throws ConfigurationLoadError if the sidecar is missing or the signature does not match
    */
-  protected detectFormat(content: string): 'json' | 'env' {
-    const trimmed = content.trim();
-    if (trimmed.startsWith('{')) {
-      return 'json';
+  private async verifySignature(bucket: string, key: string, bytes: Uint8Array): Promise<void> {
+    const options = this._config.signature!;
+    const signatureKey = `${key}${options.suffix ?? '.sig'}`;
+    const uri = `s3://${bucket}/${key}`;
+
+    let signature: string;
+    try {
+      const response = await this._client.send(new GetObjectCommand({ Bucket: bucket, Key: signatureKey }));
+      signature = (await response.Body?.transformToString())?.trim() ?? '';
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NoSuchKey') {
+        throw new ConfigurationLoadError(
+          `Signature s3://${bucket}/${signatureKey} for ${uri} not found`,
+          this.getName(),
+        );
+      }
+      throw new AWSServiceError(
+        `Failed to retrieve s3://${bucket}/${signatureKey}: ${error instanceof Error ? error.message : String(error)}`,
+        'S3',
+        'GetObject',
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    const publicKey = typeof options.publicKey === 'string' ? createPublicKey(options.publicKey) : options.publicKey;
+    const algorithm =
+      options.algorithm ??
+      (publicKey.asymmetricKeyType === 'ed25519' || publicKey.asymmetricKeyType === 'ed448' ? null : 'sha256');
+    if (signature === '' || !verify(algorithm, bytes, publicKey, Buffer.from(signature, 'base64'))) {
+      throw new ConfigurationLoadError(`Signature verification failed for ${uri}`, this.getName());
     }
-    return 'env';
   }
 
   /**
-   * Parse JSON content.
-   * @internal
+   * List every object under a prefix in lexical key order, following continuation tokens.
+   * Keys ending in '/' (folder placeholders) are skipped, as are signature sidecars when signatures are verified.
+   * @returns The object keys and ETags, or an empty list if the bucket does not exist
+   * @throws AWSServiceError if S3 operation fails
    */
-  protected parseJson(content: string): Record<string, unknown> {
+  private async listObjects(prefix: string): Promise<{ key: string; etag?: string }[]> {
+    const objects: { key: string; etag?: string }[] = [];
+    const signatureSuffix = this._config.signature ? (this._config.signature.suffix ?? '.sig') : undefined;
+    let continuationToken: string | undefined;
+
     try {
-      const parsed = JSON.parse(content);
+      do {
+        const response = await this._client.send(
+          new ListObjectsV2Command({
+            Bucket: this._config.bucket,
+            Prefix: prefix,
+            ContinuationToken: continuationToken,
+          }),
+        );
 
-      if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
-        return parsed;
+        for (const object of response.Contents ?? []) {
+          const isSidecar = signatureSuffix !== undefined && object.Key?.endsWith(signatureSuffix);
+          if (object.Key && !object.Key.endsWith('/') && !isSidecar) {
+            objects.push({ key: object.Key, etag: object.ETag });
+          }
+        }
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (continuationToken);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NoSuchBucket') {
+        return [];
       }
 
-      // If not an object, wrap it
-      return { CONFIG_VALUE: parsed };
+      const uri = `s3://${this._config.bucket}/${prefix}`;
+      throw new AWSServiceError(
+        error instanceof Error && error.name === 'AccessDenied'
+          ? `Access denied when listing ${uri}. Check AWS credentials and permissions.`
+          : `Failed to list ${uri}: ${error instanceof Error ? error.message : String(error)}`,
+        'S3',
+        'ListObjectsV2',
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    return objects.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  }
+
+  /**
+   * Read the manifest object and resolve the keys it lists against the prefix.
+   * @throws ConfigurationLoadError if the manifest is missing or invalid
+   */
+  private async readManifest(prefix: string, manifest: string): Promise<string[]> {
+    const manifestKey = `${prefix}${manifest}`;
+    const object = await this.getObject(this._config.bucket, manifestKey);
+    if (!object) {
+      throw new ConfigurationLoadError(`Manifest ${this.toUri(manifestKey)} not found`, this.getName());
+    }
+
+    let entries: unknown;
+    if (object.content.trim().startsWith('[')) {
+      try {
+        entries = JSON.parse(object.content);
+      } catch (error) {
+        throw new ConfigurationLoadError(
+          `Failed to parse manifest ${this.toUri(manifestKey)}: ${error instanceof Error ? error.message : String(error)}`,
+          this.getName(),
+          error instanceof Error ? error : undefined,
+        );
+      }
+    } else {
+      entries = object.content
+        .split(/\r?\n/)
+        .map((line) => line.replace(/#.*$/, '').trim())
+        .filter((line) => line !== '');
+    }
+
+    if (!Array.isArray(entries) || entries.some((entry) => typeof entry !== 'string' || entry === '')) {
+      throw new ConfigurationLoadError(
+        `Manifest ${this.toUri(manifestKey)} must list object keys as a JSON array of strings or one key per line`,
+        this.getName(),
+      );
+    }
+
+    return (entries as string[]).map((entry) => `${prefix}${entry}`);
+  }
+
+  /**
+   * Parse content based on format setting or auto-detection.
+   * @param contentType The object's Content-Type, used for auto-detection
+   * @param key The object key, used for auto-detection and error messages
+   * @throws ConfigurationLoadError with the line and column if the content cannot be parsed
+   * @internal
+   */
+  protected parseContent(
+    content: string,
+    contentType?: string,
+    key: string = this._config.key ?? '',
+  ): Record<string, unknown> {
+    return this.parseObject(content, this.resolveFormat(content, contentType, key), key);
+  }
+
+  /**
+   * Detect content format from the object key's extension, then the Content-Type,
+   * then the content: content starting with '{' is JSON, anything else is an env file.
+   * @internal
+   */
+  protected detectFormat(content: string, contentType?: string, key: string = this._config.key ?? ''): ConfigFormat {
+    return ConfigFormatUtil.detect(content, { path: key, contentType });
+  }
+
+  private resolveFormat(content: string, contentType: string | undefined, key: string): ConfigFormat {
+    return this._config.format === 'auto' ? this.detectFormat(content, contentType, key) : this._config.format;
+  }
+
+  private parseObject(content: string, format: ConfigFormat, key: string): Record<string, unknown> {
+    try {
+      return ConfigFormatUtil.parse(content, format, this._config.envSyntax);
     } catch (error) {
+      if (!(error instanceof ConfigParseError)) {
+        throw error;
+      }
       throw new ConfigurationLoadError(
-        `Failed to parse JSON from s3://${this._config.bucket}/${this._config.key}: ${error instanceof Error ? error.message : String(error)}`,
+        `Failed to parse ${ConfigFormatUtil.formatName(format)} from ${this.toUri(key)}: ${error.message}`,
         this.getName(),
-        error instanceof Error ? error : undefined,
+        error,
       );
     }
   }
+
+  private toUri(key: string): string {
+    return `s3://${this._config.bucket}/${key}`;
+  }
 }
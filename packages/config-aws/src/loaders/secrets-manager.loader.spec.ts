@@ -0,0 +1,362 @@
+/**
+ * Unit tests for SecretsManagerLoader
+ *
+ * Tests loading single and multiple secrets, batching, fallback, version stages, binary secrets, rotation and error handling.
+ */
+
+import { SecretsManagerLoader } from './secrets-manager.loader';
+import { AWSServiceError, ConfigurationLoadError } from '../errors';
+
+// Mock the AWS SDK
+jest.mock('@aws-sdk/client-secrets-manager', () => {
+  const mockSend = jest.fn();
+  return {
+    SecretsManagerClient: jest.fn().mockImplementation(() => ({
+      send: mockSend,
+      config: {
+        credentials: jest.fn().mockResolvedValue({}),
+      },
+    })),
+    GetSecretValueCommand: jest.fn().mockImplementation((input) => ({ type: 'GetSecretValue', ...input })),
+    BatchGetSecretValueCommand: jest.fn().mockImplementation((input) => ({ type: 'BatchGetSecretValue', ...input })),
+    __mockSend: mockSend,
+  };
+});
+
+jest.mock('@aws-sdk/credential-providers', () => ({
+  fromNodeProviderChain: jest.fn().mockReturnValue({}),
+}));
+
+// Get the mock send function
+const getMockSend = () => {
+  return require('@aws-sdk/client-secrets-manager').__mockSend as jest.Mock;
+};
+
+const awsError = (name: string, message: string = name): Error => {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
+
+describe('SecretsManagerLoader', () => {
+  const originalAppEnv = process.env['APP_ENV'];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env['APP_ENV'] = 'production';
+  });
+
+  afterEach(() => {
+    if (originalAppEnv !== undefined) {
+      process.env['APP_ENV'] = originalAppEnv;
+    } else {
+      delete process.env['APP_ENV'];
+    }
+  });
+
+  describe('load', () => {
+    it('should return empty object in local environment', async () => {
+      process.env['APP_ENV'] = 'local';
+
+      const loader = new SecretsManagerLoader({ secretName: '/my-app/config' });
+
+      expect(await loader.load()).toEqual({});
+      expect(getMockSend()).not.toHaveBeenCalled();
+    });
+
+    it('should load a single JSON secret with GetSecretValue', async () => {
+      const mockSend = getMockSend();
+      mockSend.mockResolvedValueOnce({ SecretString: '{"DB_HOST":"db.internal"}' });
+
+      const loader = new SecretsManagerLoader({
+        secretName: '/my-app/config',
+        environmentMapping: { production: 'prod' },
+      });
+
+      expect(await loader.load()).toEqual({ DB_HOST: 'db.internal' });
+      expect(mockSend).toHaveBeenCalledWith({ type: 'GetSecretValue', SecretId: '/prod/my-app/config' });
+    });
+
+    it('should wrap plain string secrets in SECRET_VALUE', async () => {
+      getMockSend().mockResolvedValueOnce({ SecretString: 'not-json' });
+
+      const loader = new SecretsManagerLoader({ secretName: '/my-app/token', environmentMapping: { production: 'prod' } });
+
+      expect(await loader.load()).toEqual({ SECRET_VALUE: 'not-json' });
+    });
+
+    it('should return empty object when the secret does not exist', async () => {
+      getMockSend().mockRejectedValueOnce(awsError('ResourceNotFoundException'));
+
+      const loader = new SecretsManagerLoader({ secretName: '/my-app/config', environmentMapping: { production: 'prod' } });
+
+      expect(await loader.load()).toEqual({});
+    });
+  });
+
+  describe('versions and value formats', () => {
+    it('should load a pinned version stage or version id', async () => {
+      const mockSend = getMockSend();
+      mockSend.mockResolvedValueOnce({ SecretString: '{"KEY":"previous"}' });
+
+      const loader = new SecretsManagerLoader({
+        secretName: '/my-app/config',
+        environmentMapping: { production: 'prod' },
+        versionStage: 'AWSPREVIOUS',
+      });
+
+      expect(await loader.load()).toEqual({ KEY: 'previous' });
+      expect(mockSend).toHaveBeenCalledWith({
+        type: 'GetSecretValue',
+        SecretId: '/prod/my-app/config',
+        VersionStage: 'AWSPREVIOUS',
+        VersionId: undefined,
+      });
+    });
+
+    it('should fetch pinned secrets individually and batch the rest', async () => {
+      const mockSend = getMockSend();
+      mockSend.mockImplementation(async (command) =>
+        command.type === 'BatchGetSecretValue'
+          ? {
+              SecretValues: [
+                { Name: '/prod/a', SecretString: '{"A":"current"}' },
+                { Name: '/prod/b', SecretString: '{"B":"current"}' },
+              ],
+            }
+          : { SecretString: '{"C":"v1"}' },
+      );
+
+      const loader = new SecretsManagerLoader({
+        secrets: ['/a', '/b', { secretName: '/c', versionId: 'v1-id' }],
+        environmentMapping: { production: 'prod' },
+      });
+
+      try {
+        expect(await loader.load()).toEqual({ A: 'current', B: 'current', C: 'v1' });
+        expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({ type: 'BatchGetSecretValue', SecretIdList: ['/prod/a', '/prod/b'] }));
+        expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({ type: 'GetSecretValue', SecretId: '/prod/c', VersionId: 'v1-id' }));
+      } finally {
+        mockSend.mockReset();
+      }
+    });
+
+    it('should expose binary secrets as base64 by default', async () => {
+      getMockSend().mockResolvedValueOnce({ SecretBinary: new Uint8Array([1, 2, 3]) });
+
+      const loader = new SecretsManagerLoader({ secretName: '/my-app/cert', environmentMapping: { production: 'prod' } });
+
+      expect(await loader.load()).toEqual({ SECRET_VALUE: 'AQID' });
+    });
+
+    it('should expose binary secrets as a Buffer under the value key', async () => {
+      getMockSend().mockResolvedValueOnce({ SecretBinary: new Uint8Array([1, 2, 3]) });
+
+      const loader = new SecretsManagerLoader({
+        secretName: '/my-app/cert',
+        environmentMapping: { production: 'prod' },
+        valueKey: 'TLS_CERT',
+        binaryFormat: 'buffer',
+      });
+
+      const result = await loader.load();
+
+      expect(Buffer.isBuffer(result['TLS_CERT'])).toBe(true);
+      expect([...(result['TLS_CERT'] as Buffer)]).toEqual([1, 2, 3]);
+    });
+
+    it('should put non-JSON secrets under the value key', async () => {
+      getMockSend().mockResolvedValueOnce({
+        SecretValues: [
+          { Name: '/prod/token', SecretString: 'plain-token' },
+          { Name: '/prod/count', SecretString: '42' },
+        ],
+      });
+
+      const loader = new SecretsManagerLoader({
+        secrets: [{ secretName: '/token', prefix: 'API_' }, { secretName: '/count', namespace: 'limits' }],
+        environmentMapping: { production: 'prod' },
+        valueKey: 'VALUE',
+      });
+
+      expect(await loader.load()).toEqual({ API_VALUE: 'plain-token', limits: { VALUE: 42 } });
+    });
+  });
+
+  describe('rotation', () => {
+    it('should load the current and pending stages of a rotating secret', async () => {
+      const mockSend = getMockSend();
+      mockSend.mockImplementation(async (command) => ({
+        SecretString: command.VersionStage === 'AWSPENDING' ? '{"password":"new"}' : '{"password":"old"}',
+      }));
+
+      const loader = new SecretsManagerLoader({
+        secrets: [{ secretName: '/my-app/database', namespace: 'database', rotation: true }],
+        environmentMapping: { production: 'prod' },
+      });
+
+      try {
+        expect(await loader.load()).toEqual({
+          database: { current: { password: 'old' }, pending: { password: 'new' } },
+        });
+        expect(mockSend).toHaveBeenCalledWith(expect.objectContaining({ SecretId: '/prod/my-app/database', VersionStage: 'AWSPENDING' }));
+      } finally {
+        mockSend.mockReset();
+      }
+    });
+
+    it('should omit pending when no rotation is in progress', async () => {
+      const mockSend = getMockSend();
+      mockSend
+        .mockResolvedValueOnce({ SecretString: '{"password":"old"}' })
+        .mockRejectedValueOnce(awsError('ResourceNotFoundException'));
+
+      const loader = new SecretsManagerLoader({
+        secrets: [{ secretName: '/my-app/database', namespace: 'database' }],
+        environmentMapping: { production: 'prod' },
+        rotation: true,
+      });
+
+      expect(await loader.load()).toEqual({ database: { current: { password: 'old' } } });
+    });
+
+    it('should reject a rotating secret without a namespace', async () => {
+      const mockSend = getMockSend();
+      const loaders = [
+        new SecretsManagerLoader({
+          secretName: '/my-app/database',
+          environmentMapping: { production: 'prod' },
+          rotation: true,
+        }),
+        new SecretsManagerLoader({
+          secrets: [
+            { secretName: '/my-app/database', namespace: 'database' },
+            { secretName: '/my-app/api', rotation: true },
+          ],
+          environmentMapping: { production: 'prod' },
+        }),
+      ];
+
+      await expect(loaders[0]!.load()).rejects.toThrow(ConfigurationLoadError);
+      await expect(loaders[0]!.load()).rejects.toThrow('Rotating secret /prod/my-app/database has no namespace');
+      await expect(loaders[1]!.load()).rejects.toThrow('Rotating secret /prod/my-app/api has no namespace');
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multiple secrets', () => {
+    const secrets = [
+      { secretName: '/my-app/database', namespace: 'database' },
+      { secretName: '/my-app/api-keys', prefix: 'API_' },
+      '/my-app/signing',
+    ];
+
+    it('should fetch secrets with BatchGetSecretValue and merge them in declared order', async () => {
+      const mockSend = getMockSend();
+      mockSend.mockResolvedValueOnce({
+        SecretValues: [
+          { Name: '/prod/my-app/signing', SecretString: '{"KEY":"signing-key","API_STRIPE":"overridden"}' },
+          { Name: '/prod/my-app/database', SecretString: '{"host":"db","password":"pw"}' },
+          { Name: '/prod/my-app/api-keys', SecretString: '{"STRIPE":"sk_live"}' },
+        ],
+      });
+
+      const loader = new SecretsManagerLoader({ secrets, environmentMapping: { production: 'prod' } });
+
+      expect(await loader.load()).toEqual({
+        database: { host: 'db', password: 'pw' },
+        API_STRIPE: 'overridden',
+        KEY: 'signing-key',
+      });
+      expect(mockSend).toHaveBeenCalledTimes(1);
+      expect(mockSend).toHaveBeenCalledWith({
+        type: 'BatchGetSecretValue',
+        SecretIdList: ['/prod/my-app/database', '/prod/my-app/api-keys', '/prod/my-app/signing'],
+        NextToken: undefined,
+      });
+    });
+
+    it('should use ARNs as-is and match them to the response', async () => {
+      const arn = 'arn:aws:secretsmanager:us-east-1:123456789012:secret:shared-AbCdEf';
+      const mockSend = getMockSend();
+      mockSend.mockResolvedValueOnce({
+        SecretValues: [
+          { Name: 'shared', ARN: arn, SecretString: '{"SHARED":"yes"}' },
+          { Name: '/prod/my-app/database', SecretString: '{"LOCAL":"yes"}' },
+        ],
+      });
+
+      const loader = new SecretsManagerLoader({ secrets: [arn, '/my-app/database'], environmentMapping: { production: 'prod' } });
+
+      expect(await loader.load()).toEqual({ SHARED: 'yes', LOCAL: 'yes' });
+      expect(mockSend.mock.calls[0][0].SecretIdList).toEqual([arn, '/prod/my-app/database']);
+    });
+
+    it('should skip missing secrets and fail on other per-secret errors', async () => {
+      const mockSend = getMockSend();
+      mockSend.mockResolvedValueOnce({
+        SecretValues: [{ Name: '/prod/my-app/database', SecretString: '{"host":"db"}' }],
+        Errors: [{ SecretId: '/prod/my-app/api-keys', ErrorCode: 'ResourceNotFoundException', Message: 'not found' }],
+      });
+      mockSend.mockResolvedValueOnce({
+        SecretValues: [],
+        Errors: [{ SecretId: '/prod/my-app/signing', ErrorCode: 'DecryptionFailure', Message: 'KMS key disabled' }],
+      });
+
+      const loader = new SecretsManagerLoader({ secrets, environmentMapping: { production: 'prod' } });
+
+      expect(await loader.load()).toEqual({ database: { host: 'db' } });
+      await expect(loader.load()).rejects.toThrow(
+        "Failed to retrieve secret '/prod/my-app/signing' from AWS Secrets Manager: DecryptionFailure: KMS key disabled",
+      );
+    });
+
+    it('should follow NextToken and batch 20 secrets per call', async () => {
+      const mockSend = getMockSend();
+      mockSend
+        .mockResolvedValueOnce({ SecretValues: [], NextToken: 'page-2' })
+        .mockResolvedValueOnce({ SecretValues: [] })
+        .mockResolvedValueOnce({ SecretValues: [] });
+      const names = Array.from({ length: 25 }, (_, index) => `/secret-${index}`);
+
+      const loader = new SecretsManagerLoader({ secrets: names, environmentMapping: { production: 'prod' } });
+      await loader.load();
+
+      expect(mockSend.mock.calls.map(([command]) => [command.SecretIdList.length, command.NextToken])).toEqual([
+        [20, undefined],
+        [20, 'page-2'],
+        [5, undefined],
+      ]);
+    });
+
+    it('should fall back to GetSecretValue when BatchGetSecretValue is denied', async () => {
+      const mockSend = getMockSend();
+      mockSend
+        .mockRejectedValueOnce(awsError('AccessDeniedException'))
+        .mockResolvedValueOnce({ SecretString: '{"A":"1"}' })
+        .mockResolvedValueOnce({ SecretString: '{"B":"2"}' });
+
+      const loader = new SecretsManagerLoader({ secrets: ['/a', '/b'], environmentMapping: { production: 'prod' } });
+
+      expect(await loader.load()).toEqual({ A: '1', B: '2' });
+      expect(mockSend).toHaveBeenCalledWith({ type: 'GetSecretValue', SecretId: '/prod/a' });
+      expect(mockSend).toHaveBeenCalledWith({ type: 'GetSecretValue', SecretId: '/prod/b' });
+    });
+
+    it('should throw AWSServiceError for other BatchGetSecretValue failures', async () => {
+      getMockSend().mockRejectedValueOnce(awsError('InternalServiceError', 'boom'));
+
+      const loader = new SecretsManagerLoader({ secrets: ['/a', '/b'], environmentMapping: { production: 'prod' } });
+
+      await expect(loader.load()).rejects.toThrow(AWSServiceError);
+    });
+
+    it('should name the loader after all of its secrets', () => {
+      const loader = new SecretsManagerLoader({ secrets, environmentMapping: { production: 'prod' } });
+
+      expect(loader.getName()).toBe(
+        'SecretsManagerLoader(/prod/my-app/database, /prod/my-app/api-keys, /prod/my-app/signing)',
+      );
+    });
+  });
+});
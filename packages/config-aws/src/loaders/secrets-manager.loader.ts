@@ -1,13 +1,28 @@
-import { GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { BatchGetSecretValueCommand, GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import type { GetSecretValueCommandOutput } from '@aws-sdk/client-secrets-manager';
 import { fromNodeProviderChain } from '@aws-sdk/credential-providers';
 
-import type { ConfigLoader } from '../interfaces/config-loader.interface.js';
-import type { SecretsManagerLoaderConfig } from '../interfaces/secrets-manager-loader.interface.js';
+import type { ConfigLoader, LoaderOptions } from '../interfaces/config-loader.interface.js';
+import type {
+  SecretSource,
+  SecretsManagerLoaderConfig,
+  SecretVersionOptions,
+} from '../interfaces/secrets-manager-loader.interface.js';
+import { pickLoaderOptions } from '../utils/loader-options.util.js';
 import { AWSServiceError, ConfigurationLoadError } from '../errors/index.js';
 
+/** Maximum number of secrets accepted by a single BatchGetSecretValue call */
+const BATCH_GET_SECRET_VALUE_LIMIT = 20;
+
+/**
+ * Value of a secret version as returned by GetSecretValue and BatchGetSecretValue
+ */
+type SecretPayload = Pick<GetSecretValueCommandOutput, 'SecretString' | 'SecretBinary'>;
+
 /**
  * Loader that reads configuration from AWS Secrets Manager.
- * Supports environment-aware path construction.
+ * Supports environment-aware path construction, loading several secrets at once,
+ * version stages, binary secrets and loading both stages of a secret during rotation.
  *
  * @example
  * ```typescript
@@ -26,22 +41,41 @@ import { AWSServiceError, ConfigurationLoadError } from '../errors/index.js';
  *     production: 'prod'
  *   }
  * });
+ *
+ * // Several secrets, merged in order
+ * const loader = new SecretsManagerLoader({
+ *   secrets: [
+ *     { secretName: '/my-app/database', namespace: 'database' },
+ *     { secretName: '/my-app/api-keys', prefix: 'API_' },
+ *     '/my-app/signing-keys'
+ *   ]
+ * });
  * ```
  */
 export class SecretsManagerLoader implements ConfigLoader {
   /** @internal */
   protected readonly _client: SecretsManagerClient;
   /** @internal */
-  protected readonly _config: Required<SecretsManagerLoaderConfig>;
+  protected readonly _config: Required<Omit<SecretsManagerLoaderConfig, keyof LoaderOptions | keyof SecretVersionOptions>> &
+    SecretVersionOptions;
+  /** @internal */
+  protected readonly _loaderOptions: LoaderOptions;
   /** @internal */
   protected readonly _appEnv: string;
 
   constructor(config: SecretsManagerLoaderConfig = {}) {
+    this._loaderOptions = pickLoaderOptions(config);
     this._appEnv = process.env['APP_ENV'] || process.env['NODE_ENV'] || 'local';
 
     // Set default configuration
     this._config = {
       secretName: config.secretName || '/nestjs-config-aws',
+      secrets: config.secrets ?? [],
+      versionStage: config.versionStage,
+      versionId: config.versionId,
+      valueKey: config.valueKey ?? 'SECRET_VALUE',
+      binaryFormat: config.binaryFormat ?? 'base64',
+      rotation: config.rotation ?? false,
       region: config.region || process.env['AWS_REGION'] || 'us-east-1',
       environmentMapping: config.environmentMapping || {
         development: 'dev',
@@ -67,11 +101,21 @@ export class SecretsManagerLoader implements ConfigLoader {
     // environment mapping is missing - buildSecretName() throws an error
     // that includes getName() in the message, causing infinite recursion.
     const envPrefix = this._config.environmentMapping[this._appEnv];
-    if (envPrefix) {
-      return `SecretsManagerLoader(/${envPrefix}${this._config.secretName})`;
-    }
-    // Fallback to base secret name when environment mapping is unavailable
-    return `SecretsManagerLoader(${this._config.secretName})`;
+    const secretNames =
+      this._config.secrets.length > 0
+        ? this._config.secrets.map((entry) => (typeof entry === 'string' ? entry : entry.secretName))
+        : [this._config.secretName];
+    return `SecretsManagerLoader(${secretNames
+      .map((secretName) => (envPrefix && !secretName.startsWith('arn:') ? `/${envPrefix}${secretName}` : secretName))
+      .join(', ')})`;
+  }
+
+  getKind(): string {
+    return 'SecretsManagerLoader';
+  }
+
+  getOptions(): LoaderOptions {
+    return { ...this._loaderOptions };
   }
 
   /**
@@ -95,9 +139,11 @@ export class SecretsManagerLoader implements ConfigLoader {
 
   /**
    * Load configuration from AWS Secrets Manager.
-   * @returns Promise resolving to configuration key-value pairs from the secret
+   * With a list of secrets, they are fetched together and merged in the declared order.
+   * Secrets that do not exist are skipped.
+   * @returns Promise resolving to configuration key-value pairs from the secrets
    * @throws AWSServiceError if AWS operation fails
-   * @throws ConfigurationLoadError if secret cannot be parsed
+   * @throws ConfigurationLoadError if no environment mapping is found, or a rotating secret has no namespace
    */
   async load(): Promise<Record<string, unknown>> {
     // Skip loading in local environment
@@ -105,37 +151,121 @@ export class SecretsManagerLoader implements ConfigLoader {
       return {};
     }
 
-    const secretName = this.buildSecretName();
+    const sources =
+      this._config.secrets.length > 0
+        ? this._config.secrets.map((entry) => this.resolveSecretSource(entry))
+        : [{ ...this.resolveSecretSource(this._config.secretName), secretName: this.buildSecretName() }];
 
-    try {
-      const command = new GetSecretValueCommand({ SecretId: secretName });
-      const response = await this._client.send(command);
+    // { current, pending } must be nested under a namespace, or secrets and other loaders would overwrite it
+    const unnamespaced = sources.find((source) => source.rotation && !source.namespace);
+    if (unnamespaced) {
+      throw new ConfigurationLoadError(
+        `Rotating secret ${unnamespaced.secretName} has no namespace. ` +
+          'Load it with secrets: [{ secretName, namespace, rotation: true }]',
+        this.getName(),
+      );
+    }
+    const [payloads, pendingPayloads] = await Promise.all([
+      this.fetchSecrets(sources),
+      Promise.all(
+        sources.map((source) =>
+          source.rotation ? this.getSecretValue(source.secretName, { versionStage: 'AWSPENDING' }) : undefined,
+        ),
+      ),
+    ]);
+    let result: Record<string, unknown> = {};
 
-      if (!response.SecretString) {
-        return {};
+    for (const [index, source] of sources.entries()) {
+      const current = this.parseSecret(payloads[index], source.prefix);
+      if (!current) {
+        continue;
       }
 
-      // Try to parse as JSON, fallback to string value
-      try {
-        const parsed = JSON.parse(response.SecretString);
+      const pending = this.parseSecret(pendingPayloads[index], source.prefix);
+      const config: Record<string, unknown> = source.rotation ? { current, ...(pending && { pending }) } : current;
 
-        // Ensure we return an object for configuration merging
-        if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
-          return parsed;
-        } else {
-          // If it's not an object, wrap it in a configuration object
-          return { SECRET_VALUE: parsed };
+      if (source.namespace) {
+        const existing = result[source.namespace];
+        result = {
+          ...result,
+          [source.namespace]:
+            typeof existing === 'object' && existing !== null && !Array.isArray(existing) ? { ...existing, ...config } : config,
+        };
+      } else {
+        result = { ...result, ...config };
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch the string value of a secret.
+   * Used to resolve `secretsmanager:` secret references.
+   * @param secretName The secret name or ARN
+   * @returns Promise resolving to the SecretString, or undefined if the secret does not exist
+   * @throws AWSServiceError if AWS operation fails
+   */
+  async getSecretString(secretName: string): Promise<string | undefined> {
+    return (await this.getSecretValue(secretName))?.SecretString;
+  }
+
+  /**
+   * Fetch the values of several secrets.
+   * Secrets on their current version are fetched together with BatchGetSecretValue, falling back
+   * to one GetSecretValue call per secret when the caller is not allowed to use BatchGetSecretValue.
+   * Secrets pinned to a version are always fetched with GetSecretValue.
+   * @param sources The secrets to fetch, with environment-aware names
+   * @returns Promise resolving to the value of each source, undefined for missing secrets
+   * @throws AWSServiceError if AWS operation fails
+   */
+  private async fetchSecrets(sources: SecretSource[]): Promise<(SecretPayload | undefined)[]> {
+    const isPinned = (source: SecretSource) => source.versionStage !== undefined || source.versionId !== undefined;
+    const batchNames = [...new Set(sources.filter((source) => !isPinned(source)).map((source) => source.secretName))];
+    let batched = new Map<string, SecretPayload | undefined>();
+
+    if (batchNames.length > 1) {
+      try {
+        batched = await this.batchGetSecretValues(batchNames);
+      } catch (error) {
+        if (!(error instanceof AWSServiceError && error.cause?.name === 'AccessDeniedException')) {
+          throw error;
         }
-      } catch {
-        // If JSON parsing fails, treat as a single string value
-        return { SECRET_VALUE: response.SecretString };
       }
+    }
+
+    return Promise.all(
+      sources.map((source) =>
+        !isPinned(source) && batched.has(source.secretName)
+          ? batched.get(source.secretName)
+          : this.getSecretValue(source.secretName, source),
+      ),
+    );
+  }
+
+  /**
+   * Fetch a single secret with GetSecretValue.
+   * @param secretName The secret name or ARN
+   * @param version The version to fetch. Default: the current version
+   * @returns Promise resolving to the secret value, or undefined if the secret or version does not exist
+   * @throws AWSServiceError if AWS operation fails
+   */
+  private async getSecretValue(secretName: string, version: SecretVersionOptions = {}): Promise<SecretPayload | undefined> {
+    try {
+      const command = new GetSecretValueCommand({
+        SecretId: secretName,
+        VersionStage: version.versionStage,
+        VersionId: version.versionId,
+      });
+      const response = await this._client.send(command);
+
+      return { SecretString: response.SecretString, SecretBinary: response.SecretBinary };
     } catch (error) {
       // Handle specific AWS errors
       if (error instanceof Error) {
         if (error.name === 'ResourceNotFoundException') {
           // Secret doesn't exist - this is not necessarily an error in all environments
-          return {};
+          return undefined;
         }
 
         if (error.name === 'AccessDeniedException') {
@@ -167,11 +297,121 @@ export class SecretsManagerLoader implements ConfigLoader {
     }
   }
 
+  /**
+   * Fetch the current version of secrets with BatchGetSecretValue, 20 at a time.
+   * @param secretNames The secret names or ARNs, without duplicates
+   * @returns Promise resolving to each secret value by the requested name
+   * @throws AWSServiceError if the call fails, or a secret fails for a reason other than not existing
+   */
+  private async batchGetSecretValues(secretNames: string[]): Promise<Map<string, SecretPayload | undefined>> {
+    const result = new Map<string, SecretPayload | undefined>(secretNames.map((secretName) => [secretName, undefined]));
+
+    for (let index = 0; index < secretNames.length; index += BATCH_GET_SECRET_VALUE_LIMIT) {
+      const batch = secretNames.slice(index, index + BATCH_GET_SECRET_VALUE_LIMIT);
+      let nextToken: string | undefined;
+
+      do {
+        let response;
+        try {
+          response = await this._client.send(new BatchGetSecretValueCommand({ SecretIdList: batch, NextToken: nextToken }));
+        } catch (error) {
+          throw new AWSServiceError(
+            `Failed to retrieve secrets ${batch.join(', ')} from AWS Secrets Manager: ${error instanceof Error ? error.message : String(error)}`,
+            'SecretsManager',
+            'BatchGetSecretValue',
+            error instanceof Error ? error : undefined,
+          );
+        }
+
+        for (const entry of response.SecretValues ?? []) {
+          const secretName = batch.find((name) => name === entry.Name || name === entry.ARN);
+          if (secretName !== undefined) {
+            result.set(secretName, { SecretString: entry.SecretString, SecretBinary: entry.SecretBinary });
+          }
+        }
+
+        const failure = response.Errors?.find((error) => error.ErrorCode !== 'ResourceNotFoundException');
+        if (failure) {
+          throw new AWSServiceError(
+            `Failed to retrieve secret '${failure.SecretId}' from AWS Secrets Manager: ${failure.ErrorCode}: ${failure.Message}`,
+            'SecretsManager',
+            'BatchGetSecretValue',
+          );
+        }
+
+        nextToken = response.NextToken;
+      } while (nextToken);
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a secret into configuration. JSON objects are used as-is; other strings
+   * and binary secrets are returned under the configured value key.
+   * @param payload The secret value
+   * @param prefix Prefix prepended to each key
+   * @returns The configuration, or undefined if the secret is missing or empty
+   */
+  private parseSecret(payload: SecretPayload | undefined, prefix: string = ''): Record<string, unknown> | undefined {
+    const { valueKey, binaryFormat } = this._config;
+    let config: Record<string, unknown>;
+
+    if (payload?.SecretString) {
+      // Try to parse as JSON, fallback to string value
+      try {
+        const parsed = JSON.parse(payload.SecretString);
+
+        // Ensure we return an object for configuration merging
+        config = typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : { [valueKey]: parsed };
+      } catch {
+        // If JSON parsing fails, treat as a single string value
+        config = { [valueKey]: payload.SecretString };
+      }
+    } else if (payload?.SecretBinary) {
+      const buffer = Buffer.from(payload.SecretBinary);
+      config = { [valueKey]: binaryFormat === 'buffer' ? buffer : buffer.toString('base64') };
+    } else {
+      return undefined;
+    }
+
+    return prefix ? Object.fromEntries(Object.entries(config).map(([key, value]) => [`${prefix}${key}`, value])) : config;
+  }
+
+  /**
+   * Resolve a secret to a source with its environment-aware name and version.
+   * @param entry A secret name or SecretSource
+   * @returns The source to fetch
+   */
+  private resolveSecretSource(entry: string | SecretSource): SecretSource {
+    const source = typeof entry === 'string' ? { secretName: entry } : entry;
+    const rotation = source.rotation ?? this._config.rotation;
+    const pinned = source.versionStage !== undefined || source.versionId !== undefined;
+    return {
+      ...source,
+      secretName: source.secretName.startsWith('arn:')
+        ? source.secretName
+        : `${this.buildEnvironmentPrefix()}${source.secretName}`,
+      versionStage: rotation ? undefined : pinned ? source.versionStage : this._config.versionStage,
+      versionId: rotation ? undefined : pinned ? source.versionId : this._config.versionId,
+      rotation,
+    };
+  }
+
   /**
    * Build the environment-aware secret name/path.
    * @returns The full secret name with environment prefix
    */
   buildSecretName(): string {
+    return `${this.buildEnvironmentPrefix()}${this._config.secretName}`;
+  }
+
+  /**
+   * Build the environment prefix secret names are resolved under.
+   * @returns The environment prefix, e.g. '/prod'
+   * @throws ConfigurationLoadError if no environment mapping found
+   */
+  private buildEnvironmentPrefix(): string {
     const envPrefix = this._config.environmentMapping[this._appEnv];
 
     if (!envPrefix) {
@@ -182,7 +422,7 @@ export class SecretsManagerLoader implements ConfigLoader {
       );
     }
 
-    return `/${envPrefix}${this._config.secretName}`;
+    return `/${envPrefix}`;
   }
 
   /**
@@ -1,7 +1,7 @@
 /**
  * Unit tests for SSMParameterStoreLoader
  *
- * Tests pagination, parameter transformation, and error handling.
+ * Tests pagination, parameter transformation, key styles, metadata, explicit parameter names, and error handling.
  * **Validates: Requirements 1.1, 1.5**
  */
 
@@ -19,6 +19,8 @@ jest.mock('@aws-sdk/client-ssm', () => {
       },
     })),
     GetParametersByPathCommand: jest.fn().mockImplementation((input) => input),
+    GetParameterCommand: jest.fn().mockImplementation((input) => input),
+    GetParametersCommand: jest.fn().mockImplementation((input) => input),
     __mockSend: mockSend,
   };
 });
@@ -66,6 +68,27 @@ describe('SSMParameterStoreLoader', () => {
   });
 
 
+  describe('getKind / getOptions', () => {
+    it('should return a stable kind regardless of parameter path', () => {
+      const loader = new SSMParameterStoreLoader({
+        parameterPath: '/my-app/config',
+        environmentMapping: { production: 'prod' },
+      });
+
+      expect(loader.getKind()).toBe('SSMParameterStoreLoader');
+    });
+
+    it('should expose id and priority options', () => {
+      const loader = new SSMParameterStoreLoader({
+        parameterPath: '/my-app/config',
+        id: 'app-params',
+        priority: 5,
+      });
+
+      expect(loader.getOptions()).toEqual({ id: 'app-params', priority: 5 });
+    });
+  });
+
   describe('getName', () => {
     it('should return loader name with parameter path', () => {
       const loader = new SSMParameterStoreLoader({
@@ -293,6 +316,167 @@ describe('SSMParameterStoreLoader', () => {
     });
   });
 
+  describe('key styles', () => {
+    const parameters = [
+      { Name: '/prod/config-aws/database/host', Value: 'db.internal', Type: 'String', Version: 3 },
+      { Name: '/prod/config-aws/database/password', Value: 'secret', Type: 'SecureString', Version: 1 },
+      { Name: '/prod/config-aws/allowed/origins', Value: 'a.com,b.com', Type: 'StringList', Version: 2 },
+    ];
+
+    it('should keep StringList parameters as strings in flat mode', async () => {
+      getMockSend().mockResolvedValueOnce({ Parameters: parameters });
+
+      const loader = new SSMParameterStoreLoader({ environmentMapping: { production: 'prod' } });
+
+      expect(await loader.load()).toEqual({
+        DATABASE_HOST: 'db.internal',
+        DATABASE_PASSWORD: 'secret',
+        ALLOWED_ORIGINS: 'a.com,b.com',
+      });
+    });
+
+    it('should build nested objects and split StringList parameters in nested mode', async () => {
+      getMockSend().mockResolvedValueOnce({ Parameters: parameters });
+
+      const loader = new SSMParameterStoreLoader({ environmentMapping: { production: 'prod' }, keyStyle: 'nested' });
+
+      expect(await loader.load()).toEqual({
+        database: { host: 'db.internal', password: 'secret' },
+        allowed: { origins: ['a.com', 'b.com'] },
+      });
+    });
+
+    it('should key parameters by relative path in path mode', async () => {
+      getMockSend().mockResolvedValueOnce({ Parameters: parameters });
+
+      const loader = new SSMParameterStoreLoader({
+        environmentMapping: { production: 'prod' },
+        keyStyle: 'path',
+        stringListAsArray: false,
+      });
+
+      expect(await loader.load()).toEqual({
+        'database/host': 'db.internal',
+        'database/password': 'secret',
+        'allowed/origins': 'a.com,b.com',
+      });
+    });
+
+    it('should fail when a parameter is also the parent of another in nested mode', async () => {
+      getMockSend().mockResolvedValueOnce({
+        Parameters: [
+          { Name: '/prod/config-aws/database', Value: 'x' },
+          { Name: '/prod/config-aws/database/host', Value: 'h' },
+        ],
+      });
+
+      const loader = new SSMParameterStoreLoader({ environmentMapping: { production: 'prod' }, keyStyle: 'nested' });
+
+      await expect(loader.load()).rejects.toThrow(ConfigurationLoadError);
+    });
+
+    it('should record parameter metadata keyed like the configuration', async () => {
+      getMockSend().mockResolvedValueOnce({ Parameters: parameters });
+
+      const loader = new SSMParameterStoreLoader({ environmentMapping: { production: 'prod' }, keyStyle: 'nested' });
+      await loader.load();
+
+      expect(loader.getParameterMetadata()['database.password']).toEqual(
+        expect.objectContaining({ name: '/prod/config-aws/database/password', type: 'SecureString', version: 1 }),
+      );
+      expect(loader.getParameterMetadata()['allowed.origins']?.type).toBe('StringList');
+    });
+  });
+
+
+  describe('parameter names', () => {
+    it('should resolve names under the parameter path and environment prefix, keeping selectors', async () => {
+      const mockSend = getMockSend();
+      mockSend.mockResolvedValueOnce({
+        Parameters: [
+          { Name: '/prod/my-app/database/host', Value: 'db.internal', Version: 4 },
+          { Name: '/prod/my-app/api/key', Value: 'stable-key', Version: 2, Selector: ':stable' },
+          { Name: '/prod/shared/region', Value: 'eu-west-1', Version: 1, Selector: ':1' },
+        ],
+        InvalidParameters: [],
+      });
+
+      const loader = new SSMParameterStoreLoader({
+        parameterPath: '/my-app',
+        environmentMapping: { production: 'prod' },
+        parameterNames: ['database/host', 'api/key:stable', '/shared/region:1'],
+      });
+
+      const result = await loader.load();
+
+      expect(mockSend).toHaveBeenCalledWith({
+        Names: ['/prod/my-app/database/host', '/prod/my-app/api/key:stable', '/prod/shared/region:1'],
+        WithDecryption: true,
+      });
+      expect(result).toEqual({ DATABASE_HOST: 'db.internal', API_KEY: 'stable-key', SHARED_REGION: 'eu-west-1' });
+      expect(loader.getParameterMetadata()['API_KEY']).toEqual(
+        expect.objectContaining({ name: '/prod/my-app/api/key', version: 2, selector: ':stable' }),
+      );
+    });
+
+    it('should fetch names in batches of 10', async () => {
+      const mockSend = getMockSend();
+      mockSend
+        .mockResolvedValueOnce({ Parameters: [] })
+        .mockResolvedValueOnce({ Parameters: [] })
+        .mockResolvedValueOnce({ Parameters: [] });
+      const parameterNames = Array.from({ length: 23 }, (_, index) => `key${index}`);
+
+      const loader = new SSMParameterStoreLoader({ environmentMapping: { production: 'prod' }, parameterNames });
+      await loader.load();
+
+      expect(mockSend).toHaveBeenCalledTimes(3);
+      expect(mockSend.mock.calls.map(([command]) => command.Names.length)).toEqual([10, 10, 3]);
+    });
+
+    it('should fail when listed parameters are missing', async () => {
+      getMockSend().mockResolvedValueOnce({
+        Parameters: [{ Name: '/prod/config-aws/present', Value: 'x' }],
+        InvalidParameters: ['/prod/config-aws/absent', '/prod/config-aws/present:9'],
+      });
+
+      const loader = new SSMParameterStoreLoader({
+        environmentMapping: { production: 'prod' },
+        parameterNames: ['present', 'absent', 'present:9'],
+      });
+
+      const error = await loader.load().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConfigurationLoadError);
+      expect((error as Error).message).toBe('Parameters not found: /prod/config-aws/absent, /prod/config-aws/present:9');
+    });
+
+    it('should skip and report missing parameters when allowMissing is set', async () => {
+      getMockSend().mockResolvedValueOnce({
+        Parameters: [{ Name: '/prod/config-aws/present', Value: 'x' }],
+        InvalidParameters: ['/prod/config-aws/absent'],
+      });
+
+      const loader = new SSMParameterStoreLoader({
+        environmentMapping: { production: 'prod' },
+        parameterNames: ['present', 'absent'],
+        allowMissing: true,
+      });
+
+      expect(await loader.load()).toEqual({ PRESENT: 'x' });
+      expect(loader.getMissingParameters()).toEqual(['/prod/config-aws/absent']);
+    });
+
+    it('should throw AWSServiceError for AccessDeniedException', async () => {
+      const error = new Error('Access denied');
+      error.name = 'AccessDeniedException';
+      getMockSend().mockRejectedValueOnce(error);
+
+      const loader = new SSMParameterStoreLoader({ environmentMapping: { production: 'prod' }, parameterNames: ['key'] });
+
+      await expect(loader.load()).rejects.toThrow(AWSServiceError);
+    });
+  });
 
   describe('error handling', () => {
     it('should return empty object for ResourceNotFoundException', async () => {
@@ -498,4 +682,38 @@ describe('SSMParameterStoreLoader', () => {
       expect(returnedMapping).not.toBe(mapping);
     });
   });
+
+  describe('getParameter', () => {
+    it('should fetch a single decrypted parameter by name', async () => {
+      const mockSend = getMockSend();
+      mockSend.mockResolvedValueOnce({ Parameter: { Name: '/prod/db/password', Value: 's3cret' } });
+
+      const loader = new SSMParameterStoreLoader();
+
+      await expect(loader.getParameter('/prod/db/password')).resolves.toBe('s3cret');
+      expect(mockSend).toHaveBeenCalledWith({ Name: '/prod/db/password', WithDecryption: true });
+    });
+
+    it('should return undefined for ParameterNotFound', async () => {
+      const mockSend = getMockSend();
+      const error = new Error('Parameter not found');
+      error.name = 'ParameterNotFound';
+      mockSend.mockRejectedValueOnce(error);
+
+      const loader = new SSMParameterStoreLoader();
+
+      await expect(loader.getParameter('/prod/missing')).resolves.toBeUndefined();
+    });
+
+    it('should throw AWSServiceError for AccessDeniedException', async () => {
+      const mockSend = getMockSend();
+      const error = new Error('Access denied');
+      error.name = 'AccessDeniedException';
+      mockSend.mockRejectedValueOnce(error);
+
+      const loader = new SSMParameterStoreLoader();
+
+      await expect(loader.getParameter('/prod/db/password')).rejects.toBeInstanceOf(AWSServiceError);
+    });
+  });
 });
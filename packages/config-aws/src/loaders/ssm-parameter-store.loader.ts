@@ -1,13 +1,23 @@
-import { GetParametersByPathCommand, SSMClient } from '@aws-sdk/client-ssm';
+import { GetParameterCommand, GetParametersByPathCommand, GetParametersCommand, SSMClient } from '@aws-sdk/client-ssm';
+import type { Parameter } from '@aws-sdk/client-ssm';
 import { fromNodeProviderChain } from '@aws-sdk/credential-providers';
 
-import type { ConfigLoader } from '../interfaces/config-loader.interface.js';
-import type { SSMParameterStoreLoaderConfig } from '../interfaces/ssm-parameter-store-loader.interface.js';
+import type { ConfigLoader, LoaderOptions } from '../interfaces/config-loader.interface.js';
+import type {
+  SSMParameterMetadata,
+  SSMParameterStoreLoaderConfig,
+} from '../interfaces/ssm-parameter-store-loader.interface.js';
+import { KeyTransformUtil } from '../utils/key-transform.util.js';
+import { pickLoaderOptions } from '../utils/loader-options.util.js';
 import { AWSServiceError, ConfigurationLoadError } from '../errors/index.js';
 
+/** Maximum number of names accepted by a single GetParameters call */
+const GET_PARAMETERS_BATCH_SIZE = 10;
+
 /**
  * Loader that reads configuration from AWS SSM Parameter Store.
- * Supports environment-aware path construction, pagination, and decryption options.
+ * Supports environment-aware path construction, pagination, decryption options,
+ * explicit parameter lists pinned to versions or labels, and flat, nested or path-style keys.
  *
  * @example
  * ```typescript
@@ -26,22 +36,43 @@ import { AWSServiceError, ConfigurationLoadError } from '../errors/index.js';
  *     production: 'prod'
  *   }
  * });
+ *
+ * // Nested keys: /prod/my-app/config/database/host -> { database: { host } }
+ * const loader = new SSMParameterStoreLoader({
+ *   parameterPath: '/my-app/config',
+ *   keyStyle: 'nested'
+ * });
+ *
+ * // Explicit parameters, holding the API key on the 'stable' label
+ * const loader = new SSMParameterStoreLoader({
+ *   parameterPath: '/my-app/config',
+ *   parameterNames: ['database/host', 'api/key:stable', '/shared/region']
+ * });
  * ```
  */
 export class SSMParameterStoreLoader implements ConfigLoader {
   /** @internal */
   protected readonly _client: SSMClient;
   /** @internal */
-  protected readonly _config: Required<SSMParameterStoreLoaderConfig>;
+  protected readonly _config: Required<Omit<SSMParameterStoreLoaderConfig, keyof LoaderOptions>>;
+  /** @internal */
+  protected readonly _loaderOptions: LoaderOptions;
   /** @internal */
   protected readonly _appEnv: string;
+  /** @internal */
+  protected _metadata: Record<string, SSMParameterMetadata> = {};
+  /** @internal */
+  protected _missing: string[] = [];
 
   constructor(config: SSMParameterStoreLoaderConfig = {}) {
+    this._loaderOptions = pickLoaderOptions(config);
     this._appEnv = process.env['APP_ENV'] || process.env['NODE_ENV'] || 'local';
 
     // Set default configuration
     this._config = {
       parameterPath: config.parameterPath || '/config-aws',
+      parameterNames: config.parameterNames ?? [],
+      allowMissing: config.allowMissing ?? false,
       region: config.region || process.env['AWS_REGION'] || 'us-east-1',
       environmentMapping: config.environmentMapping || {
         development: 'dev',
@@ -49,6 +80,8 @@ export class SSMParameterStoreLoader implements ConfigLoader {
         production: 'production',
       },
       withDecryption: config.withDecryption ?? true,
+      keyStyle: config.keyStyle ?? 'flat',
+      stringListAsArray: config.stringListAsArray ?? (config.keyStyle ?? 'flat') !== 'flat',
     };
 
     // Initialize AWS SSM client
@@ -73,6 +106,14 @@ export class SSMParameterStoreLoader implements ConfigLoader {
     }
   }
 
+  getKind(): string {
+    return 'SSMParameterStoreLoader';
+  }
+
+  getOptions(): LoaderOptions {
+    return { ...this._loaderOptions };
+  }
+
   /**
    * Check if this loader is available in the current environment.
    * @returns Promise resolving to true if not in local environment and AWS credentials are available
@@ -94,19 +135,48 @@ export class SSMParameterStoreLoader implements ConfigLoader {
 
   /**
    * Load configuration from AWS SSM Parameter Store.
-   * Implements recursive parameter fetching with NextToken handling for pagination.
+   * Implements recursive parameter fetching with NextToken handling for pagination,
+   * or batched GetParameters calls when parameterNames is set.
    * @returns Promise resolving to configuration key-value pairs from parameters
    * @throws AWSServiceError if AWS operation fails
-   * @throws ConfigurationLoadError if parameter path cannot be constructed
+   * @throws ConfigurationLoadError if parameter path cannot be constructed, if listed parameters
+   * are missing, or if nested keys conflict
    */
   async load(): Promise<Record<string, unknown>> {
+    this._metadata = {};
+    this._missing = [];
+
     // Skip loading in local environment
     if (this._appEnv === 'local') {
       return {};
     }
 
     const parameterPath = this.buildParameterPath();
-    const result: Record<string, string> = {};
+    const parameters =
+      this._config.parameterNames.length > 0
+        ? await this.fetchParametersByName(parameterPath)
+        : await this.fetchParametersByPath(parameterPath);
+
+    return this.buildConfig(parameters, parameterPath);
+  }
+
+  /**
+   * Get the parameterNames that did not exist in the last load().
+   * Only non-empty when allowMissing is set, as missing parameters otherwise fail the load.
+   * @returns The full names, including any version or label selector
+   */
+  getMissingParameters(): string[] {
+    return [...this._missing];
+  }
+
+  /**
+   * Fetch all parameters under a path, following NextToken pagination.
+   * @param parameterPath The environment-aware parameter path
+   * @returns The parameters found, or an empty list if the path does not exist
+   * @throws AWSServiceError if AWS operation fails
+   */
+  private async fetchParametersByPath(parameterPath: string): Promise<Parameter[]> {
+    const parameters: Parameter[] = [];
     let nextToken: string | undefined;
 
     try {
@@ -125,25 +195,15 @@ export class SSMParameterStoreLoader implements ConfigLoader {
           break;
         }
 
-        // Process each parameter
-        for (const param of response.Parameters) {
-          const key = this.transformParameterName(param.Name, parameterPath);
-
-          if (key && param.Value !== undefined) {
-            result[key] = param.Value;
-          }
-        }
-
+        parameters.push(...response.Parameters);
         nextToken = response.NextToken;
       } while (nextToken);
-
-      return result;
     } catch (error) {
       // Handle specific AWS errors
       if (error instanceof Error) {
         if (error.name === 'ResourceNotFoundException' || error.name === 'ParameterNotFound') {
           // No parameters found at path - this is not necessarily an error
-          return {};
+          return [];
         }
 
         if (error.name === 'AccessDeniedException') {
@@ -173,8 +233,110 @@ export class SSMParameterStoreLoader implements ConfigLoader {
         error instanceof Error ? error : undefined,
       );
     }
+
+    return parameters;
+  }
+
+  /**
+   * Fetch the configured parameterNames with GetParameters, in batches of 10.
+   * @param parameterPath The environment-aware parameter path relative names are resolved against
+   * @returns The parameters found
+   * @throws AWSServiceError if AWS operation fails
+   * @throws ConfigurationLoadError if parameters are missing and allowMissing is not set
+   */
+  private async fetchParametersByName(parameterPath: string): Promise<Parameter[]> {
+    const names = [...new Set(this._config.parameterNames.map((entry) => this.resolveParameterName(entry, parameterPath)))];
+    const parameters: Parameter[] = [];
+    const missing: string[] = [];
+
+    for (let index = 0; index < names.length; index += GET_PARAMETERS_BATCH_SIZE) {
+      const batch = names.slice(index, index + GET_PARAMETERS_BATCH_SIZE);
+
+      try {
+        const command = new GetParametersCommand({
+          Names: batch,
+          WithDecryption: this._config.withDecryption,
+        });
+
+        const response = await this._client.send(command);
+        parameters.push(...(response.Parameters ?? []));
+        missing.push(...(response.InvalidParameters ?? []));
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AccessDeniedException') {
+          throw new AWSServiceError(
+            `Access denied when retrieving parameters ${batch.join(', ')}. Check AWS credentials and permissions.`,
+            'SSM',
+            'GetParameters',
+            error,
+          );
+        }
+
+        throw new AWSServiceError(
+          `Failed to retrieve parameters ${batch.join(', ')} from AWS SSM Parameter Store: ${error instanceof Error ? error.message : String(error)}`,
+          'SSM',
+          'GetParameters',
+          error instanceof Error ? error : undefined,
+        );
+      }
+    }
+
+    this._missing = missing;
+    if (missing.length > 0 && !this._config.allowMissing) {
+      throw new ConfigurationLoadError(`Parameters not found: ${missing.join(', ')}`, this.getName());
+    }
+
+    return parameters;
   }
 
+  /**
+   * Get the metadata of the parameters returned by the last load().
+   * Keyed like the configuration, with nested keys as dotted paths (e.g. 'database.host').
+   * @returns The parameter metadata by key
+   */
+  getParameterMetadata(): Record<string, SSMParameterMetadata> {
+    return { ...this._metadata };
+  }
+
+  /**
+   * Fetch a single parameter by its full name, decrypting SecureString values.
+   * Used to resolve `ssm:` secret references.
+   * @param name The full parameter name (e.g. '/prod/db/password')
+   * @returns Promise resolving to the parameter value, or undefined if the parameter does not exist
+   * @throws AWSServiceError if AWS operation fails
+   */
+  async getParameter(name: string): Promise<string | undefined> {
+    try {
+      const command = new GetParameterCommand({
+        Name: name,
+        WithDecryption: this._config.withDecryption,
+      });
+
+      const response = await this._client.send(command);
+      return response.Parameter?.Value;
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.name === 'ParameterNotFound' || error.name === 'ParameterVersionNotFound') {
+          return undefined;
+        }
+
+        if (error.name === 'AccessDeniedException') {
+          throw new AWSServiceError(
+            `Access denied when retrieving parameter '${name}'. Check AWS credentials and permissions.`,
+            'SSM',
+            'GetParameter',
+            error,
+          );
+        }
+      }
+
+      throw new AWSServiceError(
+        `Failed to retrieve parameter '${name}' from AWS SSM Parameter Store: ${error instanceof Error ? error.message : String(error)}`,
+        'SSM',
+        'GetParameter',
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
 
   /**
    * Build the environment-aware parameter path.
@@ -182,6 +344,15 @@ export class SSMParameterStoreLoader implements ConfigLoader {
    * @throws ConfigurationLoadError if no environment mapping found
    */
   buildParameterPath(): string {
+    return `${this.buildEnvironmentRoot()}${this._config.parameterPath}`;
+  }
+
+  /**
+   * Build the environment prefix all parameter names are resolved under.
+   * @returns The environment prefix, e.g. '/prod'
+   * @throws ConfigurationLoadError if no environment mapping found
+   */
+  private buildEnvironmentRoot(): string {
     const envPrefix = this._config.environmentMapping[this._appEnv];
 
     if (!envPrefix) {
@@ -192,25 +363,85 @@ export class SSMParameterStoreLoader implements ConfigLoader {
       );
     }
 
-    return `/${envPrefix}${this._config.parameterPath}`;
+    return `/${envPrefix}`;
+  }
+
+  /**
+   * Resolve a parameterNames entry to the full name passed to GetParameters.
+   * Example: 'api/key:stable' under '/prod/my-app' -> '/prod/my-app/api/key:stable'
+   * @param entry The configured name, optionally with a ':version' or ':label' selector
+   * @param parameterPath The environment-aware parameter path
+   * @returns The full parameter name with its selector
+   */
+  private resolveParameterName(entry: string, parameterPath: string): string {
+    return entry.startsWith('/') ? `${this.buildEnvironmentRoot()}${entry}` : `${parameterPath}/${entry}`;
   }
 
   /**
-   * Transform parameter name by removing the prefix and converting to uppercase.
-   * Example: '/dev/config-aws/database/host' -> 'DATABASE_HOST'
+   * Turn the fetched parameters into configuration, recording their metadata.
+   * @param parameters The parameters returned by SSM
+   * @param parameterPath The path the parameters were fetched from
+   * @returns The configuration in the configured key style
+   * @throws ConfigurationLoadError if a nested key is both a value and an object
+   */
+  private buildConfig(parameters: Parameter[], parameterPath: string): Record<string, unknown> {
+    const { keyStyle, stringListAsArray } = this._config;
+    const values: Record<string, unknown> = {};
+
+    for (const param of parameters) {
+      const relativePath = this.toRelativePath(param.Name, parameterPath, this.buildEnvironmentRoot());
+      if (!relativePath || param.Value === undefined) {
+        continue;
+      }
+
+      const key = keyStyle === 'flat' ? relativePath.replace(/\//g, '_').toUpperCase() : relativePath;
+      values[key] = param.Type === 'StringList' && stringListAsArray ? param.Value.split(',') : param.Value;
+      this._metadata[keyStyle === 'nested' ? relativePath.replace(/\//g, '.') : key] = {
+        name: param.Name!,
+        type: param.Type,
+        version: param.Version,
+        dataType: param.DataType,
+        lastModifiedDate: param.LastModifiedDate,
+        arn: param.ARN,
+        selector: param.Selector,
+      };
+    }
+
+    if (keyStyle !== 'nested') {
+      return values;
+    }
+
+    try {
+      return KeyTransformUtil.transform(values, { nest: '/' });
+    } catch (error) {
+      throw new ConfigurationLoadError(
+        `Cannot nest parameters under '${parameterPath}': ${error instanceof Error ? error.message : String(error)}`,
+        this.getName(),
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+
+  /**
+   * Get a parameter name relative to the parameter path, without leading slash.
+   * Parameters outside the path are made relative to the environment prefix.
+   * Example: '/dev/config-aws/database/host' -> 'database/host', '/dev/shared/region' -> 'shared/region'
    * @param parameterName The full parameter name from AWS
    * @param pathPrefix The path prefix to remove
-   * @returns The transformed parameter name or null if invalid
+   * @param rootPrefix The environment prefix to remove from parameters outside the path
+   * @returns The relative name, or null if it is empty
    */
-  private transformParameterName(parameterName: string | undefined, pathPrefix: string): string | null {
+  private toRelativePath(parameterName: string | undefined, pathPrefix: string, rootPrefix: string): string | null {
     if (!parameterName) {
       return null;
     }
 
-    // Remove the path prefix
+    // Remove the path prefix, or the environment prefix for parameters outside the path
     let key = parameterName;
     if (key.startsWith(pathPrefix)) {
       key = key.substring(pathPrefix.length);
+    } else if (key.startsWith(`${rootPrefix}/`)) {
+      key = key.substring(rootPrefix.length);
     }
 
     // Remove leading slash if present
@@ -218,9 +449,6 @@ export class SSMParameterStoreLoader implements ConfigLoader {
       key = key.substring(1);
     }
 
-    // Convert slashes to underscores and uppercase
-    key = key.replace(/\//g, '_').toUpperCase();
-
     // Return null for empty keys
     return key || null;
   }
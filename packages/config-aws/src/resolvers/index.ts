@@ -0,0 +1,2 @@
+export { SecretReferenceResolver } from './secret-reference.resolver.js';
+export { KmsValueResolver } from './kms-value.resolver.js';
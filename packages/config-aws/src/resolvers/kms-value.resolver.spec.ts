@@ -0,0 +1,211 @@
+/**
+ * Unit tests for KmsValueResolver
+ *
+ * Tests encrypted value detection, decryption through a stubbed KMS client, concurrency, caching and error reporting,
+ * and that the package loads without the optional @aws-sdk/client-kms peer.
+ */
+
+import type { KMSClient } from '@aws-sdk/client-kms';
+import { KmsValueResolver } from './kms-value.resolver';
+import { AWSServiceError, ConfigurationLoadError } from '../errors';
+import { EnvFileParser } from '../utils/env-file-parser.util';
+
+type DecryptInput = { CiphertextBlob: Uint8Array; KeyId?: string; EncryptionContext?: Record<string, string> };
+
+/** Fake ciphertext: the base64 of 'cipher:<plaintext>' */
+const encrypt = (plaintext: string) => `kms:${Buffer.from(`cipher:${plaintext}`).toString('base64')}`;
+
+/**
+ * Stub KMS client that "decrypts" the ciphertexts produced by encrypt()
+ */
+const createClient = () => {
+  const send = jest.fn(async (command: { input: DecryptInput }) => {
+    const blob = Buffer.from(command.input.CiphertextBlob).toString('utf-8');
+    if (!blob.startsWith('cipher:')) {
+      throw Object.assign(new Error('The ciphertext is invalid'), { name: 'InvalidCiphertextException' });
+    }
+    return { Plaintext: new Uint8Array(Buffer.from(blob.slice('cipher:'.length))) };
+  });
+  return { send, client: { send } as unknown as Pick<KMSClient, 'send'> };
+};
+
+describe('KmsValueResolver', () => {
+  describe('isEncrypted', () => {
+    it('should detect values with the prefix', () => {
+      expect(KmsValueResolver.isEncrypted('kms:AQICAHh=')).toBe(true);
+      expect(KmsValueResolver.isEncrypted('enc:AQICAHh=', 'enc:')).toBe(true);
+      expect(KmsValueResolver.isEncrypted('kms:')).toBe(false);
+      expect(KmsValueResolver.isEncrypted('plain')).toBe(false);
+      expect(KmsValueResolver.isEncrypted(42)).toBe(false);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should decrypt encrypted values and report their paths', async () => {
+      const { client } = createClient();
+      const resolver = new KmsValueResolver({ client });
+
+      const result = await resolver.resolve({
+        DB_PASSWORD: encrypt('db-secret'),
+        database: { host: 'db', password: encrypt('nested-secret') },
+        TOKENS: [encrypt('a'), 'plain'],
+        PORT: 3000,
+      });
+
+      expect(result.config).toEqual({
+        DB_PASSWORD: 'db-secret',
+        database: { host: 'db', password: 'nested-secret' },
+        TOKENS: ['a', 'plain'],
+        PORT: 3000,
+      });
+      expect(result.decryptedKeys).toEqual(['DB_PASSWORD', 'database.password', 'TOKENS']);
+    });
+
+    it('should decrypt values read from .env files', async () => {
+      const { client } = createClient();
+      const resolver = new KmsValueResolver({ client });
+      const env = EnvFileParser.parse(`API_KEY=${encrypt('api-key-value')}\nDEBUG=true\n`);
+
+      const result = await resolver.resolve(env);
+
+      expect(result.config).toEqual({ API_KEY: 'api-key-value', DEBUG: 'true' });
+    });
+
+    it('should send the key id and encryption context', async () => {
+      const { send, client } = createClient();
+      const resolver = new KmsValueResolver({
+        client,
+        keyId: 'alias/config',
+        encryptionContext: { app: 'billing' },
+      });
+
+      await resolver.resolve({ SECRET: encrypt('value') });
+
+      const input = send.mock.calls[0]![0].input;
+      expect(Buffer.from(input.CiphertextBlob).toString('utf-8')).toBe('cipher:value');
+      expect(input.KeyId).toBe('alias/config');
+      expect(input.EncryptionContext).toEqual({ app: 'billing' });
+    });
+
+    it('should decrypt each ciphertext once per call', async () => {
+      const { send, client } = createClient();
+      const resolver = new KmsValueResolver({ client });
+
+      await resolver.resolve({ A: encrypt('shared'), B: encrypt('shared'), C: encrypt('other') });
+
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should decrypt values concurrently', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const send = jest.fn(async (command: { input: DecryptInput }) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        inFlight--;
+        const blob = Buffer.from(command.input.CiphertextBlob).toString('utf-8');
+        return { Plaintext: new Uint8Array(Buffer.from(blob.slice('cipher:'.length))) };
+      });
+      const resolver = new KmsValueResolver({ client: { send } as unknown as Pick<KMSClient, 'send'> });
+
+      const result = await resolver.resolve({
+        A: encrypt('a'),
+        database: { password: encrypt('b') },
+        TOKENS: [encrypt('c'), encrypt('d')],
+      });
+
+      expect(maxInFlight).toBe(4);
+      expect(result.config).toEqual({ A: 'a', database: { password: 'b' }, TOKENS: ['c', 'd'] });
+      expect(result.decryptedKeys).toEqual(['A', 'database.password', 'TOKENS']);
+    });
+
+    it('should use a custom prefix', async () => {
+      const { client } = createClient();
+      const resolver = new KmsValueResolver({ client, prefix: 'enc:' });
+
+      const result = await resolver.resolve({ A: encrypt('x').replace(/^kms:/, 'enc:'), B: encrypt('y') });
+
+      expect(result.config['A']).toBe('x');
+      expect(result.config['B']).toBe(encrypt('y'));
+      expect(result.decryptedKeys).toEqual(['A']);
+    });
+
+    it('should reject values that are not base64', async () => {
+      const { send, client } = createClient();
+      const resolver = new KmsValueResolver({ client });
+
+      const origins = { SECRET: 'EnvironmentLoader' };
+      const error = await resolver.resolve({ SECRET: 'kms:not base64!' }, origins).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConfigurationLoadError);
+      expect(error.message).toContain("'SECRET' (from EnvironmentLoader) is not valid base64");
+      expect(error.loader).toBe('EnvironmentLoader');
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should name the key and loader when KMS rejects a ciphertext', async () => {
+      const { client } = createClient();
+      const resolver = new KmsValueResolver({ client });
+      const ciphertext = `kms:${Buffer.from('tampered').toString('base64')}`;
+
+      const error = await resolver
+        .resolve({ SECRET: ciphertext }, { SECRET: 'S3Loader(s3://cfg/app.json)' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConfigurationLoadError);
+      expect(error.message).toContain("Failed to decrypt 'SECRET' (from S3Loader(s3://cfg/app.json))");
+      expect(error.message).toContain('rejected the ciphertext');
+      expect(error.cause).toBeInstanceOf(AWSServiceError);
+      expect(error.cause.service).toBe('KMS');
+      expect(error.cause.operation).toBe('Decrypt');
+    });
+  });
+
+  describe('decrypt', () => {
+    it('should wrap access denied errors', async () => {
+      const send = jest.fn().mockRejectedValue(Object.assign(new Error('denied'), { name: 'AccessDeniedException' }));
+      const resolver = new KmsValueResolver({ client: { send } as unknown as Pick<KMSClient, 'send'> });
+
+      const error = await resolver.decrypt('AQID').catch((e) => e);
+
+      expect(error).toBeInstanceOf(AWSServiceError);
+      expect(error.message).toContain('kms:Decrypt');
+    });
+
+    it('should fail when KMS returns no plaintext', async () => {
+      const send = jest.fn().mockResolvedValue({});
+      const resolver = new KmsValueResolver({ client: { send } as unknown as Pick<KMSClient, 'send'> });
+
+      await expect(resolver.decrypt('AQID')).rejects.toThrow('KMS returned no plaintext');
+    });
+  });
+
+  describe('without @aws-sdk/client-kms', () => {
+    beforeEach(() => {
+      jest.doMock('@aws-sdk/client-kms', () => {
+        throw new Error("Cannot find module '@aws-sdk/client-kms'");
+      });
+    });
+
+    afterEach(() => {
+      jest.dontMock('@aws-sdk/client-kms');
+    });
+
+    it('should load the package entry point and fail only when a value is decrypted', async () => {
+      await jest.isolateModulesAsync(async () => {
+        const entry = await import('../index');
+
+        const manager = new entry.ConfigManager({ loaders: [] });
+        await expect(manager.load()).resolves.toBeUndefined();
+
+        const resolver = new entry.KmsValueResolver({ client: createClient().client });
+        const error = await resolver.resolve({ SECRET: encrypt('value') }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(entry.ConfigurationLoadError);
+        expect(error.message).toContain('requires @aws-sdk/client-kms');
+        expect(error.cause).toBeInstanceOf(entry.ConfigurationError);
+      });
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import type * as ClientKms from '@aws-sdk/client-kms';
+import type { KMSClient } from '@aws-sdk/client-kms';
+import { fromNodeProviderChain } from '@aws-sdk/credential-providers';
+
+import { AWSServiceError, ConfigurationError, ConfigurationLoadError } from '../errors/index.js';
+import type { KmsDecryptionOptions, KmsDecryptionResult } from '../interfaces/kms-decryption.interface.js';
+import { ConfigMergeUtil } from '../utils/merge.util.js';
+
+const RESOLVER_NAME = 'KmsValueResolver';
+
+/** Base64 as produced by the KMS Encrypt API and the AWS CLI */
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+let clientKms: Promise<typeof ClientKms> | undefined;
+
+/**
+ * Import @aws-sdk/client-kms on first use.
+ * It is an optional peer dependency, so the package must load without it when decryption is off.
+ */
+const loadClientKms = (): Promise<typeof ClientKms> => {
+  clientKms ??= import('@aws-sdk/client-kms').catch((error: unknown) => {
+    clientKms = undefined;
+    throw new ConfigurationError(
+      'Decrypting KMS-encrypted values requires @aws-sdk/client-kms. Install it with: npm install @aws-sdk/client-kms',
+      error instanceof Error ? error : undefined,
+    );
+  });
+  return clientKms;
+};
+
+/**
+ * Decrypts configuration values encrypted with AWS KMS.
+ *
+ * A value is encrypted when it is the prefix (default `kms:`) followed by the base64
+ * ciphertext blob returned by KMS Encrypt, e.g. `kms:AQICAHh...`. The plaintext must be UTF-8.
+ * Encrypted values can then be committed to repositories and task definitions, and
+ * only principals allowed to call kms:Decrypt can read them.
+ *
+ * Requires the optional peer dependency @aws-sdk/client-kms, which is imported on the first decryption.
+ *
+ * @example
+ * ```typescript
+ * const resolver = new KmsValueResolver({ region: 'eu-west-1' });
+ * const { config, decryptedKeys } = await resolver.resolve({ DB_PASSWORD: 'kms:AQICAHh...' });
+ *
+ * // With a stubbed client in tests
+ * const resolver = new KmsValueResolver({ client: { send: async () => ({ Plaintext: Buffer.from('s3cret') }) } });
+ * ```
+ */
+export class KmsValueResolver {
+  /** @internal */
+  protected _client: Pick<KMSClient, 'send'> | undefined;
+  /** @internal */
+  protected readonly _config: Required<Pick<KmsDecryptionOptions, 'region' | 'prefix'>> &
+    Pick<KmsDecryptionOptions, 'keyId' | 'encryptionContext'>;
+
+  constructor(options: KmsDecryptionOptions = {}) {
+    this._config = {
+      region: options.region || process.env['AWS_REGION'] || 'us-east-1',
+      prefix: options.prefix ?? 'kms:',
+      keyId: options.keyId,
+      encryptionContext: options.encryptionContext,
+    };
+
+    this._client = options.client;
+  }
+
+  /**
+   * Check whether a value is encrypted.
+   * @param value The configuration value
+   * @param prefix The marker that identifies encrypted values. Default: 'kms:'
+   * @returns true if the value is a string starting with the prefix
+   */
+  static isEncrypted(value: unknown, prefix = 'kms:'): value is string {
+    return typeof value === 'string' && value.length > prefix.length && value.startsWith(prefix);
+  }
+
+  /**
+   * Replace every encrypted value in a configuration object with its plaintext.
+   * Values nested in objects and arrays are decrypted too. Values are decrypted concurrently, and each
+   * distinct ciphertext is decrypted once per call.
+   * @param config The configuration object
+   * @param origins Optional map of top-level key to the name of the loader that supplied it, used in error messages
+   * @returns The decrypted configuration and the paths of the values that were decrypted
+   * @throws ConfigurationLoadError if a value is not valid base64 or KMS cannot decrypt it
+   */
+  async resolve(config: Record<string, unknown>, origins: Record<string, string> = {}): Promise<KmsDecryptionResult> {
+    const cache = new Map<string, Promise<string>>();
+    const decryptedKeys = new Set<string>();
+    const entries = await Promise.all(
+      Object.entries(config).map(async ([key, value]) => {
+        return [key, await this.resolveValue(value, key, origins[key], cache, decryptedKeys)] as const;
+      }),
+    );
+
+    return { config: Object.fromEntries(entries), decryptedKeys: [...decryptedKeys] };
+  }
+
+  /**
+   * Decrypt a base64 ciphertext blob, without the prefix.
+   * @param ciphertext The base64 ciphertext blob
+   * @returns The UTF-8 plaintext
+   * @throws ConfigurationError if @aws-sdk/client-kms is not installed
+   * @throws AWSServiceError if the KMS Decrypt call fails
+   */
+  async decrypt(ciphertext: string): Promise<string> {
+    const { DecryptCommand, KMSClient } = await loadClientKms();
+    this._client ??= new KMSClient({
+      credentials: fromNodeProviderChain(),
+      region: this._config.region,
+    });
+
+    try {
+      const command = new DecryptCommand({
+        CiphertextBlob: Buffer.from(ciphertext, 'base64'),
+        KeyId: this._config.keyId,
+        EncryptionContext: this._config.encryptionContext,
+      });
+      const response = await this._client.send(command);
+
+      if (!response.Plaintext) {
+        throw new Error('KMS returned no plaintext');
+      }
+      return Buffer.from(response.Plaintext).toString('utf-8');
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AccessDeniedException') {
+        throw new AWSServiceError(
+          'Access denied when decrypting with AWS KMS. Check that the credentials allow kms:Decrypt on the key.',
+          'KMS',
+          'Decrypt',
+          error,
+        );
+      }
+
+      const rejected = ['InvalidCiphertextException', 'IncorrectKeyException'];
+      if (error instanceof Error && rejected.includes(error.name)) {
+        throw new AWSServiceError(
+          'AWS KMS rejected the ciphertext. Check that it was encrypted with the expected key and encryption context.',
+          'KMS',
+          'Decrypt',
+          error,
+        );
+      }
+
+      throw new AWSServiceError(
+        `Failed to decrypt with AWS KMS: ${error instanceof Error ? error.message : String(error)}`,
+        'KMS',
+        'Decrypt',
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+
+  /**
+   * Decrypt a single value, recursing into arrays and plain objects.
+   */
+  private async resolveValue(
+    value: unknown,
+    key: string,
+    loader: string | undefined,
+    cache: Map<string, Promise<string>>,
+    decryptedKeys: Set<string>,
+  ): Promise<unknown> {
+    if (Array.isArray(value)) {
+      return Promise.all(value.map((item) => this.resolveValue(item, key, loader, cache, decryptedKeys)));
+    }
+
+    if (ConfigMergeUtil.isPlainObject(value)) {
+      const entries = await Promise.all(
+        Object.entries(value).map(async ([childKey, item]) => {
+          return [childKey, await this.resolveValue(item, `${key}.${childKey}`, loader, cache, decryptedKeys)] as const;
+        }),
+      );
+      return Object.fromEntries(entries);
+    }
+
+    if (!KmsValueResolver.isEncrypted(value, this._config.prefix)) {
+      return value;
+    }
+
+    const from = loader ? ` (from ${loader})` : '';
+    const ciphertext = value.slice(this._config.prefix.length).trim();
+    if (ciphertext.length % 4 !== 0 || !BASE64_PATTERN.test(ciphertext)) {
+      throw new ConfigurationLoadError(
+        `Encrypted value in '${key}'${from} is not valid base64 after '${this._config.prefix}'`,
+        loader ?? RESOLVER_NAME,
+      );
+    }
+
+    let pending = cache.get(ciphertext);
+    if (!pending) {
+      pending = this.decrypt(ciphertext);
+      cache.set(ciphertext, pending);
+    }
+
+    // Recorded before awaiting so the keys keep configuration order; a failure rejects the whole resolve()
+    decryptedKeys.add(key);
+    try {
+      return await pending;
+    } catch (error) {
+      throw new ConfigurationLoadError(
+        `Failed to decrypt '${key}'${from}: ${error instanceof Error ? error.message : String(error)}`,
+        loader ?? RESOLVER_NAME,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for SecretReferenceResolver
+ *
+ * Tests reference parsing, resolution through loaders, caching and error reporting.
+ */
+
+import { SecretReferenceResolver } from './secret-reference.resolver';
+import { AWSServiceError, ConfigurationLoadError } from '../errors';
+
+const createLoaders = () => ({
+  ssm: { getParameter: jest.fn(async (name: string) => (name === '/prod/db/password' ? 'db-secret' : undefined)) },
+  secretsManager: {
+    getSecretString: jest.fn(async (secretId: string) =>
+      secretId === 'prod/api' ? JSON.stringify({ key: 'api-key', port: 8443 }) : undefined,
+    ),
+  },
+  s3: {
+    getObjectContent: jest.fn(async (bucket: string, key: string) =>
+      bucket === 'secrets' && key === 'tls/cert.pem' ? 'CERT\n' : undefined,
+    ),
+  },
+});
+
+describe('SecretReferenceResolver', () => {
+  describe('parse', () => {
+    it('should parse each reference type', () => {
+      expect(SecretReferenceResolver.parse('ssm:/prod/db/password')).toEqual({
+        type: 'ssm',
+        reference: 'ssm:/prod/db/password',
+        name: '/prod/db/password',
+      });
+      expect(
+        SecretReferenceResolver.parse('secretsmanager:arn:aws:secretsmanager:eu-west-1:123456789012:secret:app-AbCd#password'),
+      ).toEqual({
+        type: 'secretsmanager',
+        reference: 'secretsmanager:arn:aws:secretsmanager:eu-west-1:123456789012:secret:app-AbCd#password',
+        secretId: 'arn:aws:secretsmanager:eu-west-1:123456789012:secret:app-AbCd',
+        jsonKey: 'password',
+      });
+      expect(SecretReferenceResolver.parse('s3://bucket/path/to/key')).toEqual({
+        type: 's3',
+        reference: 's3://bucket/path/to/key',
+        bucket: 'bucket',
+        key: 'path/to/key',
+      });
+    });
+
+    it('should not treat other values as references', () => {
+      expect(SecretReferenceResolver.parse('https://example.com')).toBeNull();
+      expect(SecretReferenceResolver.parse('ssm:relative')).toBeNull();
+      expect(SecretReferenceResolver.parse('s3://bucket-only')).toBeNull();
+      expect(SecretReferenceResolver.parse('secretsmanager:')).toBeNull();
+      expect(SecretReferenceResolver.parse(42)).toBeNull();
+      expect(SecretReferenceResolver.isReference('plain')).toBe(false);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should replace references with the values they point at', async () => {
+      const resolver = new SecretReferenceResolver(createLoaders());
+
+      const result = await resolver.resolve({
+        DB_PASSWORD: 'ssm:/prod/db/password',
+        API_KEY: 'secretsmanager:prod/api#key',
+        API_PORT: 'secretsmanager:prod/api#port',
+        TLS_CERT: 's3://secrets/tls/cert.pem',
+        nested: { list: ['ssm:/prod/db/password', 'plain'] },
+        PORT: 3000,
+      });
+
+      expect(result).toEqual({
+        DB_PASSWORD: 'db-secret',
+        API_KEY: 'api-key',
+        API_PORT: 8443,
+        TLS_CERT: 'CERT',
+        nested: { list: ['db-secret', 'plain'] },
+        PORT: 3000,
+      });
+    });
+
+    it('should fetch each secret once per resolve call', async () => {
+      const loaders = createLoaders();
+      const resolver = new SecretReferenceResolver(loaders);
+
+      await resolver.resolve({
+        A: 'ssm:/prod/db/password',
+        B: 'ssm:/prod/db/password',
+        C: 'secretsmanager:prod/api#key',
+        D: 'secretsmanager:prod/api#port',
+      });
+      await resolver.resolve({ A: 'ssm:/prod/db/password' });
+
+      expect(loaders.ssm.getParameter).toHaveBeenCalledTimes(2);
+      expect(loaders.secretsManager.getSecretString).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report missing secrets with the key and loader', async () => {
+      const resolver = new SecretReferenceResolver(createLoaders());
+
+      await expect(
+        resolver.resolve({ DB_PASSWORD: 'ssm:/prod/missing' }, { DB_PASSWORD: 'EnvironmentLoader' }),
+      ).rejects.toThrow(
+        new ConfigurationLoadError(
+          "Secret reference 'ssm:/prod/missing' in 'DB_PASSWORD' (from EnvironmentLoader) could not be found",
+          'EnvironmentLoader',
+        ),
+      );
+    });
+
+    it('should report JSON keys missing from the secret', async () => {
+      const resolver = new SecretReferenceResolver(createLoaders());
+
+      await expect(resolver.resolve({ API_KEY: 'secretsmanager:prod/api#missing' })).rejects.toThrow(
+        "Secret reference 'secretsmanager:prod/api#missing' in 'API_KEY' selects key 'missing' which does not exist in the secret",
+      );
+    });
+
+    it('should pass AWS errors from the loader through', async () => {
+      const error = new AWSServiceError('Access denied', 'SSM', 'GetParameter');
+      const resolver = new SecretReferenceResolver({
+        ssm: { getParameter: jest.fn().mockRejectedValue(error) },
+      });
+
+      await expect(resolver.resolve({ DB_PASSWORD: 'ssm:/prod/db/password' })).rejects.toBe(error);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { ConfigurationLoadError } from '../errors/index.js';
+import type { SecretReference, SecretReferenceOptions } from '../interfaces/secret-reference.interface.js';
+import { S3Loader } from '../loaders/s3.loader.js';
+import { SecretsManagerLoader } from '../loaders/secrets-manager.loader.js';
+import { SSMParameterStoreLoader } from '../loaders/ssm-parameter-store.loader.js';
+import { ConfigMergeUtil } from '../utils/merge.util.js';
+
+const RESOLVER_NAME = 'SecretReferenceResolver';
+
+/**
+ * Resolves configuration values that point at secrets stored elsewhere.
+ *
+ * Supported references (the whole value must be the reference):
+ * - `ssm:/prod/db/password` - SSM parameter, decrypted
+ * - `secretsmanager:<name or ARN>` - the secret string
+ * - `secretsmanager:<name or ARN>#jsonKey` - a single key of a JSON secret
+ * - `s3://bucket/key` - the object content, without a trailing newline
+ *
+ * Lookups go through the SSMParameterStoreLoader, SecretsManagerLoader and S3Loader
+ * clients and share their error handling. Each secret is fetched once per resolve() call.
+ *
+ * @example
+ * ```typescript
+ * const resolver = new SecretReferenceResolver({ region: 'eu-west-1' });
+ * const config = await resolver.resolve({ DB_PASSWORD: 'ssm:/prod/db/password' });
+ * ```
+ */
+export class SecretReferenceResolver {
+  /** @internal */
+  protected readonly _region: string;
+  /** @internal */
+  protected readonly _options: SecretReferenceOptions;
+
+  private ssmLoader: Pick<SSMParameterStoreLoader, 'getParameter'> | undefined;
+  private s3Loader: Pick<S3Loader, 'getObjectContent'> | undefined;
+  private readonly secretsManagerLoaders = new Map<string, Pick<SecretsManagerLoader, 'getSecretString'>>();
+
+  constructor(options: SecretReferenceOptions = {}) {
+    this._options = options;
+    this._region = options.region || process.env['AWS_REGION'] || 'us-east-1';
+    this.ssmLoader = options.ssm;
+    this.s3Loader = options.s3;
+  }
+
+  /**
+   * Parse a value as a secret reference.
+   * @param value The configuration value
+   * @returns The parsed reference, or null if the value is not a reference
+   */
+  static parse(value: unknown): SecretReference | null {
+    if (typeof value !== 'string') {
+      return null;
+    }
+
+    if (value.startsWith('ssm:/')) {
+      return { type: 'ssm', reference: value, name: value.slice('ssm:'.length) };
+    }
+
+    if (value.startsWith('secretsmanager:') && value.length > 'secretsmanager:'.length) {
+      const target = value.slice('secretsmanager:'.length);
+      const hashIndex = target.lastIndexOf('#');
+      if (hashIndex === -1) {
+        return { type: 'secretsmanager', reference: value, secretId: target };
+      }
+      return {
+        type: 'secretsmanager',
+        reference: value,
+        secretId: target.slice(0, hashIndex),
+        jsonKey: target.slice(hashIndex + 1),
+      };
+    }
+
+    const s3Match = /^s3:\/\/([^/]+)\/(.+)$/.exec(value);
+    if (s3Match) {
+      return { type: 's3', reference: value, bucket: s3Match[1]!, key: s3Match[2]! };
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether a value is a secret reference.
+   * @param value The configuration value
+   * @returns true if the value is an `ssm:`, `secretsmanager:` or `s3://` reference
+   */
+  static isReference(value: unknown): value is string {
+    return this.parse(value) !== null;
+  }
+
+  /**
+   * Replace every secret reference in a configuration object with the value it points at.
+   * References nested in objects and arrays are resolved too.
+   * @param config The configuration object
+   * @param origins Optional map of top-level key to the name of the loader that supplied it, used in error messages
+   * @returns A new configuration object with references resolved
+   * @throws ConfigurationLoadError if a referenced secret or JSON key does not exist
+   * @throws AWSServiceError if an AWS operation fails
+   */
+  async resolve(
+    config: Record<string, unknown>,
+    origins: Record<string, string> = {},
+  ): Promise<Record<string, unknown>> {
+    const cache = new Map<string, Promise<string | undefined>>();
+    const result: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(config)) {
+      result[key] = await this.resolveValue(value, key, origins[key], cache);
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve a single value, recursing into arrays and plain objects.
+   */
+  private async resolveValue(
+    value: unknown,
+    key: string,
+    loader: string | undefined,
+    cache: Map<string, Promise<string | undefined>>,
+  ): Promise<unknown> {
+    if (Array.isArray(value)) {
+      const resolved: unknown[] = [];
+      for (const item of value) {
+        resolved.push(await this.resolveValue(item, key, loader, cache));
+      }
+      return resolved;
+    }
+
+    if (ConfigMergeUtil.isPlainObject(value)) {
+      const resolved: Record<string, unknown> = {};
+      for (const [childKey, item] of Object.entries(value)) {
+        resolved[childKey] = await this.resolveValue(item, `${key}.${childKey}`, loader, cache);
+      }
+      return resolved;
+    }
+
+    const reference = SecretReferenceResolver.parse(value);
+    if (!reference) {
+      return value;
+    }
+
+    return this.resolveReference(reference, key, loader, cache);
+  }
+
+  /**
+   * Fetch a reference (through the cache) and extract the requested value.
+   */
+  private async resolveReference(
+    reference: SecretReference,
+    key: string,
+    loader: string | undefined,
+    cache: Map<string, Promise<string | undefined>>,
+  ): Promise<unknown> {
+    const source = this.getSourceId(reference);
+    let pending = cache.get(source);
+    if (!pending) {
+      pending = this.fetch(reference);
+      cache.set(source, pending);
+    }
+
+    const content = await pending;
+    const from = loader ? ` (from ${loader})` : '';
+
+    if (content === undefined) {
+      throw new ConfigurationLoadError(
+        `Secret reference '${reference.reference}' in '${key}'${from} could not be found`,
+        loader ?? RESOLVER_NAME,
+      );
+    }
+
+    if (reference.type === 's3') {
+      return content.replace(/\r?\n$/, '');
+    }
+
+    if (reference.type === 'secretsmanager' && reference.jsonKey !== undefined) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(content);
+      } catch (error) {
+        throw new ConfigurationLoadError(
+          `Secret reference '${reference.reference}' in '${key}'${from} selects key '${reference.jsonKey}' but the secret is not JSON`,
+          loader ?? RESOLVER_NAME,
+          error instanceof Error ? error : undefined,
+        );
+      }
+
+      if (!ConfigMergeUtil.isPlainObject(parsed) || !(reference.jsonKey in parsed)) {
+        throw new ConfigurationLoadError(
+          `Secret reference '${reference.reference}' in '${key}'${from} selects key '${reference.jsonKey}' which does not exist in the secret`,
+          loader ?? RESOLVER_NAME,
+        );
+      }
+
+      return parsed[reference.jsonKey];
+    }
+
+    return content;
+  }
+
+  /**
+   * Identify the underlying secret so references to different keys of one secret share a fetch.
+   */
+  private getSourceId(reference: SecretReference): string {
+    switch (reference.type) {
+      case 'ssm':
+        return `ssm:${reference.name}`;
+      case 'secretsmanager':
+        return `secretsmanager:${reference.secretId}`;
+      case 's3':
+        return `s3://${reference.bucket}/${reference.key}`;
+    }
+  }
+
+  /**
+   * Fetch the raw content of a reference with the matching loader.
+   */
+  private fetch(reference: SecretReference): Promise<string | undefined> {
+    switch (reference.type) {
+      case 'ssm':
+        this.ssmLoader ??= new SSMParameterStoreLoader({ region: this._region, withDecryption: true });
+        return this.ssmLoader.getParameter(reference.name);
+      case 'secretsmanager':
+        return this.getSecretsManagerLoader(reference.secretId).getSecretString(reference.secretId);
+      case 's3':
+        this.s3Loader ??= new S3Loader({ bucket: reference.bucket, key: reference.key, region: this._region });
+        return this.s3Loader.getObjectContent(reference.bucket, reference.key);
+    }
+  }
+
+  /**
+   * Get a Secrets Manager loader for the region in the secret ARN, or the default region.
+   */
+  private getSecretsManagerLoader(secretId: string): Pick<SecretsManagerLoader, 'getSecretString'> {
+    if (this._options.secretsManager) {
+      return this._options.secretsManager;
+    }
+
+    const region = /^arn:[^:]+:secretsmanager:([^:]+):/.exec(secretId)?.[1] ?? this._region;
+    let loader = this.secretsManagerLoaders.get(region);
+    if (!loader) {
+      loader = new SecretsManagerLoader({ region });
+      this.secretsManagerLoaders.set(region, loader);
+    }
+    return loader;
+  }
+}
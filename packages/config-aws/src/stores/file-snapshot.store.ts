@@ -0,0 +1,57 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+import type { SnapshotStore } from '../interfaces/snapshot.interface.js';
+
+/**
+ * Snapshot store that keeps the snapshot in a local file.
+ * Writes go to a temporary file that is renamed into place, so a crash never leaves a partial snapshot.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileSnapshotStore('/var/cache/my-app/config.snapshot');
+ * ```
+ */
+export class FileSnapshotStore implements SnapshotStore {
+  /** @internal */
+  protected readonly _path: string;
+
+  constructor(path: string) {
+    this._path = path;
+  }
+
+  /**
+   * Read the snapshot file.
+   * @returns Promise resolving to the file contents, or null if the file does not exist
+   */
+  async read(): Promise<string | null> {
+    try {
+      return await readFile(this._path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write the snapshot file, readable only by the current user.
+   * @param data The snapshot data
+   */
+  async write(data: string): Promise<void> {
+    const tempPath = `${this._path}.${process.pid}.tmp`;
+
+    await mkdir(dirname(this._path), { recursive: true });
+    await writeFile(tempPath, data, { encoding: 'utf8', mode: 0o600 });
+    await rename(tempPath, this._path);
+  }
+
+  /**
+   * Get the path of the snapshot file.
+   * @returns The snapshot file path
+   */
+  getPath(): string {
+    return this._path;
+  }
+}
@@ -0,0 +1 @@
+export { FileSnapshotStore } from './file-snapshot.store.js';
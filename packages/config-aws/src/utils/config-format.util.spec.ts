@@ -0,0 +1,73 @@
+/**
+ * Unit tests for ConfigFormatUtil
+ *
+ * Tests format detection by extension, Content-Type and content, and parsing of each format.
+ */
+
+import { ConfigFormatUtil } from './config-format.util';
+import { ConfigParseError } from '../errors';
+
+describe('ConfigFormatUtil', () => {
+  describe('detect', () => {
+    it.each([
+      ['config/app.yaml', 'yaml'],
+      ['config/APP.YML', 'yaml'],
+      ['config/app.toml', 'toml'],
+      ['config/app.ini', 'ini'],
+      ['config/app.cfg', 'ini'],
+      ['config/app.json', 'json'],
+      ['config/.env', 'env'],
+      ['config/.env.production', 'env'],
+      ['config/app.env', 'env'],
+    ] as const)('should detect %s from its extension', (path, format) => {
+      expect(ConfigFormatUtil.detect('{}', { path, contentType: 'application/json' })).toBe(format);
+    });
+
+    it.each([
+      ['application/x-yaml', 'yaml'],
+      ['text/yaml; charset=utf-8', 'yaml'],
+      ['application/vnd.platform+yaml', 'yaml'],
+      ['application/toml', 'toml'],
+      ['application/json', 'json'],
+      ['application/problem+json', 'json'],
+    ] as const)('should fall back to the Content-Type %s', (contentType, format) => {
+      expect(ConfigFormatUtil.detect('A=1', { path: 'config/app', contentType })).toBe(format);
+    });
+
+    it('should fall back to the content when neither hint is recognized', () => {
+      expect(ConfigFormatUtil.detect('  {"a": 1}', { path: 'config', contentType: 'binary/octet-stream' })).toBe('json');
+      expect(ConfigFormatUtil.detect('A=1')).toBe('env');
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse every format', () => {
+      expect(ConfigFormatUtil.parse('{"a": {"b": 1}}', 'json')).toEqual({ a: { b: 1 } });
+      expect(ConfigFormatUtil.parse('a:\n  b: 1', 'yaml')).toEqual({ a: { b: 1 } });
+      expect(ConfigFormatUtil.parse('[a]\nb = 1', 'toml')).toEqual({ a: { b: 1 } });
+      expect(ConfigFormatUtil.parse('[a]\nb = 1', 'ini')).toEqual({ a: { b: '1' } });
+      expect(ConfigFormatUtil.parse('A=1', 'env')).toEqual({ A: '1' });
+    });
+
+    it('should wrap JSON and YAML values that are not objects', () => {
+      expect(ConfigFormatUtil.parse('[1, 2]', 'json')).toEqual({ CONFIG_VALUE: [1, 2] });
+      expect(ConfigFormatUtil.parse('- 1\n- 2', 'yaml')).toEqual({ CONFIG_VALUE: [1, 2] });
+      expect(ConfigFormatUtil.parse('', 'yaml')).toEqual({});
+    });
+
+    it('should locate JSON errors from the reported position', () => {
+      let error: ConfigParseError | undefined;
+      try {
+        ConfigFormatUtil.parse('{\n  "a": 1,\n}', 'json');
+      } catch (caught) {
+        error = caught as ConfigParseError;
+      }
+
+      expect(error).toBeInstanceOf(ConfigParseError);
+      expect(error?.format).toBe('json');
+      expect(error?.line).toBe(3);
+      expect(error?.column).toBe(1);
+      expect(error?.cause).toBeInstanceOf(SyntaxError);
+    });
+  });
+});
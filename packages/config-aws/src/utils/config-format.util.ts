@@ -0,0 +1,189 @@
+import { ConfigParseError } from '../errors/index.js';
+import type { ConfigFormat, EnvFileSyntax } from '../interfaces/config-loader.interface.js';
+import { EnvFileParser } from './env-file-parser.util.js';
+import { IniParser } from './ini-parser.util.js';
+import { TomlParser } from './toml-parser.util.js';
+import { YamlParser } from './yaml-parser.util.js';
+
+/**
+ * Formats by file extension
+ */
+const EXTENSION_FORMATS: Record<string, ConfigFormat> = {
+  '.json': 'json',
+  '.env': 'env',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+  '.ini': 'ini',
+  '.cfg': 'ini',
+};
+
+/**
+ * Formats by media type, without parameters
+ */
+const CONTENT_TYPE_FORMATS: Record<string, ConfigFormat> = {
+  'application/json': 'json',
+  'text/json': 'json',
+  'application/yaml': 'yaml',
+  'application/x-yaml': 'yaml',
+  'text/yaml': 'yaml',
+  'text/x-yaml': 'yaml',
+  'application/toml': 'toml',
+  'text/toml': 'toml',
+  'text/x-toml': 'toml',
+};
+
+/**
+ * Display names used in error messages
+ */
+const FORMAT_NAMES: Record<ConfigFormat, string> = {
+  json: 'JSON',
+  env: 'env',
+  yaml: 'YAML',
+  toml: 'TOML',
+  ini: 'INI',
+};
+
+/**
+ * Utility for detecting the format of a configuration file and parsing it.
+ *
+ * Shared by S3Loader and usable by any loader that reads files, so every source
+ * accepts the same formats with the same rules.
+ *
+ * @example
+ * ```typescript
+ * const content = await fs.promises.readFile('config/app.yaml', 'utf-8');
+ * const format = ConfigFormatUtil.detect(content, { path: 'config/app.yaml' });
+ * const config = ConfigFormatUtil.parse(content, format);
+ * ```
+ */
+export class ConfigFormatUtil {
+  /**
+   * Parse configuration content.
+   * JSON and YAML documents that are not objects are wrapped as { CONFIG_VALUE: value }.
+   * @param content The raw content
+   * @param format The format of the content
+   * @param envSyntax The syntax of env files. Default: 'ecs'
+   * @returns Configuration key-value pairs
+   * @throws ConfigParseError if the content is not valid, with the line and column when known
+   */
+  static parse(content: string, format: ConfigFormat, envSyntax: EnvFileSyntax = 'ecs'): Record<string, unknown> {
+    switch (format) {
+      case 'json':
+        return this.toObject(this.parseJson(content));
+      case 'yaml':
+        return this.toObject(YamlParser.parse(content) ?? {});
+      case 'toml':
+        return TomlParser.parse(content);
+      case 'ini':
+        return IniParser.parse(content);
+      case 'env':
+        return EnvFileParser.parse(content, envSyntax);
+    }
+  }
+
+  /**
+   * Detect the format of configuration content. The file extension is checked first,
+   * then the Content-Type, then the content itself: content starting with '{' is JSON,
+   * anything else is an env file.
+   * @param content The raw content
+   * @param hints The file path or object key, and the Content-Type, when available
+   * @returns The detected format
+   */
+  static detect(content: string, hints: { path?: string; contentType?: string } = {}): ConfigFormat {
+    const fromPath = hints.path !== undefined ? this.fromPath(hints.path) : undefined;
+    if (fromPath) {
+      return fromPath;
+    }
+
+    const fromContentType = hints.contentType !== undefined ? this.fromContentType(hints.contentType) : undefined;
+    if (fromContentType) {
+      return fromContentType;
+    }
+
+    return content.trim().startsWith('{') ? 'json' : 'env';
+  }
+
+  /**
+   * Get the format for a file path or object key from its extension.
+   * Names starting with '.env', such as '.env.production', are env files.
+   * @param path The file path or object key
+   * @returns The format, or undefined if the extension is not recognized
+   */
+  static fromPath(path: string): ConfigFormat | undefined {
+    const name = path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+    if (name === '.env' || name.startsWith('.env.')) {
+      return 'env';
+    }
+
+    const dot = name.lastIndexOf('.');
+    return dot === -1 ? undefined : EXTENSION_FORMATS[name.slice(dot)];
+  }
+
+  /**
+   * Get the format for a Content-Type header. Structured syntax suffixes such as
+   * 'application/vnd.app+json' and '+yaml' are recognized.
+   * @param contentType The Content-Type, with or without parameters
+   * @returns The format, or undefined if the media type is not recognized
+   */
+  static fromContentType(contentType: string): ConfigFormat | undefined {
+    const mediaType = contentType.split(';')[0]!.trim().toLowerCase();
+    const format = CONTENT_TYPE_FORMATS[mediaType];
+    if (format) {
+      return format;
+    }
+    if (mediaType.endsWith('+json')) {
+      return 'json';
+    }
+    if (mediaType.endsWith('+yaml')) {
+      return 'yaml';
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the display name of a format for messages, e.g. 'YAML'.
+   * @param format The format
+   * @returns The display name
+   */
+  static formatName(format: ConfigFormat): string {
+    return FORMAT_NAMES[format];
+  }
+
+  /**
+   * Parse JSON, locating the error from the position JSON.parse reports, when it reports one.
+   */
+  private static parseJson(content: string): unknown {
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const position = /at position (\d+)/.exec(message);
+      const offset = position ? Number(position[1]) : /end of JSON input/.test(message) ? content.length : undefined;
+      if (offset === undefined) {
+        throw new ConfigParseError(message, 'json', undefined, undefined, error instanceof Error ? error : undefined);
+      }
+
+      const before = content.slice(0, offset);
+      const line = before.split('\n').length;
+      const column = offset - (before.lastIndexOf('\n') + 1) + 1;
+      throw new ConfigParseError(
+        message.replace(/ at position \d+/, ''),
+        'json',
+        line,
+        column,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+
+  /**
+   * Return objects as-is and wrap any other value as { CONFIG_VALUE: value }.
+   */
+  private static toObject(value: unknown): Record<string, unknown> {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      return value as Record<string, unknown>;
+    }
+    return { CONFIG_VALUE: value };
+  }
+}
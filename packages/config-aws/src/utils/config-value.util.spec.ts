@@ -0,0 +1,120 @@
+/**
+ * Unit tests for ConfigValueUtil
+ *
+ * Tests dotted-path lookup and conversion of configuration values.
+ */
+
+import { ConfigValueUtil } from './config-value.util';
+import { ValidationError } from '../errors';
+
+describe('ConfigValueUtil', () => {
+  describe('getPath', () => {
+    const config = { 'a.b': 'flat', a: { b: 'nested', c: { d: 1 } }, list: ['x'] };
+
+    it('should prefer top-level keys over dotted paths', () => {
+      expect(ConfigValueUtil.getPath(config, 'a.b')).toBe('flat');
+    });
+
+    it('should walk nested objects', () => {
+      expect(ConfigValueUtil.getPath(config, 'a.c.d')).toBe(1);
+      expect(ConfigValueUtil.getPath(config, 'list.0')).toBe('x');
+      expect(ConfigValueUtil.getPath(config, 'a.c.missing')).toBeUndefined();
+      expect(ConfigValueUtil.getPath(config, 'a.b.c')).toBeUndefined();
+    });
+
+    it('should ignore inherited properties', () => {
+      expect(ConfigValueUtil.getPath(config, 'toString')).toBeUndefined();
+      expect(ConfigValueUtil.getPath(config, '__proto__')).toBeUndefined();
+      expect(ConfigValueUtil.getPath(config, 'a.constructor')).toBeUndefined();
+      expect(ConfigValueUtil.getPath(config, 'list.map')).toBeUndefined();
+      expect(ConfigValueUtil.getPath({ toString: 'own' }, 'toString')).toBe('own');
+    });
+  });
+
+  describe('toNumber', () => {
+    it('should accept numbers and numeric strings', () => {
+      expect(ConfigValueUtil.toNumber(42, 'PORT')).toBe(42);
+      expect(ConfigValueUtil.toNumber(' 8080 ', 'PORT')).toBe(8080);
+      expect(ConfigValueUtil.toNumber('0.5', 'RATIO')).toBe(0.5);
+    });
+
+    it('should reject non-numeric values without echoing them', () => {
+      expect(() => ConfigValueUtil.toNumber('secret-value', 'PORT')).toThrow(ValidationError);
+      expect(() => ConfigValueUtil.toNumber('secret-value', 'PORT')).toThrow(
+        "Configuration key 'PORT' must be a number, received string",
+      );
+      expect(() => ConfigValueUtil.toNumber('', 'PORT')).toThrow(ValidationError);
+    });
+  });
+
+  describe('toBoolean', () => {
+    it.each([
+      ['true', true],
+      ['YES', true],
+      ['on', true],
+      [1, true],
+      ['false', false],
+      ['0', false],
+      ['Off', false],
+      [false, false],
+    ])('should convert %p to %p', (value, expected) => {
+      expect(ConfigValueUtil.toBoolean(value, 'DEBUG')).toBe(expected);
+    });
+
+    it('should reject unrecognized values', () => {
+      expect(() => ConfigValueUtil.toBoolean('maybe', 'DEBUG')).toThrow(ValidationError);
+    });
+  });
+
+  describe('toString', () => {
+    it('should stringify scalars and reject objects', () => {
+      expect(ConfigValueUtil.toString(3000, 'PORT')).toBe('3000');
+      expect(() => ConfigValueUtil.toString({ host: 'x' }, 'database')).toThrow(
+        "Configuration key 'database' must be a string, received object",
+      );
+    });
+  });
+
+  describe('toJson', () => {
+    it('should parse strings and pass through objects', () => {
+      expect(ConfigValueUtil.toJson('{"a":1}', 'FLAGS')).toEqual({ a: 1 });
+      expect(ConfigValueUtil.toJson({ a: 1 }, 'FLAGS')).toEqual({ a: 1 });
+      expect(() => ConfigValueUtil.toJson('{a:1}', 'FLAGS')).toThrow("Configuration key 'FLAGS' must be valid JSON");
+    });
+  });
+
+  describe('toList', () => {
+    it('should split, trim and drop empty entries', () => {
+      expect(ConfigValueUtil.toList('a, b,,c ', 'HOSTS')).toEqual(['a', 'b', 'c']);
+      expect(ConfigValueUtil.toList('a|b', 'HOSTS', '|')).toEqual(['a', 'b']);
+      expect(ConfigValueUtil.toList(['a', 1], 'HOSTS')).toEqual(['a', '1']);
+    });
+  });
+
+  describe('toDuration', () => {
+    it.each([
+      [1500, 1500],
+      ['250', 250],
+      ['500ms', 500],
+      ['30s', 30000],
+      ['5m', 300000],
+      ['1h30m', 5400000],
+      ['1h 30m', 5400000],
+      ['1.5s', 1500],
+      ['2d', 172800000],
+    ])('should convert %p to %pms', (value, expected) => {
+      expect(ConfigValueUtil.toDuration(value, 'TIMEOUT')).toBe(expected);
+    });
+
+    it.each(['', '10x', '1h30', 'soon', -1])('should reject %p', (value) => {
+      expect(() => ConfigValueUtil.toDuration(value, 'TIMEOUT')).toThrow(ValidationError);
+    });
+  });
+
+  describe('toUrl', () => {
+    it('should parse absolute URLs and reject others', () => {
+      expect(ConfigValueUtil.toUrl('https://example.com/path', 'API_URL').pathname).toBe('/path');
+      expect(() => ConfigValueUtil.toUrl('/relative', 'API_URL')).toThrow("Configuration key 'API_URL' must be a valid URL");
+    });
+  });
+});
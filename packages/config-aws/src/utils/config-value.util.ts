@@ -0,0 +1,212 @@
+import { ValidationError } from '../errors/index.js';
+
+/**
+ * Milliseconds per duration unit
+ */
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const TRUE_VALUES = ['true', '1', 'yes', 'on'];
+const FALSE_VALUES = ['false', '0', 'no', 'off'];
+
+/**
+ * Utility for reading and converting configuration values.
+ *
+ * Values from EnvironmentLoader and EnvFileLoader are always strings, while JSON sources
+ * such as S3 and Secrets Manager may supply numbers, booleans and nested objects.
+ * The converters accept both and throw a ValidationError naming the key when a value
+ * cannot be converted.
+ */
+export class ConfigValueUtil {
+  /**
+   * Look up a value as a top-level key, then as a dotted path into nested objects.
+   * @param config The configuration
+   * @param path A top-level key or dotted path, e.g. 'database.host'
+   * @returns The value, or undefined if it does not exist
+   */
+  static getPath(config: Record<string, unknown>, path: string): unknown {
+    if (Object.prototype.hasOwnProperty.call(config, path)) {
+      return config[path];
+    }
+
+    let current: unknown = config;
+    for (const segment of path.split('.')) {
+      if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, segment)) {
+        return undefined;
+      }
+      current = (current as Record<string, unknown>)[segment];
+    }
+
+    return current;
+  }
+
+  /**
+   * Convert a value to a string. Numbers and booleans are stringified.
+   * @param value The configuration value
+   * @param key The key, used in error messages
+   * @returns The string value
+   * @throws ValidationError if the value is an object or array
+   */
+  static toString(value: unknown, key: string): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') {
+      return String(value);
+    }
+    throw this.invalid(key, value, 'a string');
+  }
+
+  /**
+   * Convert a value to a finite number.
+   * @param value The configuration value
+   * @param key The key, used in error messages
+   * @returns The number value
+   * @throws ValidationError if the value is not numeric
+   */
+  static toNumber(value: unknown, key: string): number {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number === 'number' && Number.isFinite(number)) {
+      return number;
+    }
+    throw this.invalid(key, value, 'a number');
+  }
+
+  /**
+   * Convert a value to a boolean. Accepts true/false, 1/0, yes/no and on/off, case-insensitively.
+   * @param value The configuration value
+   * @param key The key, used in error messages
+   * @returns The boolean value
+   * @throws ValidationError if the value is not a recognized boolean
+   */
+  static toBoolean(value: unknown, key: string): boolean {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+
+    const normalized = String(value).trim().toLowerCase();
+    if ((typeof value === 'string' || typeof value === 'number') && TRUE_VALUES.includes(normalized)) {
+      return true;
+    }
+    if ((typeof value === 'string' || typeof value === 'number') && FALSE_VALUES.includes(normalized)) {
+      return false;
+    }
+    throw this.invalid(key, value, 'a boolean (true/false, 1/0, yes/no, on/off)');
+  }
+
+  /**
+   * Parse a JSON string. Values that are not strings are returned as-is.
+   * @param value The configuration value
+   * @param key The key, used in error messages
+   * @returns The parsed value
+   * @throws ValidationError if the string is not valid JSON
+   */
+  static toJson<V = unknown>(value: unknown, key: string): V {
+    if (typeof value !== 'string') {
+      return value as V;
+    }
+
+    try {
+      return JSON.parse(value) as V;
+    } catch (error) {
+      throw this.invalid(key, value, 'valid JSON', error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Convert a value to a list of strings. Strings are split on the separator,
+   * trimmed and empty entries dropped. Arrays are stringified item by item.
+   * @param value The configuration value
+   * @param key The key, used in error messages
+   * @param separator Separator for string values. Default: ','
+   * @returns The list
+   * @throws ValidationError if the value is not a string or array of scalars
+   */
+  static toList(value: unknown, key: string, separator: string = ','): string[] {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.toString(item, `${key}[${index}]`));
+    }
+    if (typeof value === 'string') {
+      return value
+        .split(separator)
+        .map((item) => item.trim())
+        .filter((item) => item !== '');
+    }
+    throw this.invalid(key, value, 'a list');
+  }
+
+  /**
+   * Convert a value to a duration in milliseconds.
+   * Numbers and numeric strings are milliseconds. Strings may combine units,
+   * e.g. '500ms', '30s', '5m', '1h30m' or '7d'.
+   * @param value The configuration value
+   * @param key The key, used in error messages
+   * @returns The duration in milliseconds
+   * @throws ValidationError if the value is not a duration
+   */
+  static toDuration(value: unknown, key: string): number {
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      return value;
+    }
+
+    if (typeof value === 'string') {
+      const trimmed = value.trim();
+      if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Number(trimmed);
+      }
+
+      const pattern = /(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)/gy;
+      let total = 0;
+      let consumed = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(trimmed)) !== null) {
+        total += Number(match[1]) * DURATION_UNITS[match[2]!]!;
+        consumed = pattern.lastIndex;
+        while (trimmed[pattern.lastIndex] === ' ') {
+          pattern.lastIndex++;
+        }
+      }
+      if (consumed > 0 && consumed === trimmed.length) {
+        return total;
+      }
+    }
+
+    throw this.invalid(key, value, "a duration (e.g. '500ms', '30s', '5m', '1h30m')");
+  }
+
+  /**
+   * Convert a value to a URL.
+   * @param value The configuration value
+   * @param key The key, used in error messages
+   * @returns The parsed URL
+   * @throws ValidationError if the value is not an absolute URL
+   */
+  static toUrl(value: unknown, key: string): URL {
+    if (value instanceof URL) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      try {
+        return new URL(value);
+      } catch (error) {
+        throw this.invalid(key, value, 'a valid URL', error instanceof Error ? error : undefined);
+      }
+    }
+    throw this.invalid(key, value, 'a valid URL');
+  }
+
+  /**
+   * Build the error for a value that cannot be converted.
+   * Values are not included in the message, as they may be secrets.
+   */
+  private static invalid(key: string, value: unknown, expected: string, cause?: Error): ValidationError {
+    const received = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+    const message = `Configuration key '${key}' must be ${expected}, received ${received}`;
+    return new ValidationError(message, [{ path: key.split('.'), message }], cause);
+  }
+}
@@ -1,7 +1,10 @@
+import { ConfigParseError } from '../errors/index.js';
+import type { EnvFileSyntax } from '../interfaces/config-loader.interface.js';
+
 /**
- * Parser for AWS ECS-compatible environment files.
+ * Parser for environment files, in the AWS ECS format (default) or the dotenv format.
  *
- * Format rules (per AWS ECS documentation):
+ * ECS format rules (per AWS ECS documentation):
  * - Lines beginning with # are comments and ignored
  * - Blank lines are ignored
  * - Format: VARIABLE=VALUE (no spaces around =)
@@ -11,6 +14,16 @@
  * - Lines without = are ignored
  * - Maximum line length: 32KB
  *
+ * dotenv format rules:
+ * - Lines beginning with # are comments and ignored, as is text after ' #' in unquoted values
+ * - Format: [export ]VARIABLE=VALUE, with optional whitespace around the =
+ * - Unquoted values are trimmed
+ * - Single-quoted and backtick-quoted values are literal
+ * - Double-quoted values support \n, \r, \t, \" and \\ escapes
+ * - Quoted values may span multiple lines
+ * - Lines that are not assignments are ignored; an unterminated quote, or text other than
+ *   a comment after a closing quote, is an error
+ *
  * @see https://docs.aws.amazon.com/AmazonECS/latest/developerguide/use-environment-file.html
  */
 export class EnvFileParser {
@@ -20,12 +33,20 @@ export class EnvFileParser {
   /** Valid variable name pattern: alphanumeric + underscore, cannot start with digit */
   private static readonly VARIABLE_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
 
+  /** dotenv assignment: optional export prefix, variable name, =, and the rest of the line */
+  private static readonly DOTENV_LINE_PATTERN = /^\s*(?:export\s+)?([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*(.*)$/;
+
+  /** Escape sequences expanded in double-quoted dotenv values */
+  private static readonly ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' };
+
   /**
    * Parse environment file content into key-value pairs.
    * @param content The raw content of the environment file
+   * @param syntax The file syntax. Default: 'ecs'
    * @returns Record of environment variable names to values
+   * @throws ConfigParseError in dotenv syntax, with the line and column of a malformed quoted value
    */
-  static parse(content: string): Record<string, string> {
+  static parse(content: string, syntax: EnvFileSyntax = 'ecs'): Record<string, string> {
     const result: Record<string, string> = {};
 
     // Handle empty content
@@ -33,6 +54,10 @@ export class EnvFileParser {
       return result;
     }
 
+    if (syntax === 'dotenv') {
+      return this.parseDotenv(content);
+    }
+
     const lines = content.split(/\r?\n/);
 
     for (const line of lines) {
@@ -72,6 +97,88 @@ export class EnvFileParser {
     return result;
   }
 
+  /**
+   * Parse content in dotenv syntax. Later assignments of the same variable win.
+   */
+  private static parseDotenv(content: string): Record<string, string> {
+    const result: Record<string, string> = {};
+    const lines = content.split(/\r?\n/);
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index]!;
+      const match = this.DOTENV_LINE_PATTERN.exec(line);
+      if (!match) {
+        // Blank lines, comments and lines that are not assignments are ignored
+        continue;
+      }
+
+      const key = match[1]!;
+      const raw = match[2]!;
+      const quote = raw[0];
+
+      if (quote !== '"' && quote !== "'" && quote !== '`') {
+        result[key] = raw.startsWith('#') ? '' : this.stripInlineComment(raw).trim();
+        continue;
+      }
+
+      // Read further lines until the closing quote
+      const startLine = index + 1;
+      const startColumn = line.length - raw.length + 1;
+      let text = raw.slice(1);
+      let end = this.findClosingQuote(text, quote);
+      while (end === -1 && index + 1 < lines.length) {
+        text += `\n${lines[++index]}`;
+        end = this.findClosingQuote(text, quote);
+      }
+      if (end === -1) {
+        throw new ConfigParseError(`Unterminated quoted value for '${key}'`, 'env', startLine, startColumn);
+      }
+
+      const after = text.slice(end + 1);
+      const rest = after.trim();
+      if (rest !== '' && !rest.startsWith('#')) {
+        const lastLine = lines[index]!;
+        const column = lastLine.length - after.length + (after.length - after.trimStart().length) + 1;
+        throw new ConfigParseError(`Unexpected content after quoted value for '${key}'`, 'env', index + 1, column);
+      }
+
+      const value = text.slice(0, end);
+      result[key] = quote === '"' ? this.unescape(value) : value;
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the index of the closing quote. Backslash escapes are skipped in double-quoted values.
+   * @returns The index, or -1 if the value is not closed
+   */
+  private static findClosingQuote(text: string, quote: string): number {
+    for (let index = 0; index < text.length; index++) {
+      if (quote === '"' && text[index] === '\\') {
+        index++;
+      } else if (text[index] === quote) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Expand escape sequences in a double-quoted value. Unknown escapes are kept as written.
+   */
+  private static unescape(value: string): string {
+    return value.replace(/\\(.)/g, (sequence, char: string) => this.ESCAPES[char] ?? sequence);
+  }
+
+  /**
+   * Remove a trailing comment from an unquoted value: a # preceded by whitespace.
+   */
+  private static stripInlineComment(value: string): string {
+    const match = /\s#/.exec(value);
+    return match ? value.slice(0, match.index) : value;
+  }
+
   /**
    * Check if a variable name is valid per AWS ECS format.
    * Variable names must:
@@ -1,2 +1,12 @@
 export { ConfigValidationUtil } from './validation.util.js';
 export { EnvFileParser } from './env-file-parser.util.js';
+export { ConfigMergeUtil } from './merge.util.js';
+export { ConfigInterpolationUtil } from './interpolation.util.js';
+export { RetryUtil } from './retry.util.js';
+export { ConfigSnapshotUtil } from './snapshot.util.js';
+export { ConfigValueUtil } from './config-value.util.js';
+export { KeyTransformUtil } from './key-transform.util.js';
+export { ConfigFormatUtil } from './config-format.util.js';
+export { YamlParser } from './yaml-parser.util.js';
+export { TomlParser } from './toml-parser.util.js';
+export { IniParser } from './ini-parser.util.js';
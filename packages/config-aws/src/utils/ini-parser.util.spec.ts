@@ -0,0 +1,72 @@
+/**
+ * Unit tests for IniParser
+ *
+ * Tests sections, quoting, comments, array keys and error locations.
+ */
+
+import { IniParser } from './ini-parser.util';
+import { ConfigParseError } from '../errors';
+
+const parseError = (content: string): ConfigParseError => {
+  try {
+    IniParser.parse(content);
+  } catch (error) {
+    return error as ConfigParseError;
+  }
+  throw new Error('Expected IniParser.parse to throw');
+};
+
+describe('IniParser', () => {
+  it('should parse top-level keys and sections as strings', () => {
+    const content = [
+      '; shared platform config',
+      'name = billing',
+      '',
+      '[database]',
+      'host=db.internal',
+      'port = 5432   ; default port',
+      'url = postgres://db/app?sslmode=require',
+      '',
+      '# features',
+      '[features]',
+      'beta = true',
+    ].join('\r\n');
+
+    expect(IniParser.parse(content)).toEqual({
+      name: 'billing',
+      database: { host: 'db.internal', port: '5432', url: 'postgres://db/app?sslmode=require' },
+      features: { beta: 'true' },
+    });
+  });
+
+  it('should unquote values and keep comment characters inside quotes', () => {
+    const content = ['greeting = "say \\"hi\\" ; not a comment"', "path = 'C:\\app' # comment", 'empty ='].join('\n');
+
+    expect(IniParser.parse(content)).toEqual({
+      greeting: 'say "hi" ; not a comment',
+      path: 'C:\\app',
+      empty: '',
+    });
+  });
+
+  it('should collect keys ending in [] into arrays', () => {
+    expect(IniParser.parse('[cluster]\nhosts[] = a\nhosts[] = b')).toEqual({ cluster: { hosts: ['a', 'b'] } });
+  });
+
+  it.each([
+    ['[database', 'Invalid section header', 1, 1],
+    ['a = 1\n  just text', "Expected '=' after key", 2, 12],
+    ['[a]\nx = 1\nx = 2', "Duplicate key 'a.x'", 3, 1],
+    ['a = 1\n[a]', "Duplicate section 'a'", 2, 1],
+    ['= value', 'Empty key', 1, 1],
+    ['a = "open', 'Unterminated quoted value', 1, 5],
+  ])('should report %j with its line and column', (content, message, line, column) => {
+    const error = parseError(content);
+
+    expect(error).toBeInstanceOf(ConfigParseError);
+    expect(error.message).toBe(`${message} at line ${line}, column ${column}`);
+    expect(error.format).toBe('ini');
+    expect(error.line).toBe(line);
+    expect(error.column).toBe(column);
+  });
+});
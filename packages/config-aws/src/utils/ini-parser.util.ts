@@ -0,0 +1,138 @@
+import { ConfigParseError } from '../errors/index.js';
+
+/**
+ * Parser for INI files.
+ *
+ * Format rules:
+ * - Lines beginning with ; or # are comments and ignored, as is text after ' ;' or ' #'
+ * - Blank lines are ignored
+ * - Format: key = value, with optional whitespace around the =
+ * - Keys before the first [section] header are top-level; keys after it belong to the section,
+ *   which becomes a nested object
+ * - Values are strings. Surrounding single or double quotes are removed;
+ *   double-quoted values support \", \\, \n and \t escapes
+ * - Keys ending in [] collect their values into an array, e.g. hosts[] = a
+ * - Duplicate keys and sections are errors
+ */
+export class IniParser {
+  /** Section header pattern: [name] */
+  private static readonly SECTION_PATTERN = /^\[([^\]]*)\]$/;
+
+  /**
+   * Parse INI content.
+   * @param content The raw INI content
+   * @returns Record of top-level keys and sections
+   * @throws ConfigParseError with the line and column of the first error
+   */
+  static parse(content: string): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    let section = result;
+    let sectionName: string | undefined;
+
+    for (const [index, raw] of content.split(/\r?\n/).entries()) {
+      const lineNumber = index + 1;
+      const indent = raw.length - raw.trimStart().length;
+      const line = raw.trim();
+
+      if (line === '' || line.startsWith(';') || line.startsWith('#')) {
+        continue;
+      }
+
+      if (line.startsWith('[')) {
+        const match = this.SECTION_PATTERN.exec(this.stripComment(line));
+        const name = match?.[1]?.trim();
+        if (!name) {
+          throw new ConfigParseError('Invalid section header', 'ini', lineNumber, indent + 1);
+        }
+        if (Object.prototype.hasOwnProperty.call(result, name)) {
+          throw new ConfigParseError(`Duplicate section '${name}'`, 'ini', lineNumber, indent + 1);
+        }
+        section = {};
+        sectionName = name;
+        result[name] = section;
+        continue;
+      }
+
+      const equalsIndex = line.indexOf('=');
+      if (equalsIndex === -1) {
+        throw new ConfigParseError("Expected '=' after key", 'ini', lineNumber, indent + line.length + 1);
+      }
+
+      let key = line.slice(0, equalsIndex).trim();
+      const isArray = key.endsWith('[]');
+      if (isArray) {
+        key = key.slice(0, -2).trim();
+      }
+      if (key === '') {
+        throw new ConfigParseError('Empty key', 'ini', lineNumber, indent + 1);
+      }
+
+      const valueColumn = indent + equalsIndex + 2;
+      const value = this.parseValue(line.slice(equalsIndex + 1), lineNumber, valueColumn);
+      const existing = section[key];
+
+      if (isArray) {
+        if (existing === undefined) {
+          section[key] = [value];
+        } else if (Array.isArray(existing)) {
+          existing.push(value);
+        } else {
+          throw this.duplicate(key, sectionName, lineNumber, indent + 1);
+        }
+      } else if (existing !== undefined) {
+        throw this.duplicate(key, sectionName, lineNumber, indent + 1);
+      } else {
+        section[key] = value;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a value, removing quotes and trailing comments.
+   * @param column 1-based column the raw value starts at
+   */
+  private static parseValue(raw: string, lineNumber: number, column: number): string {
+    const value = raw.trim();
+    const quote = value[0];
+
+    if (quote !== '"' && quote !== "'") {
+      return this.stripComment(value);
+    }
+
+    let result = '';
+    const valueColumn = column + raw.length - raw.trimStart().length;
+    for (let index = 1; index < value.length; index++) {
+      const char = value[index]!;
+      if (char === quote) {
+        const rest = value.slice(index + 1).trim();
+        if (rest !== '' && !rest.startsWith(';') && !rest.startsWith('#')) {
+          throw new ConfigParseError('Unexpected content after quoted value', 'ini', lineNumber, valueColumn + index + 1);
+        }
+        return result;
+      }
+      if (quote === '"' && char === '\\' && index + 1 < value.length) {
+        const escape = value[++index]!;
+        result += escape === 'n' ? '\n' : escape === 't' ? '\t' : escape;
+        continue;
+      }
+      result += char;
+    }
+
+    throw new ConfigParseError('Unterminated quoted value', 'ini', lineNumber, valueColumn);
+  }
+
+  /**
+   * Remove a trailing comment: a ; or # preceded by whitespace.
+   */
+  private static stripComment(value: string): string {
+    const match = /\s[;#]/.exec(value);
+    return match ? value.slice(0, match.index).trimEnd() : value;
+  }
+
+  private static duplicate(key: string, section: string | undefined, line: number, column: number): ConfigParseError {
+    const name = section === undefined ? key : `${section}.${key}`;
+    return new ConfigParseError(`Duplicate key '${name}'`, 'ini', line, column);
+  }
+}
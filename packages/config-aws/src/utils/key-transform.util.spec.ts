@@ -0,0 +1,98 @@
+/**
+ * Unit tests for KeyTransformUtil
+ *
+ * Tests filtering, prefix handling, renaming, case conversion and nesting of loader keys.
+ */
+
+import { KeyTransformUtil } from './key-transform.util';
+import { ConfigurationError } from '../errors';
+
+describe('KeyTransformUtil', () => {
+  describe('toCase', () => {
+    it.each([
+      ['constant', 'DATABASE_HOST'],
+      ['snake', 'database_host'],
+      ['camel', 'databaseHost'],
+      ['pascal', 'DatabaseHost'],
+      ['kebab', 'database-host'],
+    ] as const)('should convert to %s case', (keyCase, expected) => {
+      expect(KeyTransformUtil.toCase('DATABASE_HOST', keyCase)).toBe(expected);
+      expect(KeyTransformUtil.toCase('databaseHost', keyCase)).toBe(expected);
+      expect(KeyTransformUtil.toCase('database/host', keyCase)).toBe(expected);
+    });
+
+    it('should split acronyms from the following word', () => {
+      expect(KeyTransformUtil.toCase('APIKey', 'snake')).toBe('api_key');
+      expect(KeyTransformUtil.toCase('redisURL', 'constant')).toBe('REDIS_URL');
+    });
+
+    it('should only change letter case for upper and lower', () => {
+      expect(KeyTransformUtil.toCase('db_Host', 'upper')).toBe('DB_HOST');
+      expect(KeyTransformUtil.toCase('DB-Host', 'lower')).toBe('db-host');
+    });
+  });
+
+  describe('transform', () => {
+    it('should filter keys with include and exclude globs against the original key', () => {
+      const config = { APP_PORT: '1', APP_SECRET: '2', APP_DEBUG: '3', PATH: '/bin' };
+
+      expect(KeyTransformUtil.transform(config, { include: ['APP_*'], exclude: ['APP_SECRET', 'APP_D?BUG'] })).toEqual({
+        APP_PORT: '1',
+      });
+    });
+
+    it('should strip and add prefixes', () => {
+      expect(KeyTransformUtil.transform({ APP_PORT: '1', HOST: 'h' }, { stripPrefix: 'APP_', addPrefix: 'SVC_' })).toEqual({
+        SVC_PORT: '1',
+        SVC_HOST: 'h',
+      });
+    });
+
+    it('should rename stripped keys verbatim, skipping case and addPrefix', () => {
+      const result = KeyTransformUtil.transform(
+        { APP_DB_PASS: 'secret', APP_DB_USER: 'admin' },
+        { stripPrefix: 'APP_', rename: { DB_PASS: 'DATABASE_PASSWORD' }, case: 'camel', addPrefix: 'x_' },
+      );
+
+      expect(result).toEqual({ DATABASE_PASSWORD: 'secret', x_dbUser: 'admin' });
+    });
+
+    it('should nest keys by separator, converting the case of each segment', () => {
+      const result = KeyTransformUtil.transform(
+        { DATABASE__HOST: 'db', DATABASE__MAX_POOL: 10, LOG_LEVEL: 'info' },
+        { case: 'camel', nest: '__' },
+      );
+
+      expect(result).toEqual({ database: { host: 'db', maxPool: 10 }, logLevel: 'info' });
+    });
+
+    it('should reject a key that is both a value and a nested object', () => {
+      expect(() => KeyTransformUtil.transform({ DB: 'x', DB__HOST: 'h' }, { nest: '__' })).toThrow(ConfigurationError);
+      expect(() => KeyTransformUtil.transform({ DB__HOST: 'h', DB: 'x' }, { nest: '__' })).toThrow(
+        "Key 'DB' conflicts with 'DB__HOST'",
+      );
+    });
+
+    it('should leave values untouched', () => {
+      const nested = { a: 1 };
+
+      expect(KeyTransformUtil.transform({ dbConfig: nested }, { case: 'constant' })['DB_CONFIG']).toBe(nested);
+    });
+  });
+
+  describe('applyLoaderOptions', () => {
+    it('should apply the keyTransform option', () => {
+      const config = { dbHost: 'db', apiKey: 'k' };
+
+      expect(KeyTransformUtil.applyLoaderOptions(config, { keyTransform: { case: 'constant', exclude: ['api*'] } }))
+        .toEqual({ DB_HOST: 'db' });
+    });
+
+    it('should return the configuration unchanged without a keyTransform', () => {
+      const config = { dbHost: 'db' };
+
+      expect(KeyTransformUtil.applyLoaderOptions(config, { retries: 1 })).toBe(config);
+      expect(KeyTransformUtil.applyLoaderOptions(config)).toBe(config);
+    });
+  });
+});
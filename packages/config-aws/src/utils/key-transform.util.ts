@@ -0,0 +1,179 @@
+import { ConfigurationError } from '../errors/index.js';
+import type { KeyCase, KeyTransformOptions, LoaderOptions } from '../interfaces/config-loader.interface.js';
+
+/**
+ * Utility for renaming, filtering and nesting the keys a loader produces.
+ *
+ * Lets sources with different naming conventions feed a single schema, e.g.
+ * camelCase Secrets Manager JSON alongside UPPER_SNAKE environment variables.
+ */
+export class KeyTransformUtil {
+  /**
+   * Transform the top-level keys of a configuration object. Values are left untouched.
+   * @param config The configuration produced by a loader
+   * @param options The transformation to apply
+   * @returns A new configuration object with transformed keys
+   * @throws ConfigurationError if nesting makes a key both a value and an object
+   */
+  static transform(config: Record<string, unknown>, options: KeyTransformOptions): Record<string, unknown> {
+    const include = options.include?.map((pattern) => this.globToRegExp(pattern));
+    const exclude = options.exclude?.map((pattern) => this.globToRegExp(pattern)) ?? [];
+    const result: Record<string, unknown> = {};
+    const owners = { leaves: new Map<string, string>(), branches: new Map<string, string>() };
+
+    for (const [sourceKey, value] of Object.entries(config)) {
+      if (include && !include.some((pattern) => pattern.test(sourceKey))) {
+        continue;
+      }
+      if (exclude.some((pattern) => pattern.test(sourceKey))) {
+        continue;
+      }
+
+      const key = this.transformKey(sourceKey, options);
+      if (!key) {
+        continue;
+      }
+
+      if (options.nest) {
+        this.setNested(result, key.split(options.nest), value, sourceKey, owners);
+      } else {
+        result[key] = value;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply a loader's keyTransform option to the configuration it loaded.
+   * Code that calls ConfigLoader.load() directly uses this so the option behaves as it does in ConfigManager.
+   * @param config The configuration produced by the loader
+   * @param options The loader's options
+   * @returns The transformed configuration, or the same object when the loader has no keyTransform
+   * @throws ConfigurationError if nesting makes a key both a value and an object
+   */
+  static applyLoaderOptions(config: Record<string, unknown>, options: LoaderOptions = {}): Record<string, unknown> {
+    return options.keyTransform ? this.transform(config, options.keyTransform) : config;
+  }
+
+  /**
+   * Convert a key to the given case. Words are split on '_', '-', '.', '/', whitespace
+   * and lower-to-upper case boundaries.
+   * @param key The key to convert
+   * @param keyCase The target case
+   * @returns The converted key
+   */
+  static toCase(key: string, keyCase: KeyCase): string {
+    if (keyCase === 'upper') {
+      return key.toUpperCase();
+    }
+    if (keyCase === 'lower') {
+      return key.toLowerCase();
+    }
+
+    const words = key
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_\-./]+/)
+      .filter((word) => word !== '')
+      .map((word) => word.toLowerCase());
+
+    switch (keyCase) {
+      case 'constant':
+        return words.join('_').toUpperCase();
+      case 'snake':
+        return words.join('_');
+      case 'kebab':
+        return words.join('-');
+      case 'camel':
+        return words.map((word, index) => (index === 0 ? word : this.capitalize(word))).join('');
+      case 'pascal':
+        return words.map((word) => this.capitalize(word)).join('');
+    }
+  }
+
+  /**
+   * Apply the stripPrefix, rename, case and addPrefix steps to a single key.
+   */
+  private static transformKey(sourceKey: string, options: KeyTransformOptions): string {
+    let key = sourceKey;
+    if (options.stripPrefix && key.startsWith(options.stripPrefix)) {
+      key = key.slice(options.stripPrefix.length);
+    }
+
+    if (options.rename && Object.prototype.hasOwnProperty.call(options.rename, key)) {
+      return options.rename[key]!;
+    }
+
+    if (options.case) {
+      const keyCase = options.case;
+      key = options.nest
+        ? key
+            .split(options.nest)
+            .map((segment) => this.toCase(segment, keyCase))
+            .join(options.nest)
+        : this.toCase(key, keyCase);
+    }
+
+    return options.addPrefix ? `${options.addPrefix}${key}` : key;
+  }
+
+  /**
+   * Set a value at a path of nested objects, creating the objects as needed.
+   * @param owners Source key that set each leaf and created each nested object, by dotted path
+   */
+  private static setNested(
+    target: Record<string, unknown>,
+    segments: string[],
+    value: unknown,
+    sourceKey: string,
+    owners: { leaves: Map<string, string>; branches: Map<string, string> },
+  ): void {
+    let current = target;
+
+    for (const [index, segment] of segments.entries()) {
+      const path = segments.slice(0, index + 1).join('.');
+
+      if (index === segments.length - 1) {
+        const branchOwner = owners.branches.get(path);
+        if (branchOwner !== undefined) {
+          throw this.conflict(sourceKey, branchOwner);
+        }
+        current[segment] = value;
+        owners.leaves.set(path, sourceKey);
+        return;
+      }
+
+      const leafOwner = owners.leaves.get(path);
+      if (leafOwner !== undefined) {
+        throw this.conflict(sourceKey, leafOwner);
+      }
+      if (!owners.branches.has(path)) {
+        current[segment] = {};
+        owners.branches.set(path, sourceKey);
+      }
+      current = current[segment] as Record<string, unknown>;
+    }
+  }
+
+  private static conflict(sourceKey: string, otherKey: string): ConfigurationError {
+    return new ConfigurationError(
+      `Key '${sourceKey}' conflicts with '${otherKey}': a key cannot be both a value and a nested object`,
+    );
+  }
+
+  private static capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+  }
+
+  /**
+   * Convert a glob pattern with `*` and `?` wildcards to an anchored regular expression.
+   */
+  private static globToRegExp(pattern: string): RegExp {
+    const source = pattern
+      .split('')
+      .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+    return new RegExp(`^${source}$`);
+  }
+}
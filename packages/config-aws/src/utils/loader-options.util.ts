@@ -0,0 +1,20 @@
+import type { LoaderOptions } from '../interfaces/config-loader.interface.js';
+
+/**
+ * Extract the shared loader options from a loader configuration object.
+ * @param config The loader configuration
+ * @returns The shared loader options
+ * @internal
+ */
+export function pickLoaderOptions(config: LoaderOptions): LoaderOptions {
+  return {
+    id: config.id,
+    priority: config.priority,
+    timeoutMs: config.timeoutMs,
+    retries: config.retries,
+    backoff: config.backoff,
+    required: config.required,
+    onError: config.onError,
+    keyTransform: config.keyTransform,
+  };
+}
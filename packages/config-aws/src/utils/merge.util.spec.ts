@@ -0,0 +1,123 @@
+/**
+ * Unit tests for ConfigMergeUtil
+ *
+ * Tests shallow, deep and per-path merge strategies.
+ */
+
+import { ConfigMergeUtil } from './merge.util';
+
+describe('ConfigMergeUtil', () => {
+  describe('merge', () => {
+    it('should shallow merge by default', () => {
+      const target = { database: { host: 'localhost', port: 5432 }, name: 'app' };
+      const source = { database: { password: 'secret' } };
+
+      expect(ConfigMergeUtil.merge(target, source)).toEqual({
+        database: { password: 'secret' },
+        name: 'app',
+      });
+    });
+
+    it('should deep merge nested objects with the deep strategy', () => {
+      const target = { database: { host: 'localhost', port: 5432 }, name: 'app' };
+      const source = { database: { password: 'secret', port: 6543 } };
+
+      expect(ConfigMergeUtil.merge(target, source, { strategy: 'deep' })).toEqual({
+        database: { host: 'localhost', port: 6543, password: 'secret' },
+        name: 'app',
+      });
+    });
+
+    it('should apply per-path strategies on top of the default', () => {
+      const target = {
+        database: { host: 'localhost', replicas: ['r1'] },
+        cache: { host: 'redis' },
+      };
+      const source = {
+        database: { replicas: ['r2'] },
+        cache: { ttl: 60 },
+      };
+
+      const result = ConfigMergeUtil.merge(target, source, {
+        paths: { database: 'deep', 'database.replicas': 'append' },
+      });
+
+      expect(result).toEqual({
+        database: { host: 'localhost', replicas: ['r1', 'r2'] },
+        cache: { ttl: 60 },
+      });
+    });
+
+    it('should apply a nested path strategy when its parent has no strategy', () => {
+      const target = { cors: { origins: ['https://a.example'], credentials: true }, features: { plugins: ['auth'] } };
+      const source = { cors: { origins: ['https://b.example'] }, features: { plugins: ['audit'], beta: true } };
+
+      const result = ConfigMergeUtil.merge(target, source, {
+        strategy: 'replace',
+        paths: { 'cors.origins': 'union', 'features.plugins': 'append' },
+      });
+
+      expect(result).toEqual({
+        cors: { origins: ['https://a.example', 'https://b.example'], credentials: true },
+        features: { plugins: ['auth', 'audit'], beta: true },
+      });
+    });
+
+    it('should replace objects that only share a prefix with a configured path', () => {
+      const result = ConfigMergeUtil.merge(
+        { cors: { origins: ['a'] }, corsPolicy: { mode: 'strict', maxAge: 60 } },
+        { corsPolicy: { mode: 'open' } },
+        { paths: { 'cors.origins': 'union' } },
+      );
+
+      expect(result).toEqual({ cors: { origins: ['a'] }, corsPolicy: { mode: 'open' } });
+    });
+
+    it('should concatenate arrays without duplicates with the union strategy', () => {
+      const target = { origins: ['https://a.example', 'https://b.example'], flags: [{ id: 1 }] };
+      const source = { origins: ['https://b.example', 'https://c.example'], flags: [{ id: 1 }, { id: 2 }] };
+
+      const result = ConfigMergeUtil.merge(target, source, { strategy: 'union' });
+
+      expect(result['origins']).toEqual(['https://a.example', 'https://b.example', 'https://c.example']);
+      expect(result['flags']).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it('should replace non-array values with the append strategy', () => {
+      const result = ConfigMergeUtil.merge({ list: 'a,b' }, { list: ['c'] }, { strategy: 'append' });
+      expect(result['list']).toEqual(['c']);
+    });
+
+    it('should not mutate its inputs', () => {
+      const target = { database: { host: 'localhost' } };
+      const source = { database: { port: 5432 } };
+
+      ConfigMergeUtil.merge(target, source, { strategy: 'deep' });
+
+      expect(target).toEqual({ database: { host: 'localhost' } });
+      expect(source).toEqual({ database: { port: 5432 } });
+    });
+  });
+
+  describe('deepMerge', () => {
+    it('should replace arrays and keep unrelated keys', () => {
+      const result = ConfigMergeUtil.deepMerge(
+        { a: { b: 1, list: [1, 2] }, c: true },
+        { a: { d: 2, list: [3] } },
+      );
+
+      expect(result).toEqual({ a: { b: 1, d: 2, list: [3] }, c: true });
+    });
+  });
+
+  describe('isPlainObject', () => {
+    it('should only accept plain objects', () => {
+      expect(ConfigMergeUtil.isPlainObject({})).toBe(true);
+      expect(ConfigMergeUtil.isPlainObject(Object.create(null))).toBe(true);
+      expect(ConfigMergeUtil.isPlainObject([])).toBe(false);
+      expect(ConfigMergeUtil.isPlainObject(null)).toBe(false);
+      expect(ConfigMergeUtil.isPlainObject(new Date())).toBe(false);
+      expect(ConfigMergeUtil.isPlainObject(Buffer.from('x'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { isDeepStrictEqual } from 'util';
+import type { MergeOptions, MergeStrategy } from '../interfaces/config-manager.interface.js';
+
+/**
+ * Utility for merging configuration objects from multiple sources.
+ *
+ * Strategies:
+ * - 'replace': the higher precedence value replaces the lower one
+ * - 'deep': plain objects are merged recursively, other values are replaced
+ * - 'append': arrays are concatenated (lower precedence items first), other values are replaced
+ * - 'union': arrays are concatenated without duplicates, other values are replaced
+ *
+ * Objects that contain a path with its own strategy are merged key by key whatever their
+ * strategy, so the nested strategy applies and sibling keys are kept.
+ */
+export class ConfigMergeUtil {
+  /**
+   * Merge a higher precedence configuration into a lower precedence one.
+   * Without any strategies this is a shallow merge, matching the default ConfigManager behavior.
+   * @param target The lower precedence configuration
+   * @param source The higher precedence configuration
+   * @param options Merge strategy options
+   * @returns A new merged configuration object
+   */
+  static merge(
+    target: Record<string, unknown>,
+    source: Record<string, unknown>,
+    options: MergeOptions = {},
+  ): Record<string, unknown> {
+    const strategy = options.strategy ?? 'replace';
+    const paths = options.paths ?? {};
+
+    if (strategy === 'replace' && Object.keys(paths).length === 0) {
+      return { ...target, ...source };
+    }
+
+    return this.mergeObjects(target, source, '', strategy, paths);
+  }
+
+  /**
+   * Deep merge two configuration objects. Plain objects are merged recursively,
+   * arrays and other values from the source replace those in the target.
+   * @param target The lower precedence object
+   * @param source The higher precedence object
+   * @returns A new merged object
+   */
+  static deepMerge(target: Record<string, unknown>, source: Record<string, unknown>): Record<string, unknown> {
+    return this.mergeObjects(target, source, '', 'deep', {});
+  }
+
+  /**
+   * Check whether a value is a plain object (not an array, Date, Buffer, etc.).
+   * @param value The value to check
+   * @returns true if the value is a plain object
+   */
+  static isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (value === null || typeof value !== 'object') {
+      return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+
+  /**
+   * Clone a value so merged results do not share references with their sources.
+   * @param value The value to clone
+   * @returns The cloned value
+   */
+  static cloneValue<V>(value: V): V {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.cloneValue(item)) as V;
+    }
+
+    if (this.isPlainObject(value)) {
+      const cloned: Record<string, unknown> = {};
+      for (const [key, val] of Object.entries(value)) {
+        cloned[key] = this.cloneValue(val);
+      }
+      return cloned as V;
+    }
+
+    return value;
+  }
+
+  /**
+   * Merge two objects key by key, resolving the strategy for each path.
+   * @param inherited Strategy applied to keys without an explicit path strategy
+   */
+  private static mergeObjects(
+    target: Record<string, unknown>,
+    source: Record<string, unknown>,
+    basePath: string,
+    inherited: MergeStrategy,
+    paths: Record<string, MergeStrategy>,
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = { ...target };
+
+    for (const [key, value] of Object.entries(source)) {
+      const path = basePath ? `${basePath}.${key}` : key;
+      const strategy = paths[path] ?? inherited;
+      result[key] = this.mergeValue(result[key], value, path, strategy, paths);
+    }
+
+    return result;
+  }
+
+  /**
+   * Merge a single value according to its strategy.
+   */
+  private static mergeValue(
+    existing: unknown,
+    incoming: unknown,
+    path: string,
+    strategy: MergeStrategy,
+    paths: Record<string, MergeStrategy>,
+  ): unknown {
+    if (
+      strategy !== 'deep' &&
+      this.isPlainObject(existing) &&
+      this.isPlainObject(incoming) &&
+      this.hasNestedPaths(path, paths)
+    ) {
+      return this.mergeObjects(existing, incoming, path, strategy, paths);
+    }
+
+    switch (strategy) {
+      case 'deep':
+        if (this.isPlainObject(existing) && this.isPlainObject(incoming)) {
+          return this.mergeObjects(existing, incoming, path, 'deep', paths);
+        }
+        return this.cloneValue(incoming);
+
+      case 'append':
+        if (Array.isArray(existing) && Array.isArray(incoming)) {
+          return [...existing, ...this.cloneValue(incoming)];
+        }
+        return this.cloneValue(incoming);
+
+      case 'union':
+        if (Array.isArray(existing) && Array.isArray(incoming)) {
+          const merged = [...existing];
+          for (const item of incoming) {
+            if (!merged.some((current) => isDeepStrictEqual(current, item))) {
+              merged.push(this.cloneValue(item));
+            }
+          }
+          return merged;
+        }
+        return this.cloneValue(incoming);
+
+      case 'replace':
+      default:
+        return incoming;
+    }
+  }
+
+  /**
+   * Check whether a strategy is configured for a path nested under the given one.
+   */
+  private static hasNestedPaths(path: string, paths: Record<string, MergeStrategy>): boolean {
+    const prefix = `${path}.`;
+    return Object.keys(paths).some((configured) => configured.startsWith(prefix));
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for RetryUtil
+ *
+ * Tests error classification, backoff delays, timeouts and retries.
+ */
+
+import { RetryUtil } from './retry.util';
+import { AWSServiceError, ConfigurationLoadError, LoaderTimeoutError } from '../errors';
+
+const awsError = (name: string, httpStatusCode?: number): Error =>
+  Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+
+describe('RetryUtil', () => {
+  describe('classifyError', () => {
+    it('should classify AWSServiceError by its cause', () => {
+      expect(
+        RetryUtil.classifyError(new AWSServiceError('failed', 'SSM', 'GetParametersByPath', awsError('ThrottlingException'))),
+      ).toBe('throttling');
+      expect(
+        RetryUtil.classifyError(new AWSServiceError('denied', 'SSM', 'GetParametersByPath', awsError('AccessDeniedException'))),
+      ).toBe('access-denied');
+      expect(
+        RetryUtil.classifyError(new AWSServiceError('failed', 'S3', 'GetObject', awsError('SomethingElse', 503))),
+      ).toBe('unavailable');
+    });
+
+    it('should follow nested causes', () => {
+      const network = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+      const wrapped = new ConfigurationLoadError(
+        'load failed',
+        'S3Loader',
+        new AWSServiceError('failed', 'S3', 'GetObject', network),
+      );
+
+      expect(RetryUtil.classifyError(wrapped)).toBe('network');
+    });
+
+    it('should classify by HTTP status code', () => {
+      expect(RetryUtil.classifyError(awsError('Unknown', 429))).toBe('throttling');
+      expect(RetryUtil.classifyError(awsError('Unknown', 403))).toBe('access-denied');
+      expect(RetryUtil.classifyError(awsError('Unknown', 404))).toBe('not-found');
+    });
+
+    it('should classify timeouts and unknown errors', () => {
+      expect(RetryUtil.classifyError(new LoaderTimeoutError('timed out', 'S3Loader', 100))).toBe('timeout');
+      expect(RetryUtil.classifyError(new Error('boom'))).toBe('unknown');
+      expect(RetryUtil.classifyError('boom')).toBe('unknown');
+    });
+  });
+
+  describe('isRetryable', () => {
+    it('should only retry transient errors', () => {
+      expect(RetryUtil.isRetryable(awsError('ThrottlingException'))).toBe(true);
+      expect(RetryUtil.isRetryable(awsError('NetworkingError'))).toBe(true);
+      expect(RetryUtil.isRetryable(awsError('ServiceUnavailableException'))).toBe(true);
+      expect(RetryUtil.isRetryable(awsError('AccessDeniedException'))).toBe(false);
+      expect(RetryUtil.isRetryable(awsError('ResourceNotFoundException'))).toBe(false);
+      expect(RetryUtil.isRetryable(new Error('boom'))).toBe(false);
+    });
+  });
+
+  describe('getBackoffDelay', () => {
+    it('should grow exponentially within the jitter bounds', () => {
+      for (let attempt = 1; attempt <= 4; attempt++) {
+        const expected = 100 * Math.pow(2, attempt - 1);
+        const delay = RetryUtil.getBackoffDelay(attempt, { baseDelayMs: 100, jitter: 0.25 });
+        expect(delay).toBeGreaterThanOrEqual(Math.floor(expected * 0.75));
+        expect(delay).toBeLessThanOrEqual(Math.ceil(expected * 1.25));
+      }
+    });
+
+    it('should cap the delay at maxDelayMs', () => {
+      expect(RetryUtil.getBackoffDelay(20, { baseDelayMs: 100, maxDelayMs: 500, jitter: 0 })).toBe(500);
+    });
+  });
+
+  describe('withTimeout', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('should reject with LoaderTimeoutError when the operation is too slow', async () => {
+      const pending = RetryUtil.withTimeout(new Promise(() => undefined), 100, 'SlowLoader');
+      const assertion = expect(pending).rejects.toThrow(
+        new LoaderTimeoutError('SlowLoader timed out after 100ms', 'SlowLoader', 100),
+      );
+
+      await jest.advanceTimersByTimeAsync(100);
+      await assertion;
+    });
+
+    it('should resolve when the operation finishes in time', async () => {
+      await expect(RetryUtil.withTimeout(Promise.resolve('ok'), 100, 'FastLoader')).resolves.toBe('ok');
+      expect(jest.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe('retry', () => {
+    it('should retry retryable errors until the operation succeeds', async () => {
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(awsError('ThrottlingException'))
+        .mockRejectedValueOnce(awsError('ThrottlingException'))
+        .mockResolvedValue('ok');
+      const onRetry = jest.fn();
+
+      await expect(
+        RetryUtil.retry(operation, { retries: 2, backoff: { baseDelayMs: 1 }, onRetry }),
+      ).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after the configured retries', async () => {
+      const error = awsError('ThrottlingException');
+      const operation = jest.fn().mockRejectedValue(error);
+
+      await expect(RetryUtil.retry(operation, { retries: 1, backoff: { baseDelayMs: 1 } })).rejects.toBe(error);
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const error = awsError('AccessDeniedException');
+      const operation = jest.fn().mockRejectedValue(error);
+
+      await expect(RetryUtil.retry(operation, { retries: 3 })).rejects.toBe(error);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import type { BackoffOptions } from '../interfaces/config-loader.interface.js';
+import type { ErrorClassification, RetryOptions } from '../interfaces/retry.interface.js';
+import { LoaderTimeoutError } from '../errors/index.js';
+
+const THROTTLING_ERRORS = new Set([
+  'ThrottlingException',
+  'Throttling',
+  'ThrottledException',
+  'TooManyRequestsException',
+  'RequestLimitExceeded',
+  'RequestThrottled',
+  'RequestThrottledException',
+  'ProvisionedThroughputExceededException',
+  'SlowDown',
+]);
+
+const NETWORK_ERRORS = new Set([
+  'NetworkingError',
+  'TimeoutError',
+  'RequestTimeout',
+  'RequestTimeoutException',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+]);
+
+const UNAVAILABLE_ERRORS = new Set([
+  'ServiceUnavailableException',
+  'ServiceUnavailable',
+  'InternalServerError',
+  'InternalServiceError',
+  'InternalFailure',
+]);
+
+const ACCESS_DENIED_ERRORS = new Set([
+  'AccessDeniedException',
+  'AccessDenied',
+  'UnrecognizedClientException',
+  'InvalidSignatureException',
+  'InvalidClientTokenId',
+  'ExpiredToken',
+  'ExpiredTokenException',
+  'CredentialsProviderError',
+]);
+
+const NOT_FOUND_ERRORS = new Set(['ResourceNotFoundException', 'ParameterNotFound', 'NoSuchKey', 'NoSuchBucket']);
+
+const RETRYABLE: ReadonlySet<ErrorClassification> = new Set(['throttling', 'network', 'unavailable', 'timeout']);
+
+/**
+ * Retry, timeout and error classification helpers shared by ConfigManager and the framework packages.
+ *
+ * Errors are classified from the error itself and its `cause` chain, so an AWSServiceError
+ * wrapping an SDK ThrottlingException is classified as 'throttling'.
+ */
+export class RetryUtil {
+  /** Default number of retries after the first attempt */
+  static readonly DEFAULT_RETRIES = 2;
+
+  /**
+   * Classify an error by its name, Node.js error code or HTTP status code.
+   * @param error The error to classify
+   * @returns The error classification
+   */
+  static classifyError(error: unknown): ErrorClassification {
+    let current: unknown = error;
+    const seen = new Set<unknown>();
+
+    while (current instanceof Error && !seen.has(current)) {
+      seen.add(current);
+
+      const classification = this.classifySingle(current);
+      if (classification !== 'unknown') {
+        return classification;
+      }
+
+      current = (current as { cause?: unknown }).cause;
+    }
+
+    return 'unknown';
+  }
+
+  /**
+   * Check whether an error is transient and worth retrying.
+   * @param error The error to check
+   * @returns true for throttling, network, service unavailable and timeout errors
+   */
+  static isRetryable(error: unknown): boolean {
+    return RETRYABLE.has(this.classifyError(error));
+  }
+
+  /**
+   * Get the jittered exponential backoff delay before a retry.
+   * @param attempt The attempt that failed (1-based)
+   * @param backoff Backoff settings
+   * @returns Delay in milliseconds
+   */
+  static getBackoffDelay(attempt: number, backoff: BackoffOptions = {}): number {
+    const baseDelayMs = backoff.baseDelayMs ?? 1000;
+    const maxDelayMs = backoff.maxDelayMs ?? 30000;
+    const jitter = backoff.jitter ?? 0.25;
+
+    const delay = Math.min(baseDelayMs * Math.pow(2, attempt - 1), maxDelayMs);
+    const spread = delay * jitter * (Math.random() * 2 - 1);
+
+    return Math.max(0, Math.round(delay + spread));
+  }
+
+  /**
+   * Reject if an operation does not settle within the timeout.
+   * @param operation The operation to wait for
+   * @param timeoutMs Timeout in milliseconds, or undefined for no timeout
+   * @param loader Name of the loader, used in the error
+   * @returns The operation result
+   * @throws LoaderTimeoutError if the timeout elapses first
+   */
+  static async withTimeout<R>(operation: Promise<R>, timeoutMs: number | undefined, loader: string): Promise<R> {
+    if (timeoutMs === undefined || timeoutMs <= 0) {
+      return operation;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new LoaderTimeoutError(`${loader} timed out after ${timeoutMs}ms`, loader, timeoutMs)),
+        timeoutMs,
+      );
+    });
+
+    try {
+      return await Promise.race([operation, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Run an operation, retrying retryable errors with jittered exponential backoff.
+   * Non-retryable errors and the error from the last attempt are rethrown.
+   * @param operation The operation to run, receiving the 1-based attempt number
+   * @param options Retry options
+   * @returns The operation result
+   */
+  static async retry<R>(operation: (attempt: number) => Promise<R>, options: RetryOptions = {}): Promise<R> {
+    const attempts = Math.max(0, options.retries ?? this.DEFAULT_RETRIES) + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation(attempt);
+      } catch (error) {
+        if (attempt >= attempts || !this.isRetryable(error)) {
+          throw error;
+        }
+
+        const delay = this.getBackoffDelay(attempt, options.backoff);
+        options.onRetry?.(error instanceof Error ? error : new Error(String(error)), attempt, delay);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Classify a single error without following its cause.
+   */
+  private static classifySingle(error: Error): ErrorClassification {
+    if (error instanceof LoaderTimeoutError) {
+      return 'timeout';
+    }
+
+    const code = (error as { code?: unknown }).code;
+    const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+    const names = [error.name, typeof code === 'string' ? code : undefined];
+
+    if (names.some((name) => name && THROTTLING_ERRORS.has(name)) || status === 429) {
+      return 'throttling';
+    }
+    if (names.some((name) => name && ACCESS_DENIED_ERRORS.has(name)) || status === 401 || status === 403) {
+      return 'access-denied';
+    }
+    if (names.some((name) => name && NOT_FOUND_ERRORS.has(name)) || status === 404) {
+      return 'not-found';
+    }
+    if (names.some((name) => name && NETWORK_ERRORS.has(name))) {
+      return 'network';
+    }
+    if (names.some((name) => name && UNAVAILABLE_ERRORS.has(name)) || (status !== undefined && status >= 500)) {
+      return 'unavailable';
+    }
+
+    return 'unknown';
+  }
+}
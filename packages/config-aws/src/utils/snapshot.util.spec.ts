@@ -0,0 +1,135 @@
+/**
+ * Unit tests for ConfigSnapshotUtil
+ *
+ * Tests snapshot encoding, encryption, schema version and max-age checks.
+ */
+
+import { ConfigSnapshotUtil } from './snapshot.util';
+import { SnapshotError } from '../errors';
+
+describe('ConfigSnapshotUtil', () => {
+  const config = { DB_PASSWORD: 's3cret', database: { port: 5432 } };
+
+  describe('create / read', () => {
+    it('should round-trip an unencrypted snapshot', () => {
+      const savedAt = new Date('2024-01-01T00:00:00.000Z');
+      const data = ConfigSnapshotUtil.create(config, { schemaVersion: 'v1' }, savedAt);
+
+      expect(ConfigSnapshotUtil.read(data)).toEqual({ config, savedAt, schemaVersion: 'v1', sensitiveKeys: [] });
+    });
+
+    it('should round-trip the sensitive keys', () => {
+      const options = { encryptionKey: 'local-key' };
+      const data = ConfigSnapshotUtil.create({ DSN: 'postgres://db' }, options, undefined, ['DSN']);
+
+      expect(ConfigSnapshotUtil.read(data, options).sensitiveKeys).toEqual(['DSN']);
+    });
+
+    it('should encrypt the configuration when a key is given', () => {
+      const data = ConfigSnapshotUtil.create(config, { encryptionKey: 'local-key' });
+
+      expect(data).not.toContain('s3cret');
+      expect(ConfigSnapshotUtil.read(data, { encryptionKey: 'local-key' }).config).toEqual(config);
+    });
+
+    it('should accept Buffer keys', () => {
+      const key = Buffer.from('0123456789abcdef0123456789abcdef');
+      const data = ConfigSnapshotUtil.create(config, { encryptionKey: key });
+
+      expect(ConfigSnapshotUtil.read(data, { encryptionKey: key }).config).toEqual(config);
+    });
+
+    it('should reject encrypted snapshots without a key or with the wrong key', () => {
+      const data = ConfigSnapshotUtil.create(config, { encryptionKey: 'local-key' });
+
+      expect(() => ConfigSnapshotUtil.read(data)).toThrow('no encryptionKey was provided');
+      expect(() => ConfigSnapshotUtil.read(data, { encryptionKey: 'other-key' })).toThrow('Failed to decrypt snapshot');
+    });
+
+    it('should reject tampered snapshots', () => {
+      const envelope = JSON.parse(ConfigSnapshotUtil.create(config, { encryptionKey: 'local-key' }));
+      const ciphertext = Buffer.from(envelope.data, 'base64');
+      ciphertext[0] = ciphertext[0]! ^ 0xff;
+      envelope.data = ciphertext.toString('base64');
+
+      expect(() => ConfigSnapshotUtil.read(JSON.stringify(envelope), { encryptionKey: 'local-key' })).toThrow(
+        SnapshotError,
+      );
+    });
+
+    it('should reject snapshots for another schema version', () => {
+      const data = ConfigSnapshotUtil.create(config, { schemaVersion: 1 });
+
+      expect(() => ConfigSnapshotUtil.read(data, { schemaVersion: 2 })).toThrow(
+        'Snapshot schema version 1 does not match 2',
+      );
+      expect(ConfigSnapshotUtil.read(data, { schemaVersion: 1 }).config).toEqual(config);
+    });
+
+    it('should reject snapshots older than maxAgeMs', () => {
+      const savedAt = new Date('2024-01-01T00:00:00.000Z');
+      const data = ConfigSnapshotUtil.create(config, {}, savedAt);
+      const now = savedAt.getTime() + 60_000;
+
+      expect(() => ConfigSnapshotUtil.read(data, { maxAgeMs: 30_000 }, now)).toThrow('older than the maximum age');
+      expect(ConfigSnapshotUtil.read(data, { maxAgeMs: 60_000 }, now).config).toEqual(config);
+    });
+
+    it('should reject data that is not a snapshot', () => {
+      expect(() => ConfigSnapshotUtil.read('not json')).toThrow('Snapshot is not valid JSON');
+      expect(() => ConfigSnapshotUtil.read(JSON.stringify(config))).toThrow('Data is not a configuration snapshot');
+    });
+  });
+
+  describe('createAsync / readAsync', () => {
+    const options = { encryptionKey: 'local-key', schemaVersion: 'v1' };
+
+    it('should produce snapshots readable by the synchronous reader and vice versa', async () => {
+      const savedAt = new Date('2024-01-01T00:00:00.000Z');
+      const data = await ConfigSnapshotUtil.createAsync(config, options, savedAt, ['DB_PASSWORD']);
+
+      expect(data).not.toContain('s3cret');
+      expect(ConfigSnapshotUtil.read(data, options)).toEqual({
+        config,
+        savedAt,
+        schemaVersion: 'v1',
+        sensitiveKeys: ['DB_PASSWORD'],
+      });
+      await expect(ConfigSnapshotUtil.readAsync(ConfigSnapshotUtil.create(config, options), options)).resolves.toEqual(
+        expect.objectContaining({ config }),
+      );
+    });
+
+    it('should apply the same checks as the synchronous reader', async () => {
+      const data = await ConfigSnapshotUtil.createAsync(config, options);
+
+      await expect(ConfigSnapshotUtil.readAsync(data)).rejects.toThrow('no encryptionKey was provided');
+      await expect(ConfigSnapshotUtil.readAsync(data, { encryptionKey: 'other-key' })).rejects.toThrow(
+        'Failed to decrypt snapshot',
+      );
+      await expect(ConfigSnapshotUtil.readAsync(data, { ...options, schemaVersion: 'v2' })).rejects.toThrow(
+        'does not match v2',
+      );
+      await expect(ConfigSnapshotUtil.readAsync('not json')).rejects.toThrow('Snapshot is not valid JSON');
+    });
+
+    it('should not block the event loop while deriving the key', async () => {
+      let ranWhileDeriving = false;
+      setImmediate(() => {
+        ranWhileDeriving = true;
+      });
+
+      await ConfigSnapshotUtil.createAsync(config, options);
+
+      expect(ranWhileDeriving).toBe(true);
+    });
+  });
+
+  describe('isSnapshot', () => {
+    it('should only accept snapshot envelopes', () => {
+      expect(ConfigSnapshotUtil.isSnapshot(JSON.parse(ConfigSnapshotUtil.create(config)))).toBe(true);
+      expect(ConfigSnapshotUtil.isSnapshot(config)).toBe(false);
+      expect(ConfigSnapshotUtil.isSnapshot(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, scryptSync } from 'crypto';
+import { promisify } from 'util';
+import { SnapshotError } from '../errors/index.js';
+import type { ConfigSnapshot, SnapshotOptions } from '../interfaces/snapshot.interface.js';
+
+const SNAPSHOT_FORMAT = 'config-aws-snapshot';
+const SNAPSHOT_VERSION = 1;
+
+const scryptAsync = promisify(scrypt) as (password: string | Buffer, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/**
+ * On-disk representation of a snapshot
+ */
+interface SnapshotEnvelope {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  savedAt: string;
+  schemaVersion?: string | number;
+  sensitiveKeys?: string[];
+  encryption?: { algorithm: 'aes-256-gcm'; salt: string; iv: string; tag: string };
+  data: unknown;
+}
+
+/**
+ * Utility for writing and reading versioned, optionally encrypted configuration snapshots.
+ *
+ * Encrypted snapshots use AES-256-GCM with a key derived from `encryptionKey` via scrypt,
+ * so a wrong key or a tampered snapshot is detected on read. Key derivation is CPU-bound, so
+ * createAsync() and readAsync() run it on the libuv thread pool instead of blocking the event loop.
+ */
+export class ConfigSnapshotUtil {
+  /**
+   * Create a snapshot of a configuration.
+   * @param config The configuration to store
+   * @param options Encryption key and schema version
+   * @param savedAt When the snapshot is taken. Default: now
+   * @param sensitiveKeys Keys whose values were decrypted, so they stay masked once restored. Default: none
+   * @returns The serialized snapshot
+   */
+  static create(
+    config: unknown,
+    options: Pick<SnapshotOptions, 'encryptionKey' | 'schemaVersion'> = {},
+    savedAt: Date = new Date(),
+    sensitiveKeys: string[] = [],
+  ): string {
+    const envelope = this.buildEnvelope(config, options, savedAt, sensitiveKeys);
+    if (options.encryptionKey !== undefined) {
+      const salt = randomBytes(16);
+      this.encrypt(envelope, config, scryptSync(options.encryptionKey, salt, 32), salt);
+    }
+    return JSON.stringify(envelope);
+  }
+
+  /**
+   * Create a snapshot of a configuration without blocking the event loop while deriving the encryption key.
+   * @param config The configuration to store
+   * @param options Encryption key and schema version
+   * @param savedAt When the snapshot is taken. Default: now
+   * @param sensitiveKeys Keys whose values were decrypted, so they stay masked once restored. Default: none
+   * @returns The serialized snapshot
+   */
+  static async createAsync(
+    config: unknown,
+    options: Pick<SnapshotOptions, 'encryptionKey' | 'schemaVersion'> = {},
+    savedAt: Date = new Date(),
+    sensitiveKeys: string[] = [],
+  ): Promise<string> {
+    const envelope = this.buildEnvelope(config, options, savedAt, sensitiveKeys);
+    if (options.encryptionKey !== undefined) {
+      const salt = randomBytes(16);
+      this.encrypt(envelope, config, await scryptAsync(options.encryptionKey, salt, 32), salt);
+    }
+    return JSON.stringify(envelope);
+  }
+
+  /**
+   * Read a snapshot, checking its schema version and age.
+   * @param data The serialized snapshot
+   * @param options Encryption key, expected schema version and maximum age
+   * @param now Current time in milliseconds. Default: Date.now()
+   * @returns The decoded snapshot
+   * @throws SnapshotError if the snapshot is malformed, cannot be decrypted, is for another schema version or is too old
+   */
+  static read<T = Record<string, unknown>>(
+    data: string,
+    options: Pick<SnapshotOptions, 'encryptionKey' | 'schemaVersion' | 'maxAgeMs'> = {},
+    now: number = Date.now(),
+  ): ConfigSnapshot<T> {
+    const envelope = this.parse(data, options, now);
+    const key = envelope.encryption
+      ? scryptSync(this.requireKey(options.encryptionKey), Buffer.from(envelope.encryption.salt, 'base64'), 32)
+      : undefined;
+    return this.toSnapshot<T>(envelope, key);
+  }
+
+  /**
+   * Read a snapshot without blocking the event loop while deriving the encryption key.
+   * @param data The serialized snapshot
+   * @param options Encryption key, expected schema version and maximum age
+   * @param now Current time in milliseconds. Default: Date.now()
+   * @returns The decoded snapshot
+   * @throws SnapshotError if the snapshot is malformed, cannot be decrypted, is for another schema version or is too old
+   */
+  static async readAsync<T = Record<string, unknown>>(
+    data: string,
+    options: Pick<SnapshotOptions, 'encryptionKey' | 'schemaVersion' | 'maxAgeMs'> = {},
+    now: number = Date.now(),
+  ): Promise<ConfigSnapshot<T>> {
+    const envelope = this.parse(data, options, now);
+    const key = envelope.encryption
+      ? await scryptAsync(this.requireKey(options.encryptionKey), Buffer.from(envelope.encryption.salt, 'base64'), 32)
+      : undefined;
+    return this.toSnapshot<T>(envelope, key);
+  }
+
+  /**
+   * Check whether a parsed value is a snapshot envelope.
+   * @param value The parsed value
+   * @returns true if the value was produced by create()
+   */
+  static isSnapshot(value: unknown): value is SnapshotEnvelope {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      (value as { format?: unknown }).format === SNAPSHOT_FORMAT &&
+      typeof (value as { savedAt?: unknown }).savedAt === 'string'
+    );
+  }
+
+  /**
+   * Build the unencrypted envelope for a configuration.
+   */
+  private static buildEnvelope(
+    config: unknown,
+    options: Pick<SnapshotOptions, 'schemaVersion'>,
+    savedAt: Date,
+    sensitiveKeys: string[],
+  ): SnapshotEnvelope {
+    return {
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      savedAt: savedAt.toISOString(),
+      schemaVersion: options.schemaVersion,
+      sensitiveKeys: sensitiveKeys.length > 0 ? sensitiveKeys : undefined,
+      data: config,
+    };
+  }
+
+  /**
+   * Replace the envelope payload with the configuration encrypted under the derived key.
+   */
+  private static encrypt(envelope: SnapshotEnvelope, config: unknown, key: Buffer, salt: Buffer): void {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(config), 'utf8'), cipher.final()]);
+
+    envelope.encryption = {
+      algorithm: 'aes-256-gcm',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+    };
+    envelope.data = ciphertext.toString('base64');
+  }
+
+  /**
+   * Parse a serialized snapshot and check its format, schema version and age.
+   */
+  private static parse(
+    data: string,
+    options: Pick<SnapshotOptions, 'schemaVersion' | 'maxAgeMs'>,
+    now: number,
+  ): SnapshotEnvelope {
+    let envelope: unknown;
+    try {
+      envelope = JSON.parse(data);
+    } catch (error) {
+      throw new SnapshotError('Snapshot is not valid JSON', error instanceof Error ? error : undefined);
+    }
+
+    if (!this.isSnapshot(envelope)) {
+      throw new SnapshotError('Data is not a configuration snapshot');
+    }
+    if (envelope.version !== SNAPSHOT_VERSION) {
+      throw new SnapshotError(`Unsupported snapshot format version ${envelope.version}`);
+    }
+
+    if (options.schemaVersion !== undefined && envelope.schemaVersion !== options.schemaVersion) {
+      throw new SnapshotError(
+        `Snapshot schema version ${String(envelope.schemaVersion)} does not match ${String(options.schemaVersion)}`,
+      );
+    }
+
+    const savedAt = new Date(envelope.savedAt);
+    if (Number.isNaN(savedAt.getTime())) {
+      throw new SnapshotError(`Snapshot has an invalid timestamp '${envelope.savedAt}'`);
+    }
+
+    const ageMs = now - savedAt.getTime();
+    if (options.maxAgeMs !== undefined && ageMs > options.maxAgeMs) {
+      throw new SnapshotError(`Snapshot from ${envelope.savedAt} is older than the maximum age of ${options.maxAgeMs}ms`);
+    }
+
+    return envelope;
+  }
+
+  /**
+   * Get the encryption key for an encrypted snapshot.
+   */
+  private static requireKey(encryptionKey: string | Buffer | undefined): string | Buffer {
+    if (encryptionKey === undefined) {
+      throw new SnapshotError('Snapshot is encrypted but no encryptionKey was provided');
+    }
+    return encryptionKey;
+  }
+
+  /**
+   * Decode a checked envelope, decrypting its payload with the derived key if it is encrypted.
+   */
+  private static toSnapshot<T>(envelope: SnapshotEnvelope, key: Buffer | undefined): ConfigSnapshot<T> {
+    return {
+      config: this.decode(envelope, key) as T,
+      savedAt: new Date(envelope.savedAt),
+      schemaVersion: envelope.schemaVersion,
+      sensitiveKeys: Array.isArray(envelope.sensitiveKeys) ? envelope.sensitiveKeys : [],
+    };
+  }
+
+  /**
+   * Decode the snapshot payload, decrypting it if needed.
+   */
+  private static decode(envelope: SnapshotEnvelope, key: Buffer | undefined): unknown {
+    if (!envelope.encryption || key === undefined) {
+      return envelope.data;
+    }
+    if (typeof envelope.data !== 'string') {
+      throw new SnapshotError('Encrypted snapshot has no ciphertext');
+    }
+
+    try {
+      const { iv, tag } = envelope.encryption;
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(tag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]);
+      return JSON.parse(plaintext.toString('utf8'));
+    } catch (error) {
+      throw new SnapshotError(
+        'Failed to decrypt snapshot. Check that the encryptionKey matches the one it was written with.',
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+}
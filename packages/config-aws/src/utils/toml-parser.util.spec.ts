@@ -0,0 +1,122 @@
+/**
+ * Unit tests for TomlParser
+ *
+ * Tests tables, arrays of tables, dotted keys, value types and error locations.
+ */
+
+import { TomlParser } from './toml-parser.util';
+import { ConfigParseError } from '../errors';
+
+const parseError = (content: string): ConfigParseError => {
+  try {
+    TomlParser.parse(content);
+  } catch (error) {
+    return error as ConfigParseError;
+  }
+  throw new Error('Expected TomlParser.parse to throw');
+};
+
+describe('TomlParser', () => {
+  it('should parse tables, dotted keys and inline tables', () => {
+    const content = [
+      '# shared platform config',
+      'title = "billing"',
+      'owner.name = \'platform\'',
+      '',
+      '[database]',
+      'host = "db.internal" # primary',
+      'pool = { min = 2, max = 10 }',
+      '',
+      '[database.replica]',
+      'host = "replica.internal"',
+      '',
+      '["quoted key"]',
+      'enabled = true',
+    ].join('\r\n');
+
+    expect(TomlParser.parse(content)).toEqual({
+      title: 'billing',
+      owner: { name: 'platform' },
+      database: { host: 'db.internal', pool: { min: 2, max: 10 }, replica: { host: 'replica.internal' } },
+      'quoted key': { enabled: true },
+    });
+  });
+
+  it('should parse arrays of tables', () => {
+    const content = ['[[servers]]', 'name = "a"', '[servers.tls]', 'enabled = true', '', '[[servers]]', 'name = "b"'].join('\n');
+
+    expect(TomlParser.parse(content)).toEqual({
+      servers: [{ name: 'a', tls: { enabled: true } }, { name: 'b' }],
+    });
+  });
+
+  it('should parse numbers, booleans, dates and multi-line arrays', () => {
+    const content = [
+      'int = +1_000',
+      'hex = 0xff',
+      'oct = 0o17',
+      'bin = 0b101',
+      'float = 6.02e23',
+      'negative = -0.5',
+      'infinite = -inf',
+      'flag = false',
+      'released = 1979-05-27T07:32:00Z',
+      'day = 1979-05-27',
+      'ports = [',
+      '  80,  # http',
+      '  443,',
+      ']',
+    ].join('\n');
+
+    expect(TomlParser.parse(content)).toEqual({
+      int: 1000,
+      hex: 255,
+      oct: 15,
+      bin: 5,
+      float: 6.02e23,
+      negative: -0.5,
+      infinite: -Infinity,
+      flag: false,
+      released: '1979-05-27T07:32:00.000Z',
+      day: '1979-05-27',
+      ports: [80, 443],
+    });
+  });
+
+  it('should parse basic, literal and multi-line strings', () => {
+    const content = [
+      'basic = "say \\"hi\\"\\n\\u00e9"',
+      "literal = 'C:\\path\\no-escapes'",
+      'multi = """',
+      'first \\',
+      '   second',
+      'third"""',
+      "raw = '''",
+      "keep \\n as is'''",
+    ].join('\n');
+
+    expect(TomlParser.parse(content)).toEqual({
+      basic: 'say "hi"\né',
+      literal: 'C:\\path\\no-escapes',
+      multi: 'first second\nthird',
+      raw: 'keep \\n as is',
+    });
+  });
+
+  it.each([
+    ['a = 1\na = 2', 'Trying to redefine an already defined table or value', 2, 1],
+    ['[a]\nx = 1\n[a]', 'Trying to redefine an already defined table or value', 3, 2],
+    ['a = 01', 'Illegal leading zero', 1, 5],
+    ['a = 1 b = 2', 'Each key-value declaration must be followed by an end-of-line', 1, 7],
+    ['a = [1 2]', 'Expected comma or end of structure', 1, 8],
+    ['a = "\\q"', 'Unrecognised escape sequence', 1, 7],
+  ])('should report %j with its line and column', (content, message, line, column) => {
+    const error = parseError(content);
+
+    expect(error).toBeInstanceOf(ConfigParseError);
+    expect(error.message).toBe(`${message} at line ${line}, column ${column}`);
+    expect(error.format).toBe('toml');
+    expect(error.line).toBe(line);
+    expect(error.column).toBe(column);
+  });
+});
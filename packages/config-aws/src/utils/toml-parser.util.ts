@@ -0,0 +1,47 @@
+import { parse, TomlError } from 'smol-toml';
+
+import { ConfigParseError } from '../errors/index.js';
+
+/**
+ * Parser for TOML v1.0 documents, backed by the `smol-toml` package.
+ *
+ * Offset date-times, local date-times, local dates and local times are returned as
+ * ISO 8601 strings, e.g. '1979-05-27T07:32:00.000Z' or '1979-05-27', so the result is
+ * plain JSON-compatible data.
+ */
+export class TomlParser {
+  /**
+   * Parse a TOML document.
+   * @param content The raw TOML content
+   * @returns The root table
+   * @throws ConfigParseError with the line and column of the first error
+   */
+  static parse(content: string): Record<string, unknown> {
+    try {
+      return this.toPlainData(parse(content)) as Record<string, unknown>;
+    } catch (error) {
+      if (error instanceof TomlError) {
+        const message = error.message.replace(/^Invalid TOML document: /, '').split('\n')[0]!;
+        throw new ConfigParseError(message.charAt(0).toUpperCase() + message.slice(1), 'toml', error.line, error.column, error);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ConfigParseError(message, 'toml', undefined, undefined, error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * Replace dates with their ISO 8601 strings, recursing into tables and arrays.
+   */
+  private static toPlainData(value: unknown): unknown {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.toPlainData(item));
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.toPlainData(item)]));
+    }
+    return value;
+  }
+}
@@ -1,11 +1,92 @@
 import type { ZodType, ZodError, TypeOf } from 'zod';
 import { ValidationError } from '../errors/index.js';
+import type {
+  AttributedValidationIssue,
+  ConfigSchema,
+  ConfigValidator,
+  ValidationIssue,
+} from '../interfaces/validator.interface.js';
+import { ZodConfigValidator } from '../validators/zod.validator.js';
+import { StandardSchemaConfigValidator } from '../validators/standard-schema.validator.js';
 
 /**
  * Framework-agnostic validation utility for configuration values.
- * Provides methods for validating configuration objects against Zod schemas.
+ * Provides methods for validating configuration objects against Zod schemas,
+ * and for adapting other validation libraries to ConfigValidator.
  */
 export class ConfigValidationUtil {
+  /**
+   * Wrap a schema in a ConfigValidator.
+   * Zod schemas and Standard Schemas are adapted; ConfigValidators are returned unchanged.
+   * @param schema A Zod schema, Standard Schema or ConfigValidator
+   * @returns The validator
+   */
+  static toValidator<T>(schema: ConfigSchema<T>): ConfigValidator<T> {
+    if (typeof (schema as ZodType<T>).safeParse === 'function') {
+      return new ZodConfigValidator(schema as ZodType<T>);
+    }
+    if ('~standard' in schema) {
+      return new StandardSchemaConfigValidator(schema);
+    }
+    return schema as ConfigValidator<T>;
+  }
+
+  /**
+   * Create a ValidationError for the issues reported by a validator.
+   * Issues that name the loader that supplied the value mention it in the message.
+   * @param issues The validation issues, optionally attributed to a value and loader
+   * @param context Message prefix. Default: 'Configuration validation failed'
+   * @returns The error, with issues formatted by formatValidationErrors()
+   */
+  static createValidationError(
+    issues: Array<ValidationIssue | AttributedValidationIssue>,
+    context: string = 'Configuration validation failed',
+  ): ValidationError {
+    const attributed = issues.map((issue): AttributedValidationIssue => ({
+      key: issue.path.join('.'),
+      ...issue,
+    }));
+    const summary = attributed
+      .map((issue) => `${issue.key}: ${issue.message}${issue.loader ? ` (from ${issue.loader})` : ''}`)
+      .join(', ');
+
+    return new ValidationError(`${context}: ${summary}`, this.formatValidationErrors(issues), undefined, attributed);
+  }
+
+  /**
+   * Format a ValidationError as a multi-line report for startup logs,
+   * listing each issue with its masked value and the loader that supplied it.
+   * @param error The validation error
+   * @returns The report
+   *
+   * @example
+   * ```
+   * Configuration validation failed with 2 issues:
+   *   - PORT: Expected number, received nan
+   *       value:  ab**...cd
+   *       source: EnvFileLoader
+   *   - DATABASE_URL: Required
+   *       value:  (missing)
+   *       source: (not set by any loader)
+   * ```
+   */
+  static formatValidationReport(error: ValidationError): string {
+    if (error.issues.length === 0) {
+      return error.message;
+    }
+
+    const count = error.issues.length === 1 ? '1 issue' : `${error.issues.length} issues`;
+    const lines = [`Configuration validation failed with ${count}:`];
+
+    for (const issue of error.issues) {
+      lines.push(`  - ${issue.key || '(root)'}: ${issue.message}`);
+      lines.push(`      value:  ${issue.maskedValue ?? '(missing)'}`);
+      lines.push(`      source: ${issue.loader ?? '(not set by any loader)'}`);
+    }
+
+    return lines.join('\n');
+  }
+
   /**
    * Validates a value against a Zod schema.
    * @param schema The Zod schema to validate against
@@ -56,21 +137,23 @@ export class ConfigValidationUtil {
   }
 
   /**
-   * Formats Zod validation errors into a structured format.
-   * @param error The ZodError to format
+   * Formats Zod validation errors, or issues from any ConfigValidator, into a structured format.
+   * @param error The ZodError or validation issues to format
    * @returns Formatted error object or string
    */
-  static formatValidationErrors(error: ZodError): unknown {
+  static formatValidationErrors(error: ZodError | ValidationIssue[]): unknown {
+    const issues: ValidationIssue[] = Array.isArray(error) ? error : error.issues;
+
     // If there's only one error at the root level, return just the message
-    if (error.issues.length === 1) {
-      const issue = error.issues[0];
+    if (issues.length === 1) {
+      const issue = issues[0];
       if (issue && Array.isArray(issue.path) && issue.path.length === 0) {
         return issue.message;
       }
     }
 
     // For multiple errors or nested paths, create a structured object
-    return error.issues.reduce(
+    return issues.reduce(
       (errors, issue) => {
         const path = issue.path.join('.');
         const key = path || 'root';
@@ -81,7 +164,7 @@ export class ConfigValidationUtil {
 
         errors[key].push({
           message: issue.message,
-          code: issue.code,
+          code: issue.code ?? 'custom',
           path: issue.path,
         });
 
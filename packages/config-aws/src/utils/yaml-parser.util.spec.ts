@@ -0,0 +1,137 @@
+/**
+ * Unit tests for YamlParser
+ *
+ * Tests block and flow collections, scalar resolution, block scalars, aliases and error locations.
+ */
+
+import { YamlParser } from './yaml-parser.util';
+import { ConfigParseError } from '../errors';
+
+const parseError = (content: string): ConfigParseError => {
+  try {
+    YamlParser.parse(content);
+  } catch (error) {
+    return error as ConfigParseError;
+  }
+  throw new Error('Expected YamlParser.parse to throw');
+};
+
+describe('YamlParser', () => {
+  it('should parse nested mappings and resolve scalars with the core schema', () => {
+    const content = [
+      '# shared platform config',
+      '---',
+      'service:',
+      '  name: billing   # trailing comment',
+      '  port: 8080',
+      '  ratio: 0.25',
+      '  debug: false',
+      '  owner: ~',
+      '  empty:',
+      '  url: https://example.com/#anchor',
+      "  quoted: '042'",
+      '  escaped: "tab\\there \\u00e9"',
+      "  \"spaced key\": 'it''s'",
+      '...',
+    ].join('\n');
+
+    expect(YamlParser.parse(content)).toEqual({
+      service: {
+        name: 'billing',
+        port: 8080,
+        ratio: 0.25,
+        debug: false,
+        owner: null,
+        empty: null,
+        url: 'https://example.com/#anchor',
+        quoted: '042',
+        escaped: 'tab\there é',
+        'spaced key': "it's",
+      },
+    });
+  });
+
+  it('should parse block sequences, including sequences of mappings and nested sequences', () => {
+    const content = [
+      'hosts:',
+      '- a.internal',
+      '- b.internal',
+      'replicas:',
+      '  - name: primary',
+      '    weight: 2',
+      '  - name: replica',
+      '    tags:',
+      '      - read',
+      '  - - 1',
+      '    - 2',
+    ].join('\r\n');
+
+    expect(YamlParser.parse(content)).toEqual({
+      hosts: ['a.internal', 'b.internal'],
+      replicas: [{ name: 'primary', weight: 2 }, { name: 'replica', tags: ['read'] }, [1, 2]],
+    });
+  });
+
+  it('should parse flow collections', () => {
+    expect(YamlParser.parse('ports: [80, 443, ]\nlimits: {cpu: "2", memory: 512Mi, burst: }')).toEqual({
+      ports: [80, 443],
+      limits: { cpu: '2', memory: '512Mi', burst: null },
+    });
+  });
+
+  it('should parse literal and folded block scalars with chomping indicators', () => {
+    const content = [
+      'literal: |',
+      '  line one',
+      '    indented',
+      '',
+      'folded: >-',
+      '  joined',
+      '  words',
+      '',
+      '  new paragraph',
+      'kept: |+',
+      '  text',
+      '',
+      'last: end',
+    ].join('\n');
+
+    expect(YamlParser.parse(content)).toEqual({
+      literal: 'line one\n  indented\n',
+      folded: 'joined words\nnew paragraph',
+      kept: 'text\n\n',
+      last: 'end',
+    });
+  });
+
+  it('should expand anchors and aliases', () => {
+    const content = ['defaults: &defaults', '  timeout: 30', 'service:', '  settings: *defaults', '  retries: 3'].join('\n');
+
+    expect(YamlParser.parse(content)).toEqual({
+      defaults: { timeout: 30 },
+      service: { settings: { timeout: 30 }, retries: 3 },
+    });
+  });
+
+  it('should return null for an empty document and wrap nothing else', () => {
+    expect(YamlParser.parse('# only a comment\n')).toBeNull();
+    expect(YamlParser.parse('- a\n- b')).toEqual(['a', 'b']);
+    expect(YamlParser.parse('plain text')).toBe('plain text');
+  });
+
+  it.each([
+    ['a: 1\na: 2', 'Map keys must be unique', 2, 1],
+    ['a:\n\t- 1', 'Tabs are not allowed as indentation', 2, 1],
+    ['a: "open', 'Missing closing "quote', 1, 9],
+    ['a: 1\n---\nb: 2', 'Source contains multiple documents; please use YAML.parseAllDocuments()', 2, 1],
+    ['list:\n  - a\n  b: 1', 'All mapping items must start at the same column', 3, 1],
+  ])('should report %j with its line and column', (content, message, line, column) => {
+    const error = parseError(content);
+
+    expect(error).toBeInstanceOf(ConfigParseError);
+    expect(error.message).toBe(`${message} at line ${line}, column ${column}`);
+    expect(error.format).toBe('yaml');
+    expect(error.line).toBe(line);
+    expect(error.column).toBe(column);
+  });
+});
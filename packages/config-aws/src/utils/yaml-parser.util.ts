@@ -0,0 +1,31 @@
+import { parse, YAMLParseError } from 'yaml';
+
+import { ConfigParseError } from '../errors/index.js';
+
+/**
+ * Parser for YAML configuration files, backed by the `yaml` package.
+ *
+ * A single YAML 1.2 document is parsed with the core schema: null, true/false, integers and floats
+ * become their JSON equivalents and everything else is a string. Anchors and aliases are expanded,
+ * and duplicate keys and multiple documents are rejected.
+ */
+export class YamlParser {
+  /**
+   * Parse a YAML document.
+   * @param content The raw YAML content
+   * @returns The document's value, or null for an empty document
+   * @throws ConfigParseError with the line and column of the first error
+   */
+  static parse(content: string): unknown {
+    try {
+      return parse(content);
+    } catch (error) {
+      if (error instanceof YAMLParseError && error.linePos) {
+        const message = error.message.replace(/ at line \d+, column \d+:[\s\S]*$/, '');
+        throw new ConfigParseError(message, 'yaml', error.linePos[0].line, error.linePos[0].col, error);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ConfigParseError(message, 'yaml', undefined, undefined, error instanceof Error ? error : undefined);
+    }
+  }
+}
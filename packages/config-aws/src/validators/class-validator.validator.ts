@@ -0,0 +1,76 @@
+import type { ConfigValidationResult, ConfigValidator, ValidationIssue } from '../interfaces/validator.interface.js';
+
+/**
+ * A class-validator error, so core does not depend on class-validator
+ */
+export interface ClassValidatorErrorLike {
+  property: string;
+  constraints?: Record<string, string>;
+  children?: ClassValidatorErrorLike[];
+}
+
+/**
+ * The class-validator and class-transformer functions used for validation
+ */
+export interface ClassValidatorFunctions {
+  /** `validateSync` from class-validator */
+  validateSync(object: object, options?: Record<string, unknown>): ClassValidatorErrorLike[];
+  /** `plainToInstance` from class-transformer */
+  plainToInstance<T>(cls: new () => T, plain: unknown): T;
+}
+
+/**
+ * Validates configuration with a class decorated with class-validator decorators.
+ * The configuration is converted to an instance of the class with class-transformer,
+ * so `@Type()` conversions apply, and the instance is returned as the configuration.
+ *
+ * @example
+ * ```typescript
+ * import { validateSync } from 'class-validator';
+ * import { plainToInstance } from 'class-transformer';
+ *
+ * const config = new ConfigManager({
+ *   schema: new ClassValidatorConfigValidator(AppConfig, { validateSync, plainToInstance }),
+ * });
+ * ```
+ */
+export class ClassValidatorConfigValidator<T extends object> implements ConfigValidator<T> {
+  readonly name = 'class-validator';
+
+  /**
+   * @param schemaClass The decorated configuration class
+   * @param functions validateSync from class-validator and plainToInstance from class-transformer
+   * @param options class-validator options passed to validateSync
+   */
+  constructor(
+    private readonly schemaClass: new () => T,
+    private readonly functions: ClassValidatorFunctions,
+    private readonly options: Record<string, unknown> = {},
+  ) {}
+
+  /**
+   * Validate a configuration object.
+   * @param value The configuration to validate
+   * @returns The class instance, or one issue per failed constraint
+   */
+  validate(value: unknown): ConfigValidationResult<T> {
+    const instance = this.functions.plainToInstance(this.schemaClass, value);
+    const errors = this.functions.validateSync(instance, this.options);
+    if (errors.length === 0) {
+      return { success: true, data: instance };
+    }
+
+    return { success: false, issues: this.collectIssues(errors, []) };
+  }
+
+  /**
+   * Flatten nested class-validator errors into issues with full paths.
+   */
+  private collectIssues(errors: ClassValidatorErrorLike[], parentPath: string[]): ValidationIssue[] {
+    return errors.flatMap((error) => {
+      const path = [...parentPath, error.property];
+      const issues = Object.entries(error.constraints ?? {}).map(([code, message]) => ({ path, message, code }));
+      return [...issues, ...this.collectIssues(error.children ?? [], path)];
+    });
+  }
+}
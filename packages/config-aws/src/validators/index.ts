@@ -0,0 +1,4 @@
+export { ZodConfigValidator } from './zod.validator.js';
+export { StandardSchemaConfigValidator } from './standard-schema.validator.js';
+export { JoiConfigValidator } from './joi.validator.js';
+export { ClassValidatorConfigValidator } from './class-validator.validator.js';
@@ -0,0 +1,58 @@
+import type { ConfigValidationResult, ConfigValidator } from '../interfaces/validator.interface.js';
+
+/**
+ * The parts of a Joi schema used for validation, so core does not depend on Joi
+ */
+export interface JoiSchemaLike<T> {
+  validate(
+    value: unknown,
+    options?: Record<string, unknown>,
+  ): {
+    value: T;
+    error?: { message: string; details?: Array<{ message: string; path: (string | number)[]; type: string }> };
+  };
+}
+
+/**
+ * Validates configuration with a Joi schema.
+ * All errors are collected and values are converted (e.g. '3000' to 3000) as Joi does by default.
+ *
+ * @example
+ * ```typescript
+ * import Joi from 'joi';
+ *
+ * const config = new ConfigManager({
+ *   schema: new JoiConfigValidator(Joi.object({ PORT: Joi.number().required() }).unknown()),
+ * });
+ * ```
+ */
+export class JoiConfigValidator<T = Record<string, unknown>> implements ConfigValidator<T> {
+  readonly name = 'joi';
+
+  /**
+   * @param schema The Joi schema
+   * @param options Joi validation options, merged over `{ abortEarly: false }`
+   */
+  constructor(
+    private readonly schema: JoiSchemaLike<T>,
+    private readonly options: Record<string, unknown> = {},
+  ) {}
+
+  /**
+   * Validate a configuration object.
+   * @param value The configuration to validate
+   * @returns The converted configuration, or the Joi error details
+   */
+  validate(value: unknown): ConfigValidationResult<T> {
+    const { value: data, error } = this.schema.validate(value, { abortEarly: false, ...this.options });
+    if (!error) {
+      return { success: true, data };
+    }
+
+    const details = error.details ?? [{ message: error.message, path: [], type: 'any.invalid' }];
+    return {
+      success: false,
+      issues: details.map((detail) => ({ path: detail.path, message: detail.message, code: detail.type })),
+    };
+  }
+}
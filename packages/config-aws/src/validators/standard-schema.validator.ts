@@ -0,0 +1,55 @@
+import type {
+  ConfigValidationResult,
+  ConfigValidator,
+  StandardSchemaResult,
+  StandardSchemaV1,
+} from '../interfaces/validator.interface.js';
+
+/**
+ * Validates configuration with any Standard Schema v1 implementation, such as Valibot or ArkType.
+ * ConfigManager wraps Standard Schemas passed as `schema` in this adapter automatically.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'valibot';
+ *
+ * const validator = new StandardSchemaConfigValidator(v.object({ PORT: v.string() }));
+ * ```
+ */
+export class StandardSchemaConfigValidator<T = Record<string, unknown>> implements ConfigValidator<T> {
+  readonly name: string;
+
+  constructor(private readonly schema: StandardSchemaV1<unknown, T>) {
+    this.name = schema['~standard'].vendor;
+  }
+
+  /**
+   * Validate a configuration object. Async schemas return a promise.
+   * @param value The configuration to validate
+   * @returns The validated configuration, or the issues found
+   */
+  validate(value: unknown): ConfigValidationResult<T> | Promise<ConfigValidationResult<T>> {
+    const result = this.schema['~standard'].validate(value);
+    return result instanceof Promise ? result.then((r) => this.toResult(r)) : this.toResult(result);
+  }
+
+  /**
+   * Convert a Standard Schema result, flattening path segments to keys.
+   */
+  private toResult(result: StandardSchemaResult<T>): ConfigValidationResult<T> {
+    if (!result.issues) {
+      return { success: true, data: result.value };
+    }
+
+    return {
+      success: false,
+      issues: result.issues.map((issue) => ({
+        path: (issue.path ?? []).map((segment) => {
+          const key = typeof segment === 'object' ? segment.key : segment;
+          return typeof key === 'number' ? key : String(key);
+        }),
+        message: issue.message,
+      })),
+    };
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Unit tests for the validator adapters
+ *
+ * Tests the Zod, Standard Schema, Joi and class-validator adapters and ConfigValidationUtil.toValidator().
+ */
+
+import { z } from 'zod';
+import { ZodConfigValidator } from './zod.validator';
+import { StandardSchemaConfigValidator } from './standard-schema.validator';
+import { JoiConfigValidator, type JoiSchemaLike } from './joi.validator';
+import { ClassValidatorConfigValidator, type ClassValidatorFunctions } from './class-validator.validator';
+import { ConfigValidationUtil } from '../utils/validation.util';
+import type { ConfigValidator, StandardSchemaV1 } from '../interfaces/validator.interface';
+
+/**
+ * Minimal Standard Schema requiring a string PORT
+ */
+const portSchema = (async = false): StandardSchemaV1<unknown, { PORT: string }> => ({
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => {
+      const port = (value as { PORT?: unknown }).PORT;
+      const result =
+        typeof port === 'string'
+          ? { value: { PORT: port } }
+          : { issues: [{ message: 'Expected string', path: [{ key: 'PORT' }] }] };
+      return async ? Promise.resolve(result) : result;
+    },
+  },
+});
+
+describe('validator adapters', () => {
+  describe('ZodConfigValidator', () => {
+    it('should return parsed data or zod issues', () => {
+      const validator = new ZodConfigValidator(z.object({ PORT: z.coerce.number() }));
+
+      expect(validator.validate({ PORT: '3000' })).toEqual({ success: true, data: { PORT: 3000 } });
+      expect(validator.validate({ PORT: 'abc' })).toEqual({
+        success: false,
+        issues: [{ path: ['PORT'], message: 'Expected number, received nan', code: 'invalid_type' }],
+      });
+    });
+  });
+
+  describe('StandardSchemaConfigValidator', () => {
+    it('should use the vendor as its name and flatten path segments', () => {
+      const validator = new StandardSchemaConfigValidator(portSchema());
+
+      expect(validator.name).toBe('test');
+      expect(validator.validate({ PORT: '80' })).toEqual({ success: true, data: { PORT: '80' } });
+      expect(validator.validate({})).toEqual({
+        success: false,
+        issues: [{ path: ['PORT'], message: 'Expected string' }],
+      });
+    });
+
+    it('should support asynchronous schemas', async () => {
+      const validator = new StandardSchemaConfigValidator(portSchema(true));
+
+      await expect(validator.validate({ PORT: '80' })).resolves.toEqual({ success: true, data: { PORT: '80' } });
+    });
+  });
+
+  describe('JoiConfigValidator', () => {
+    it('should collect all error details', () => {
+      const schema: JoiSchemaLike<Record<string, unknown>> = {
+        validate: jest.fn((value: unknown) => ({
+          value: value as Record<string, unknown>,
+          error: {
+            message: 'invalid',
+            details: [
+              { message: '"PORT" must be a number', path: ['PORT'], type: 'number.base' },
+              { message: '"HOST" is required', path: ['HOST'], type: 'any.required' },
+            ],
+          },
+        })),
+      };
+
+      const result = new JoiConfigValidator(schema, { allowUnknown: true }).validate({ PORT: 'x' });
+
+      expect(schema.validate).toHaveBeenCalledWith({ PORT: 'x' }, { abortEarly: false, allowUnknown: true });
+      expect(result).toEqual({
+        success: false,
+        issues: [
+          { path: ['PORT'], message: '"PORT" must be a number', code: 'number.base' },
+          { path: ['HOST'], message: '"HOST" is required', code: 'any.required' },
+        ],
+      });
+    });
+
+    it('should return the converted value on success', () => {
+      const schema: JoiSchemaLike<{ PORT: number }> = { validate: () => ({ value: { PORT: 3000 } }) };
+
+      expect(new JoiConfigValidator(schema).validate({ PORT: '3000' })).toEqual({ success: true, data: { PORT: 3000 } });
+    });
+  });
+
+  describe('ClassValidatorConfigValidator', () => {
+    class DatabaseConfig {
+      host!: string;
+    }
+    class AppConfig {
+      PORT!: number;
+      database!: DatabaseConfig;
+    }
+
+    const functions = (errors: ReturnType<ClassValidatorFunctions['validateSync']>): ClassValidatorFunctions => ({
+      plainToInstance: <T>(cls: new () => T, plain: unknown) => Object.assign(new cls() as object, plain) as T,
+      validateSync: () => errors,
+    });
+
+    it('should return the class instance when valid', () => {
+      const result = new ClassValidatorConfigValidator(AppConfig, functions([])).validate({ PORT: 1 });
+
+      expect(result.success).toBe(true);
+      expect(result.success && result.data).toBeInstanceOf(AppConfig);
+    });
+
+    it('should flatten nested constraint errors into issues', () => {
+      const validator = new ClassValidatorConfigValidator(
+        AppConfig,
+        functions([
+          { property: 'PORT', constraints: { isNumber: 'PORT must be a number' } },
+          { property: 'database', children: [{ property: 'host', constraints: { isString: 'host must be a string' } }] },
+        ]),
+      );
+
+      expect(validator.validate({})).toEqual({
+        success: false,
+        issues: [
+          { path: ['PORT'], message: 'PORT must be a number', code: 'isNumber' },
+          { path: ['database', 'host'], message: 'host must be a string', code: 'isString' },
+        ],
+      });
+    });
+  });
+
+  describe('ConfigValidationUtil', () => {
+    it('should adapt Zod schemas and Standard Schemas and pass validators through', () => {
+      const custom: ConfigValidator = { name: 'custom', validate: (value) => ({ success: true, data: value as Record<string, unknown> }) };
+
+      expect(ConfigValidationUtil.toValidator(z.object({}))).toBeInstanceOf(ZodConfigValidator);
+      expect(ConfigValidationUtil.toValidator(portSchema())).toBeInstanceOf(StandardSchemaConfigValidator);
+      expect(ConfigValidationUtil.toValidator(custom)).toBe(custom);
+    });
+
+    it('should format issues from any validator', () => {
+      const error = ConfigValidationUtil.createValidationError([
+        { path: ['PORT'], message: 'must be a number', code: 'number.base' },
+        { path: ['HOST'], message: 'is required' },
+      ]);
+
+      expect(error.message).toBe('Configuration validation failed: PORT: must be a number, HOST: is required');
+      expect(error.validationErrors).toEqual({
+        PORT: [{ message: 'must be a number', code: 'number.base', path: ['PORT'] }],
+        HOST: [{ message: 'is required', code: 'custom', path: ['HOST'] }],
+      });
+    });
+  });
+});
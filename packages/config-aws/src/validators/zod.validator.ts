@@ -0,0 +1,38 @@
+import type { ZodType } from 'zod';
+import type { ConfigValidationResult, ConfigValidator } from '../interfaces/validator.interface.js';
+
+/**
+ * Validates configuration with a Zod schema.
+ * ConfigManager wraps Zod schemas passed as `schema` in this adapter automatically.
+ *
+ * @example
+ * ```typescript
+ * const validator = new ZodConfigValidator(z.object({ PORT: z.coerce.number() }));
+ * ```
+ */
+export class ZodConfigValidator<T = Record<string, unknown>> implements ConfigValidator<T> {
+  readonly name = 'zod';
+
+  constructor(private readonly schema: ZodType<T>) {}
+
+  /**
+   * Validate a configuration object with safeParse().
+   * @param value The configuration to validate
+   * @returns The parsed configuration, or the Zod issues
+   */
+  validate(value: unknown): ConfigValidationResult<T> {
+    const result = this.schema.safeParse(value);
+    if (result.success) {
+      return { success: true, data: result.data };
+    }
+
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path,
+        message: issue.message,
+        code: issue.code,
+      })),
+    };
+  }
+}
@@ -45,6 +45,7 @@ import {
   TransformConfig,
   createTypeSafeConfigFactory,
 } from '../index';
+import type { RotatingSecretOptions, SecretStage } from '../index';
 
 // Test that all expected exports are available from the main package
 describe('Backward Compatibility - Package Exports', () => {
@@ -227,60 +228,79 @@ describe('Backward Compatibility - ConfigModule API', () => {
 });
 
 describe('Backward Compatibility - ConfigService API', () => {
+  // Concrete implementation used to verify the abstract members
+  class TestConfigService extends ConfigService<{ test: string }> {
+    get<K extends keyof { test: string }>(_key: K): { test: string }[K] {
+      return 'value' as any;
+    }
+    getOrThrow<V = unknown>(_key: string): V {
+      return 'value' as V;
+    }
+    getString(_key: string, _defaultValue?: string): string {
+      return 'value';
+    }
+    getNumber(_key: string, _defaultValue?: number): number {
+      return 1;
+    }
+    getBoolean(_key: string, _defaultValue?: boolean): boolean {
+      return true;
+    }
+    getJson<V = unknown>(_key: string, _defaultValue?: V): V {
+      return {} as V;
+    }
+    getList(_key: string, _defaultValue?: string[], _separator?: string): string[] {
+      return ['value'];
+    }
+    getDuration(_key: string, _defaultValue?: number | string): number {
+      return 1000;
+    }
+    getUrl(_key: string, _defaultValue?: string | URL): URL {
+      return new URL('https://example.com');
+    }
+    async withRotatingSecret<V = Record<string, unknown>, R = unknown>(
+      _key: string,
+      fn: (credential: V, stage: SecretStage) => R | Promise<R>,
+      _options?: RotatingSecretOptions,
+    ): Promise<R> {
+      return fn({} as V, 'current');
+    }
+    isInitialized(): boolean {
+      return true;
+    }
+    getAll(): { test: string } {
+      return { test: 'value' };
+    }
+  }
+
   it('should be an abstract class with get method signature', () => {
     // ConfigService is an abstract class - verify it exists and can be extended
     expect(ConfigService).toBeDefined();
     
-    // Create a concrete implementation to verify the interface
-    class TestConfigService extends ConfigService<{ test: string }> {
-      get<K extends keyof { test: string }>(_key: K): { test: string }[K] {
-        return 'value' as any;
-      }
-      isInitialized(): boolean {
-        return true;
-      }
-      getAll(): { test: string } {
-        return { test: 'value' };
-      }
-    }
-    
     const service = new TestConfigService();
     expect(service.get('test')).toBe('value');
   });
 
   it('should be an abstract class with isInitialized method signature', () => {
-    class TestConfigService extends ConfigService<{ test: string }> {
-      get<K extends keyof { test: string }>(_key: K): { test: string }[K] {
-        return 'value' as any;
-      }
-      isInitialized(): boolean {
-        return true;
-      }
-      getAll(): { test: string } {
-        return { test: 'value' };
-      }
-    }
-    
     const service = new TestConfigService();
     expect(service.isInitialized()).toBe(true);
   });
 
   it('should be an abstract class with getAll method signature', () => {
-    class TestConfigService extends ConfigService<{ test: string }> {
-      get<K extends keyof { test: string }>(_key: K): { test: string }[K] {
-        return 'value' as any;
-      }
-      isInitialized(): boolean {
-        return true;
-      }
-      getAll(): { test: string } {
-        return { test: 'value' };
-      }
-    }
-    
     const service = new TestConfigService();
     expect(service.getAll()).toEqual({ test: 'value' });
   });
+
+  it('should declare typed accessors so injected ConfigService needs no cast', async () => {
+    const service: ConfigService<{ test: string }> = new TestConfigService();
+
+    expect(service.getString('test')).toBe('value');
+    expect(service.getNumber('test')).toBe(1);
+    expect(service.getBoolean('test')).toBe(true);
+    expect(service.getList('test')).toEqual(['value']);
+    expect(service.getDuration('test')).toBe(1000);
+    expect(service.getUrl('test').hostname).toBe('example.com');
+    await expect(service.withRotatingSecret('test', (_credential, stage) => stage)).resolves.toBe('current');
+  });
 });
 
 describe('Backward Compatibility - NestConfigAwsIntegrationModule API', () => {
@@ -0,0 +1,76 @@
+/**
+ * ConfigModule loader policy tests
+ *
+ * Verifies that the module applies the required, onError and keyTransform options
+ * of the Secrets Manager and SSM sources when the ConfigService is created.
+ */
+
+import { Test } from '@nestjs/testing';
+import { z } from 'zod';
+import { SecretsManagerLoader } from '@dyanet/config-aws';
+import { ConfigModule } from '../config.module';
+import { ConfigService } from '../interfaces/config-service.interface';
+import { NestConfigAwsModuleOptions } from '../interfaces/module-options.interface';
+
+const schema = z.object({
+  HOST: z.string(),
+  DB_PASSWORD: z.string().optional(),
+});
+
+const createConfigService = async (options: NestConfigAwsModuleOptions<z.infer<typeof schema>>) => {
+  const module = await Test.createTestingModule({
+    imports: [ConfigModule.forRoot({ envPrefix: 'APP_', schema, ssmConfig: { enabled: false }, ...options })],
+  }).compile();
+
+  return module.get<ConfigService<z.infer<typeof schema>>>(ConfigService);
+};
+
+describe('ConfigModule source options', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    process.env['APP_HOST'] = 'localhost';
+    jest.spyOn(SecretsManagerLoader.prototype, 'getName').mockReturnValue('SecretsManagerLoader(app)');
+    jest.spyOn(SecretsManagerLoader.prototype, 'isAvailable').mockResolvedValue(true);
+    jest.spyOn(SecretsManagerLoader.prototype, 'load').mockRejectedValue(
+      Object.assign(new Error('User is not authorized to perform GetSecretValue'), { name: 'AccessDeniedException' })
+    );
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    delete process.env['APP_HOST'];
+    jest.restoreAllMocks();
+  });
+
+  it('should fail to create the ConfigService when a required source fails', async () => {
+    await expect(
+      createConfigService({ secretsManagerConfig: { required: true, onError: 'silent' } })
+    ).rejects.toThrow('User is not authorized to perform GetSecretValue');
+  });
+
+  it('should skip a source that is not required and warn', async () => {
+    const configService = await createConfigService({ secretsManagerConfig: { required: false } });
+
+    expect(configService.get('HOST')).toBe('localhost');
+    expect(configService.get('DB_PASSWORD')).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('SecretsManagerLoader(app) failed and was skipped'));
+  });
+
+  it('should apply the keyTransform option of a source', async () => {
+    jest.spyOn(SecretsManagerLoader.prototype, 'load').mockResolvedValue({ dbPassword: 's3cret' });
+
+    const configService = await createConfigService({ secretsManagerConfig: { keyTransform: { case: 'constant' } } });
+
+    expect(configService.get('DB_PASSWORD')).toBe('s3cret');
+  });
+
+  it('should skip a source with the silent policy without warning', async () => {
+    const configService = await createConfigService({ secretsManagerConfig: { onError: 'silent' } });
+
+    expect(configService.get('HOST')).toBe('localhost');
+    expect(warn).not.toHaveBeenCalledWith(expect.stringContaining('SecretsManagerLoader(app)'));
+  });
+});
@@ -168,6 +168,12 @@ export class ConfigModule {
           test: options.secretsManagerConfig.paths.test || 'test',
           production: options.secretsManagerConfig.paths.production || 'production',
         } : undefined,
+        required: options.secretsManagerConfig?.required,
+        onError: options.secretsManagerConfig?.onError,
+        timeoutMs: options.secretsManagerConfig?.timeoutMs,
+        retries: options.secretsManagerConfig?.retries,
+        backoff: options.secretsManagerConfig?.backoff,
+        keyTransform: options.secretsManagerConfig?.keyTransform,
       };
 
       loaders.push(new SecretsManagerLoader(secretsConfig));
@@ -184,6 +190,12 @@ export class ConfigModule {
           test: options.ssmConfig.paths.test || 'test',
           production: options.ssmConfig.paths.production || 'production',
         } : undefined,
+        required: options.ssmConfig?.required,
+        onError: options.ssmConfig?.onError,
+        timeoutMs: options.ssmConfig?.timeoutMs,
+        retries: options.ssmConfig?.retries,
+        backoff: options.ssmConfig?.backoff,
+        keyTransform: options.ssmConfig?.keyTransform,
       };
 
       loaders.push(new SSMParameterStoreLoader(ssmConfig));
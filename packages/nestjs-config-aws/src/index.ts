@@ -10,16 +10,43 @@ export {
   // ConfigManager
   ConfigManager,
   
+  // Resolvers
+  SecretReferenceResolver,
+  KmsValueResolver,
+  
+  // Validators
+  ZodConfigValidator,
+  StandardSchemaConfigValidator,
+  JoiConfigValidator,
+  ClassValidatorConfigValidator,
+  
+  // Snapshot stores
+  FileSnapshotStore,
+  
   // Error classes
   ConfigurationError,
   ValidationError,
   AWSServiceError,
   ConfigurationLoadError,
   MissingConfigurationError,
+  InterpolationError,
+  LoaderTimeoutError,
+  SnapshotError,
+  ConfigParseError,
   
   // Utilities
   ConfigValidationUtil,
   EnvFileParser,
+  ConfigMergeUtil,
+  ConfigInterpolationUtil,
+  RetryUtil,
+  ConfigSnapshotUtil,
+  ConfigValueUtil,
+  KeyTransformUtil,
+  ConfigFormatUtil,
+  YamlParser,
+  TomlParser,
+  IniParser,
 } from '@dyanet/config-aws';
 
 // Re-export types from @dyanet/config-aws
@@ -30,6 +57,35 @@ export type {
   LoaderPrecedence,
   VerboseOptions,
   PrecedenceStrategy,
+  MergeStrategy,
+  MergeOptions,
+  InterpolationOptions,
+  SecretReference,
+  SecretReferenceOptions,
+  KmsDecryptionOptions,
+  KmsDecryptionResult,
+  BackoffOptions,
+  KeyCase,
+  KeyTransformOptions,
+  ConfigFormat,
+  EnvFileSyntax,
+  LoaderErrorPolicy,
+  FailedLoaderInfo,
+  SkippedLoaderInfo,
+  ErrorClassification,
+  RetryOptions,
+  SnapshotStore,
+  SnapshotOptions,
+  ConfigSnapshot,
+  SnapshotInfo,
+  ValidationIssue,
+  AttributedValidationIssue,
+  ConfigValidationResult,
+  ConfigValidator,
+  ConfigSchema,
+  StandardSchemaV1,
+  ConfigPlugin,
+  PluginHookResult,
   ConfigLoadResult,
   ConfigSourceInfo as CoreConfigSourceInfo,
   Logger,
@@ -38,8 +94,18 @@ export type {
   EnvironmentLoaderConfig,
   EnvFileLoaderConfig,
   S3LoaderConfig,
+  S3ObjectMetadata,
+  S3SignatureOptions,
   SecretsManagerLoaderConfig,
+  SecretSource,
+  SecretVersionOptions,
+  SecretBinaryFormat,
+  RotatingSecret,
+  RotatingSecretOptions,
+  SecretStage,
   SSMParameterStoreLoaderConfig,
+  SSMParameterKeyStyle,
+  SSMParameterMetadata,
 } from '@dyanet/config-aws';
 
 // NestJS-specific exports
@@ -25,7 +25,7 @@ export interface ErrorHandlingStrategy {
 export interface FactoryOptions {
   /** Whether to cache configuration values */
   cache?: boolean;
-  /** Whether to expand variables in configuration values */
+  /** Whether to expand ${VAR} references in configuration values, including values loaded from AWS */
   expandVariables?: boolean;
 }
 
@@ -1,7 +1,37 @@
+import { Logger } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ConfigurationLoadError,
+  InterpolationError,
+  LoaderTimeoutError,
+  SecretsManagerLoader,
+  SSMParameterStoreLoader,
+} from '@dyanet/config-aws';
 import { AwsConfigurationLoaderService } from '../aws-configuration-loader.service';
 import { IntegrationOptions } from '../../interfaces/integration-options.interface';
 
+const createService = async (options: IntegrationOptions): Promise<AwsConfigurationLoaderService> => {
+  const module: TestingModule = await Test.createTestingModule({
+    providers: [AwsConfigurationLoaderService, { provide: 'INTEGRATION_OPTIONS', useValue: options }],
+  }).compile();
+
+  return module.get<AwsConfigurationLoaderService>(AwsConfigurationLoaderService);
+};
+
+/**
+ * Stub a core loader class so it reports itself available and loads the given values
+ */
+const stubLoader = (
+  loaderClass: typeof SecretsManagerLoader | typeof SSMParameterStoreLoader,
+  name: string,
+  load: jest.Mock
+) => {
+  jest.spyOn(loaderClass.prototype, 'getName').mockReturnValue(name);
+  jest.spyOn(loaderClass.prototype, 'isAvailable').mockResolvedValue(true);
+  jest.spyOn(loaderClass.prototype, 'load').mockImplementation(load);
+  return load;
+};
+
 describe('AwsConfigurationLoaderService', () => {
   let service: AwsConfigurationLoaderService;
 
@@ -57,4 +87,239 @@ describe('AwsConfigurationLoaderService', () => {
     const sources = await service.getAvailableSources();
     expect(Array.isArray(sources)).toBe(true);
   });
+
+  describe('interpolation', () => {
+    const envKeys = ['APP_DB_HOST', 'APP_GREETING'];
+
+    beforeEach(() => {
+      process.env['APP_DB_HOST'] = 'db.internal';
+    });
+
+    afterEach(() => {
+      envKeys.forEach((key) => delete process.env[key]);
+      jest.restoreAllMocks();
+    });
+
+    const options = (precedence: IntegrationOptions['precedence']): IntegrationOptions => ({
+      envPrefix: 'APP_',
+      precedence,
+      factoryOptions: { expandVariables: true },
+    });
+
+    it('should expand references in the value from the highest-priority source', async () => {
+      stubLoader(SecretsManagerLoader, 'SecretsManagerLoader(app)', jest.fn().mockResolvedValue({
+        DB_URL: 'postgres://${DB_HOST}/app',
+      }));
+      stubLoader(SSMParameterStoreLoader, 'SSMParameterStoreLoader(/app)', jest.fn().mockResolvedValue({
+        DB_URL: 'postgres://${DB_HOST}/overridden',
+        PORT: '5432',
+      }));
+      const service = await createService(options('aws-first'));
+
+      const config = await service.loadConfiguration();
+
+      expect(config['DB_URL']).toBe('postgres://db.internal/app');
+      expect(config['PORT']).toBe('5432');
+    });
+
+    it('should name the source that won the merge when a reference cannot be resolved', async () => {
+      stubLoader(SecretsManagerLoader, 'SecretsManagerLoader(app)', jest.fn().mockResolvedValue({
+        API_URL: 'https://${MISSING_HOST}',
+      }));
+      stubLoader(SSMParameterStoreLoader, 'SSMParameterStoreLoader(/app)', jest.fn().mockResolvedValue({
+        API_URL: 'https://api.internal',
+      }));
+      const service = await createService(options('aws-first'));
+
+      const error = await service.loadConfiguration().catch((e) => e);
+
+      expect(error).toBeInstanceOf(InterpolationError);
+      expect(error.message).toContain('(from SecretsManagerLoader(app))');
+    });
+
+    it('should not expand environment variables that override AWS values', async () => {
+      process.env['APP_GREETING'] = 'hello ${NAME}';
+      stubLoader(SecretsManagerLoader, 'SecretsManagerLoader(app)', jest.fn().mockResolvedValue({}));
+      stubLoader(SSMParameterStoreLoader, 'SSMParameterStoreLoader(/app)', jest.fn().mockResolvedValue({
+        GREETING: 'hello ${DB_HOST}',
+      }));
+      const service = await createService(options('local-first'));
+
+      const config = await service.loadConfiguration();
+
+      expect(config['GREETING']).toBe('hello ${NAME}');
+    });
+
+    it('should merge sources with equal priority in loading order', async () => {
+      stubLoader(SecretsManagerLoader, 'SecretsManagerLoader(app)', jest.fn().mockResolvedValue({
+        ENDPOINT: 'http://${DB_HOST}:1',
+      }));
+      stubLoader(SSMParameterStoreLoader, 'SSMParameterStoreLoader(/app)', jest.fn().mockResolvedValue({
+        ENDPOINT: 'http://${DB_HOST}:2',
+      }));
+      const service = await createService(options('merge'));
+
+      const config = await service.loadConfiguration();
+
+      expect(config['ENDPOINT']).toBe('http://db.internal:2');
+    });
+  });
+
+  describe('retries and timeouts', () => {
+    const awsError = (name: string) => Object.assign(new Error(`${name} from AWS`), { name });
+
+    const options = (secretsManagerConfig: IntegrationOptions['secretsManagerConfig']): IntegrationOptions => ({
+      secretsManagerConfig: { backoff: { baseDelayMs: 1 }, ...secretsManagerConfig },
+      ssmConfig: { enabled: false },
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should retry throttled loads', async () => {
+      const load = stubLoader(SecretsManagerLoader, 'SecretsManagerLoader(app)', jest.fn()
+        .mockRejectedValueOnce(awsError('ThrottlingException'))
+        .mockRejectedValueOnce(awsError('ThrottlingException'))
+        .mockResolvedValue({ DB_PASSWORD: 'secret' }));
+      const service = await createService(options({ retries: 2 }));
+
+      const config = await service.loadConfiguration();
+
+      expect(config['DB_PASSWORD']).toBe('secret');
+      expect(load).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry access denied errors', async () => {
+      const load = stubLoader(SecretsManagerLoader, 'SecretsManagerLoader(app)', jest.fn()
+        .mockRejectedValue(awsError('AccessDeniedException')));
+      const service = await createService(options({ retries: 2, required: true }));
+
+      await expect(service.loadConfiguration()).rejects.toThrow('AccessDeniedException from AWS');
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it('should time out each load attempt', async () => {
+      const load = stubLoader(SecretsManagerLoader, 'SecretsManagerLoader(app)', jest.fn(
+        () => new Promise<Record<string, any>>(() => undefined)
+      ));
+      const service = await createService(options({ timeoutMs: 20, retries: 1, required: true }));
+
+      const error = await service.loadConfiguration().catch((e) => e);
+
+      expect(error).toBeInstanceOf(LoaderTimeoutError);
+      expect(error.message).toBe('SecretsManagerLoader(app) timed out after 20ms');
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('should treat a loader whose availability check times out as unavailable', async () => {
+      const load = stubLoader(SecretsManagerLoader, 'SecretsManagerLoader(app)', jest.fn().mockResolvedValue({}));
+      jest.spyOn(SecretsManagerLoader.prototype, 'isAvailable').mockReturnValue(new Promise(() => undefined));
+      const service = await createService(options({ timeoutMs: 20, required: true }));
+
+      const error = await service.loadConfiguration().catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConfigurationLoadError);
+      expect(error.message).toContain('Loader is required but not available');
+      expect(load).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('required and onError', () => {
+    let warn: jest.SpyInstance;
+
+    const options = (secretsManagerConfig: IntegrationOptions['secretsManagerConfig']): IntegrationOptions => ({
+      envPrefix: 'APP_',
+      secretsManagerConfig,
+      ssmConfig: { enabled: false },
+      errorHandling: {
+        onAwsUnavailable: 'fail',
+        onConfigurationError: 'fail',
+        onValidationError: 'fail',
+        enableDetailedLogging: false,
+      },
+    });
+
+    beforeEach(() => {
+      process.env['APP_HOST'] = 'localhost';
+      stubLoader(SecretsManagerLoader, 'SecretsManagerLoader(app)', jest.fn().mockRejectedValue(
+        Object.assign(new Error('Secrets Manager can\'t find the specified secret'), { name: 'ResourceNotFoundException' })
+      ));
+      warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+      jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      delete process.env['APP_HOST'];
+      jest.restoreAllMocks();
+    });
+
+    it('should fail when a required loader fails', async () => {
+      const service = await createService(options({ required: true, onError: 'silent' }));
+
+      await expect(service.loadConfiguration()).rejects.toThrow("Secrets Manager can't find the specified secret");
+      await expect(service.loadNamespacedConfiguration(['database'])).rejects.toThrow(
+        "Secrets Manager can't find the specified secret"
+      );
+    });
+
+    it('should fail when a required loader loads no configuration', async () => {
+      jest.spyOn(SecretsManagerLoader.prototype, 'load').mockResolvedValue({});
+      const service = await createService(options({ required: true }));
+
+      const error = await service.loadConfiguration().catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConfigurationLoadError);
+      expect(error.message).toContain('Loader is required but loaded no configuration');
+    });
+
+    it('should skip a loader that is not required and warn', async () => {
+      const service = await createService(options({ required: false }));
+
+      const config = await service.loadConfiguration();
+
+      expect(config).toEqual({ HOST: 'localhost' });
+      expect(warn).toHaveBeenCalledWith(
+        "SecretsManagerLoader(app) failed and was skipped: Secrets Manager can't find the specified secret"
+      );
+    });
+
+    it('should skip a loader with the silent policy without warning', async () => {
+      const service = await createService(options({ onError: 'silent' }));
+
+      const config = await service.loadConfiguration();
+      const namespaced = await service.loadNamespacedConfiguration(['host']);
+
+      expect(config).toEqual({ HOST: 'localhost' });
+      expect(namespaced).toEqual({ host: {} });
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('key transforms', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should apply the keyTransform option of a source before merging', async () => {
+      stubLoader(SecretsManagerLoader, 'SecretsManagerLoader(app)', jest.fn().mockResolvedValue({
+        dbHost: 'db.internal',
+        internalToken: 'x',
+      }));
+      const service = await createService({
+        secretsManagerConfig: { keyTransform: { case: 'constant', exclude: ['internal*'] } },
+        ssmConfig: { enabled: false },
+      });
+
+      const config = await service.loadConfiguration();
+      const namespaced = await service.loadNamespacedConfiguration(['db']);
+      const sources = await service.getAvailableSources();
+
+      expect(config['DB_HOST']).toBe('db.internal');
+      expect(config).not.toHaveProperty('dbHost');
+      expect(config).not.toHaveProperty('internalToken');
+      expect(namespaced['db']).toEqual({ host: 'db.internal' });
+      expect(sources.find((source) => source.type === 'secrets-manager')!.data).toEqual({ DB_HOST: 'db.internal' });
+    });
+  });
 });
\ No newline at end of file
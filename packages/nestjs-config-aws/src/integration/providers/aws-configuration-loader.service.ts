@@ -4,6 +4,12 @@ import {
   SecretsManagerLoader,
   SSMParameterStoreLoader,
   EnvironmentLoader,
+  ConfigInterpolationUtil,
+  KeyTransformUtil,
+  RetryUtil,
+  AWSServiceError,
+  ConfigurationLoadError,
+  LoaderErrorPolicy,
 } from '@dyanet/config-aws';
 import { IntegrationOptions } from '../interfaces/integration-options.interface';
 import { ConfigurationSource, ConfigurationSourceType } from '../interfaces/configuration-source.interface';
@@ -43,6 +49,9 @@ export class AwsConfigurationLoaderService {
         const isAvailable = await this.checkAvailabilityWithTimeout(loader);
         
         if (!isAvailable) {
+          if (loader.getOptions?.().required) {
+            throw new ConfigurationLoadError('Loader is required but not available', loader.getName());
+          }
           if (this.options.enableLogging) {
             this.logger.debug(`Skipping ${loader.getName()} - not available in current environment`);
           }
@@ -54,9 +63,11 @@ export class AwsConfigurationLoaderService {
         }
 
         // Load configuration from this source with retry logic for AWS services
-        const loaderConfig = loader instanceof EnvironmentLoader 
-          ? await loader.load() 
-          : await this.loadWithRetry(loader);
+        const loaderConfig = await this.loadSource(loader);
+
+        if (loader.getOptions?.().required && Object.keys(loaderConfig).length === 0) {
+          throw new ConfigurationLoadError('Loader is required but loaded no configuration', loader.getName());
+        }
         
         // Create configuration source metadata
         const source: ConfigurationSource = {
@@ -68,9 +79,6 @@ export class AwsConfigurationLoaderService {
         };
 
         sources.push(source);
-
-        // Merge with existing configuration based on precedence
-        Object.assign(mergedConfig, loaderConfig);
         
         if (this.options.enableLogging) {
           const keyCount = Object.keys(loaderConfig).length;
@@ -85,8 +93,15 @@ export class AwsConfigurationLoaderService {
           loaderType: this.getSourceType(loader),
         });
 
-        // Handle specific error types
-        if (this.isAwsServiceError(loaderError)) {
+        // A per-loader policy takes precedence over the integration-wide error handling strategy
+        const loaderPolicy = this.getLoaderErrorPolicy(loader);
+        if (loaderPolicy === 'fail') {
+          throw loaderError;
+        } else if (loaderPolicy === 'warn') {
+          this.logger.warn(`${loader.getName()} failed and was skipped: ${loaderError.message}`);
+        } else if (loaderPolicy === 'silent') {
+          // Skip the loader without logging
+        } else if (this.isAwsServiceError(loaderError)) {
           const shouldContinue = this.handleAwsSpecificError(loader, loaderError);
           if (!shouldContinue) {
             throw loaderError;
@@ -112,9 +127,53 @@ export class AwsConfigurationLoaderService {
       }
     }
 
+    // Merge based on precedence, so higher-priority sources override lower-priority ones
+    const orderedSources = this.orderByPrecedence(sources);
+    for (const source of orderedSources) {
+      Object.assign(mergedConfig, source.data);
+    }
+
+    if (this.options.factoryOptions?.expandVariables === true) {
+      return this.expandVariables(mergedConfig, orderedSources);
+    }
+
     return mergedConfig;
   }
 
+  /**
+   * Order sources for merging, lowest priority first.
+   * Sources with equal priority keep their loading order.
+   * @param sources - Configuration sources in loading order
+   * @returns Sources in merge order
+   */
+  private orderByPrecedence(sources: ConfigurationSource[]): ConfigurationSource[] {
+    return [...sources].sort((a, b) => a.priority - b.priority);
+  }
+
+  /**
+   * Expand ${VAR} references in values loaded from AWS sources.
+   * Plain environment variables are used for lookups but are not expanded themselves.
+   * @param config - The merged configuration
+   * @param sources - Configuration sources in merge order, so each key's origin is the source that won
+   */
+  private expandVariables(config: Record<string, any>, sources: ConfigurationSource[]): Record<string, any> {
+    const winners: Record<string, ConfigurationSource> = {};
+    for (const source of sources) {
+      for (const key of Object.keys(source.data)) {
+        winners[key] = source;
+      }
+    }
+
+    const origins: Record<string, string> = {};
+    for (const [key, source] of Object.entries(winners)) {
+      origins[key] = source.name;
+    }
+
+    const keys = Object.keys(winners).filter((key) => winners[key]!.type !== 'environment');
+
+    return ConfigInterpolationUtil.interpolate(config, { keys, origins });
+  }
+
   /**
    * Load configuration for specific namespaces from AWS sources.
    * @param namespaces - Array of namespace names to load
@@ -134,6 +193,9 @@ export class AwsConfigurationLoaderService {
         const isAvailable = await this.checkAvailabilityWithTimeout(loader);
         
         if (!isAvailable) {
+          if (loader.getOptions?.().required) {
+            throw new ConfigurationLoadError('Loader is required but not available', loader.getName());
+          }
           if (this.options.enableLogging) {
             this.logger.debug(`Skipping ${loader.getName()} for namespace loading - not available`);
           }
@@ -145,9 +207,11 @@ export class AwsConfigurationLoaderService {
         }
 
         // Load configuration from this source with retry logic for AWS services
-        const loaderConfig = loader instanceof EnvironmentLoader 
-          ? await loader.load() 
-          : await this.loadWithRetry(loader);
+        const loaderConfig = await this.loadSource(loader);
+
+        if (loader.getOptions?.().required && Object.keys(loaderConfig).length === 0) {
+          throw new ConfigurationLoadError('Loader is required but loaded no configuration', loader.getName());
+        }
         
         // Distribute configuration to namespaces based on key prefixes or patterns
         for (const namespace of namespaces) {
@@ -172,8 +236,15 @@ export class AwsConfigurationLoaderService {
           namespaces,
         });
 
-        // Handle specific error types
-        if (this.isAwsServiceError(loaderError)) {
+        // A per-loader policy takes precedence over the integration-wide error handling strategy
+        const loaderPolicy = this.getLoaderErrorPolicy(loader);
+        if (loaderPolicy === 'fail') {
+          throw loaderError;
+        } else if (loaderPolicy === 'warn') {
+          this.logger.warn(`${loader.getName()} failed and was skipped: ${loaderError.message}`);
+        } else if (loaderPolicy === 'silent') {
+          // Skip the loader without logging
+        } else if (this.isAwsServiceError(loaderError)) {
           const shouldContinue = this.handleAwsSpecificError(loader, loaderError);
           if (!shouldContinue) {
             throw loaderError;
@@ -244,7 +315,7 @@ export class AwsConfigurationLoaderService {
         const isAvailable = await loader.isAvailable();
         
         if (isAvailable) {
-          const loaderConfig = await loader.load();
+          const loaderConfig = KeyTransformUtil.applyLoaderOptions(await loader.load(), loader.getOptions?.());
           
           const source: ConfigurationSource = {
             name: loader.getName(),
@@ -290,6 +361,12 @@ export class AwsConfigurationLoaderService {
         region: this.options.secretsManagerConfig?.region,
         // Convert paths to secretName format expected by SecretsManagerLoader
         secretName: this.getSecretsManagerPath(),
+        required: this.options.secretsManagerConfig?.required,
+        onError: this.options.secretsManagerConfig?.onError,
+        timeoutMs: this.options.secretsManagerConfig?.timeoutMs,
+        retries: this.options.secretsManagerConfig?.retries,
+        backoff: this.options.secretsManagerConfig?.backoff,
+        keyTransform: this.options.secretsManagerConfig?.keyTransform,
       };
       loaders.push(new SecretsManagerLoader(secretsConfig));
     }
@@ -301,6 +378,12 @@ export class AwsConfigurationLoaderService {
         // Convert paths to parameterPath format expected by SSMParameterStoreLoader
         parameterPath: this.getSSMParameterPath(),
         withDecryption: this.options.ssmConfig?.decrypt ?? true,
+        required: this.options.ssmConfig?.required,
+        onError: this.options.ssmConfig?.onError,
+        timeoutMs: this.options.ssmConfig?.timeoutMs,
+        retries: this.options.ssmConfig?.retries,
+        backoff: this.options.ssmConfig?.backoff,
+        keyTransform: this.options.ssmConfig?.keyTransform,
       };
       loaders.push(new SSMParameterStoreLoader(ssmConfig));
     }
@@ -494,6 +577,19 @@ export class AwsConfigurationLoaderService {
     return paths.production || paths.development || paths.test || '/nestjs-config-aws';
   }
 
+  /**
+   * Get the error policy from the loader's required and onError options.
+   * @param loader - The configuration loader
+   * @returns The loader's error policy, or undefined to use the error handling strategy
+   */
+  private getLoaderErrorPolicy(loader: ConfigLoader): LoaderErrorPolicy | undefined {
+    const { required, onError } = loader.getOptions?.() ?? {};
+    if (required) {
+      return 'fail';
+    }
+    return onError ?? (required === false ? 'warn' : undefined);
+  }
+
   /**
    * Check if an error is an AWS service error.
    * @param error - The error to check
@@ -513,7 +609,12 @@ export class AwsConfigurationLoaderService {
       'UnknownEndpoint',
     ];
 
-    return awsErrorNames.includes(error.name) || error.message.includes('AWS');
+    return (
+      error instanceof AWSServiceError ||
+      RetryUtil.classifyError(error) !== 'unknown' ||
+      awsErrorNames.includes(error.name) ||
+      error.message.includes('AWS')
+    );
   }
 
   /**
@@ -525,37 +626,38 @@ export class AwsConfigurationLoaderService {
   private handleAwsSpecificError(loader: ConfigLoader, error: Error): boolean {
     const serviceName = this.getServiceName(loader);
 
-    switch (error.name) {
-      case 'AccessDeniedException':
+    if (error.name === 'CredentialsError') {
+      this.logger.error(`AWS credentials error for ${serviceName}: ${error.message}`);
+      this.logger.error('Please check AWS credentials configuration');
+      return this.errorHandler.handleAwsUnavailable(serviceName, error);
+    }
+
+    // Classify by the error and its cause, so AWSServiceError wrappers are handled like SDK errors
+    switch (RetryUtil.classifyError(error)) {
+      case 'access-denied':
         return this.errorHandler.handlePermissionError(
           serviceName,
           this.getResourceName(loader),
           error
         );
 
-      case 'ResourceNotFoundException':
+      case 'not-found':
         return this.errorHandler.handleResourceNotFound(
           serviceName,
           this.getResourceName(loader),
           error
         );
 
-      case 'NetworkingError':
-      case 'TimeoutError':
+      case 'network':
+      case 'timeout':
         const networkResult = this.errorHandler.handleNetworkError(serviceName, error);
         return networkResult.shouldContinue;
 
-      case 'ThrottlingException':
-      case 'TooManyRequestsException':
+      case 'throttling':
         this.logger.warn(`Rate limiting encountered for ${serviceName}, continuing with other sources`);
         return true;
 
-      case 'ServiceUnavailableException':
-        return this.errorHandler.handleAwsUnavailable(serviceName, error);
-
-      case 'CredentialsError':
-        this.logger.error(`AWS credentials error for ${serviceName}: ${error.message}`);
-        this.logger.error('Please check AWS credentials configuration');
+      case 'unavailable':
         return this.errorHandler.handleAwsUnavailable(serviceName, error);
 
       default:
@@ -597,53 +699,51 @@ export class AwsConfigurationLoaderService {
   }
 
   /**
-   * Load configuration with retry logic for retryable errors.
+   * Load configuration from a loader and apply its keyTransform option.
+   * AWS loaders are retried on transient errors.
    * @param loader - The configuration loader
-   * @param maxRetries - Maximum number of retries
    * @returns Promise resolving to configuration data
    */
-  private async loadWithRetry(loader: ConfigLoader, maxRetries: number = 3): Promise<Record<string, any>> {
-    let lastError: Error | null = null;
+  private async loadSource(loader: ConfigLoader): Promise<Record<string, any>> {
+    const loaderConfig = loader instanceof EnvironmentLoader
+      ? await loader.load()
+      : await this.loadWithRetry(loader);
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        return await loader.load();
-      } catch (error) {
-        const loaderError = error instanceof Error ? error : new Error(String(error));
-        lastError = loaderError;
-
-        // Check if error is retryable
-        if (!this.errorHandler.isRetryableError(loaderError) || attempt === maxRetries) {
-          throw loaderError;
-        }
-
-        // Wait before retrying
-        const delay = this.errorHandler.getRetryDelay(attempt);
-        this.logger.warn(`Retrying ${loader.getName()} in ${delay}ms (attempt ${attempt}/${maxRetries})`);
-        
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
+    return KeyTransformUtil.applyLoaderOptions(loaderConfig, loader.getOptions?.());
+  }
 
-    // This should never be reached, but just in case
-    throw lastError || new Error('Unknown error during retry');
+  /**
+   * Load configuration with retry logic for transient AWS errors.
+   * Uses the loader's retries, backoff and timeoutMs options.
+   * @param loader - The configuration loader
+   * @returns Promise resolving to configuration data
+   */
+  private async loadWithRetry(loader: ConfigLoader): Promise<Record<string, any>> {
+    const { retries = RetryUtil.DEFAULT_RETRIES, backoff, timeoutMs } = loader.getOptions?.() ?? {};
+
+    return RetryUtil.retry(() => RetryUtil.withTimeout(loader.load(), timeoutMs, loader.getName()), {
+      retries,
+      backoff,
+      onRetry: (error, attempt, delay) => {
+        this.logger.warn(
+          `Retrying ${loader.getName()} in ${delay}ms (attempt ${attempt}/${retries + 1}, ${RetryUtil.classifyError(error)})`
+        );
+      },
+    });
   }
 
   /**
    * Check availability with timeout and error handling.
    * @param loader - The configuration loader
-   * @param timeoutMs - Timeout in milliseconds
+   * @param timeoutMs - Timeout in milliseconds. Default: the loader's timeoutMs option, or 5000
    * @returns Promise resolving to availability status
    */
-  private async checkAvailabilityWithTimeout(loader: ConfigLoader, timeoutMs: number = 5000): Promise<boolean> {
+  private async checkAvailabilityWithTimeout(
+    loader: ConfigLoader,
+    timeoutMs: number = loader.getOptions?.().timeoutMs ?? 5000
+  ): Promise<boolean> {
     try {
-      const timeoutPromise = new Promise<boolean>((_, reject) => {
-        setTimeout(() => reject(new Error('Availability check timeout')), timeoutMs);
-      });
-
-      const availabilityPromise = loader.isAvailable();
-
-      return await Promise.race([availabilityPromise, timeoutPromise]);
+      return await RetryUtil.withTimeout(loader.isAvailable(), timeoutMs, loader.getName());
     } catch (error) {
       const loaderError = error instanceof Error ? error : new Error(String(error));
       
@@ -654,4 +754,4 @@ export class AwsConfigurationLoaderService {
       return false;
     }
   }
-}
\ No newline at end of file
+}
\ No newline at end of file
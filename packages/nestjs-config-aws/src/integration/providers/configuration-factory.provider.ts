@@ -1,5 +1,6 @@
 import { Injectable, Logger, Inject, Optional } from '@nestjs/common';
 import { ConfigFactory, registerAs } from '@nestjs/config';
+import { ConfigMergeUtil } from '@dyanet/config-aws';
 import { ConfigurationFactoryProvider, AwsConfigurationFactory } from '../interfaces/configuration-factory.interface';
 import { ConfigurationSource } from '../interfaces/configuration-source.interface';
 import { PrecedenceRule, IntegrationOptions } from '../interfaces/integration-options.interface';
@@ -346,30 +347,6 @@ export class ConfigurationFactoryProviderImpl implements ConfigurationFactoryPro
            !Array.isArray(config);
   }
 
-  /**
-   * Deep merge two configuration objects.
-   * @param target - Target object
-   * @param source - Source object
-   * @returns Merged object
-   */
-  private deepMerge(target: Record<string, any>, source: Record<string, any>): Record<string, any> {
-    const result = { ...target };
-
-    for (const [key, value] of Object.entries(source)) {
-      if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-        if (result[key] && typeof result[key] === 'object' && !Array.isArray(result[key])) {
-          result[key] = this.deepMerge(result[key], value);
-        } else {
-          result[key] = { ...value };
-        }
-      } else {
-        result[key] = value;
-      }
-    }
-
-    return result;
-  }
-
   /**
    * Extract configuration for a specific namespace from multiple sources.
    * @param sourceConfigs - Map of source configurations
@@ -384,7 +361,7 @@ export class ConfigurationFactoryProviderImpl implements ConfigurationFactoryPro
 
     for (const [sourceName, config] of sourceConfigs) {
       if (config[namespace]) {
-        namespaceConfig = this.deepMerge(namespaceConfig, config[namespace]);
+        namespaceConfig = ConfigMergeUtil.deepMerge(namespaceConfig, config[namespace]);
         this.logger.debug(`Extracted ${namespace} config from source: ${sourceName}`);
       }
     }
@@ -401,7 +378,7 @@ export class ConfigurationFactoryProviderImpl implements ConfigurationFactoryPro
     let mergedConfig: Record<string, any> = {};
 
     for (const [sourceName, config] of sourceConfigs) {
-      mergedConfig = this.deepMerge(mergedConfig, config);
+      mergedConfig = ConfigMergeUtil.deepMerge(mergedConfig, config);
       this.logger.debug(`Merged config from source: ${sourceName}`);
     }
 
@@ -1,5 +1,6 @@
 import { Injectable, Logger, Inject, Optional } from '@nestjs/common';
 import { ConfigFactory, ConfigModuleOptions } from '@nestjs/config';
+import { ConfigMergeUtil } from '@dyanet/config-aws';
 import { FactoryRegistrationService } from './factory-registration.service';
 import { IntegrationOptions } from '../interfaces/integration-options.interface';
 import { NESTJS_CONFIG_AWS_INTEGRATION_OPTIONS } from '../nestjs-config-integration.module';
@@ -198,7 +199,7 @@ export class AsyncConfigHelperService {
           return { ...awsConfig, ...existingConfig };
         } else {
           // merge - deep merge both configurations
-          return this.deepMerge(existingConfig, awsConfig);
+          return ConfigMergeUtil.deepMerge(existingConfig as Record<string, any>, awsConfig as Record<string, any>);
         }
       };
       
@@ -374,27 +375,4 @@ export class AsyncConfigHelperService {
     }
   }
 
-  /**
-   * Deep merge two configuration objects.
-   * @param target - Target object
-   * @param source - Source object
-   * @returns Merged object
-   */
-  private deepMerge(target: Record<string, any>, source: Record<string, any>): Record<string, any> {
-    const result = { ...target };
-
-    for (const [key, value] of Object.entries(source)) {
-      if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-        if (result[key] && typeof result[key] === 'object' && !Array.isArray(result[key])) {
-          result[key] = this.deepMerge(result[key], value);
-        } else {
-          result[key] = { ...value };
-        }
-      } else {
-        result[key] = value;
-      }
-    }
-
-    return result;
-  }
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ConfigurationError } from '@dyanet/config-aws';
+import { ConfigurationError, RetryUtil } from '@dyanet/config-aws';
 import { IntegrationOptions, ErrorHandlingStrategy } from '../interfaces/integration-options.interface';
 
 /**
@@ -247,28 +247,7 @@ export class ErrorHandlerService {
    * @returns Whether the error is retryable
    */
   isRetryableError(error: Error): boolean {
-    // Network errors are generally retryable
-    if (error.name === 'NetworkingError' || error.name === 'TimeoutError') {
-      return true;
-    }
-
-    // Throttling errors are retryable
-    if (error.name === 'ThrottlingException' || error.name === 'TooManyRequestsException') {
-      return true;
-    }
-
-    // Service unavailable errors are retryable
-    if (error.name === 'ServiceUnavailableException') {
-      return true;
-    }
-
-    // Permission and resource not found errors are not retryable
-    if (error.name === 'AccessDeniedException' || error.name === 'ResourceNotFoundException') {
-      return false;
-    }
-
-    // Default to not retryable for unknown errors
-    return false;
+    return RetryUtil.isRetryable(error);
   }
 
   /**
@@ -277,15 +256,7 @@ export class ErrorHandlerService {
    * @returns Delay in milliseconds
    */
   getRetryDelay(attemptNumber: number): number {
-    // Exponential backoff with jitter
-    const baseDelay = 1000; // 1 second
-    const maxDelay = 30000; // 30 seconds
-    
-    const delay = Math.min(baseDelay * Math.pow(2, attemptNumber - 1), maxDelay);
-    
-    // Add jitter (±25%)
-    const jitter = delay * 0.25 * (Math.random() - 0.5);
-    
-    return Math.max(100, delay + jitter); // Minimum 100ms delay
+    return RetryUtil.getBackoffDelay(attemptNumber);
   }
+
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigMergeUtil } from '@dyanet/config-aws';
 import { ConfigurationSource } from '../interfaces/configuration-source.interface';
 import { PrecedenceRule } from '../interfaces/integration-options.interface';
 
@@ -178,7 +179,7 @@ export class PrecedenceHandlerService {
 
     for (const source of sources) {
       this.logger.debug(`Merging source: ${source.name} (${source.type})`);
-      merged = this.deepMerge(merged, source.data);
+      merged = ConfigMergeUtil.deepMerge(merged, source.data);
     }
 
     return merged;
@@ -198,70 +199,13 @@ export class PrecedenceHandlerService {
     for (const type of mergeOrder) {
       if (groups[type]) {
         this.logger.debug(`Merging group: ${type}`);
-        merged = this.deepMerge(merged, groups[type]);
+        merged = ConfigMergeUtil.deepMerge(merged, groups[type]);
       }
     }
 
     return merged;
   }
 
-  /**
-   * Deep merge two configuration objects with conflict resolution.
-   * @param target - Target object (lower priority)
-   * @param source - Source object (higher priority)
-   * @returns Merged object
-   */
-  private deepMerge(target: Record<string, any>, source: Record<string, any>): Record<string, any> {
-    const result = { ...target };
-
-    for (const [key, value] of Object.entries(source)) {
-      if (this.shouldDeepMerge(result[key], value)) {
-        result[key] = this.deepMerge(result[key], value);
-      } else {
-        result[key] = this.cloneValue(value);
-      }
-    }
-
-    return result;
-  }
-
-  /**
-   * Determine if two values should be deep merged.
-   * @param target - Target value
-   * @param source - Source value
-   * @returns True if should deep merge, false otherwise
-   */
-  private shouldDeepMerge(target: any, source: any): boolean {
-    return target !== null &&
-           source !== null &&
-           typeof target === 'object' &&
-           typeof source === 'object' &&
-           !Array.isArray(target) &&
-           !Array.isArray(source);
-  }
-
-  /**
-   * Clone a value to avoid reference issues.
-   * @param value - Value to clone
-   * @returns Cloned value
-   */
-  private cloneValue(value: any): any {
-    if (value === null || typeof value !== 'object') {
-      return value;
-    }
-
-    if (Array.isArray(value)) {
-      return value.map(item => this.cloneValue(item));
-    }
-
-    const cloned: Record<string, any> = {};
-    for (const [key, val] of Object.entries(value)) {
-      cloned[key] = this.cloneValue(val);
-    }
-
-    return cloned;
-  }
-
   /**
    * Validate configuration sources for precedence handling.
    * @param sources - Configuration sources to validate
@@ -1,3 +1,5 @@
+import type { RotatingSecretOptions, SecretStage } from '@dyanet/config-aws';
+
 /**
  * Abstract ConfigService interface for dependency injection.
  * Provides type-safe access to configuration values with generic type support.
@@ -10,6 +12,84 @@ export abstract class ConfigService<T = any> {
    */
   abstract get<K extends keyof T>(key: K): T[K];
 
+  /**
+   * Get a configuration value, throwing if it is not set.
+   * @param key - The configuration key or dotted path to retrieve
+   * @returns The configuration value
+   * @throws MissingConfigurationError if the value is not set
+   */
+  abstract getOrThrow<V = unknown>(key: string): V;
+
+  /**
+   * Get a configuration value as a string.
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @returns The string value
+   */
+  abstract getString(key: string, defaultValue?: string): string;
+
+  /**
+   * Get a configuration value as a number.
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @returns The number value
+   */
+  abstract getNumber(key: string, defaultValue?: number): number;
+
+  /**
+   * Get a configuration value as a boolean (true/false, 1/0, yes/no, on/off).
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @returns The boolean value
+   */
+  abstract getBoolean(key: string, defaultValue?: boolean): boolean;
+
+  /**
+   * Get a configuration value parsed as JSON.
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @returns The parsed value
+   */
+  abstract getJson<V = unknown>(key: string, defaultValue?: V): V;
+
+  /**
+   * Get a configuration value as a list of strings.
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @param separator - Separator for string values (default ',')
+   * @returns The list
+   */
+  abstract getList(key: string, defaultValue?: string[], separator?: string): string[];
+
+  /**
+   * Get a configuration value as a duration in milliseconds, e.g. '30s' or '1h30m'.
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @returns The duration in milliseconds
+   */
+  abstract getDuration(key: string, defaultValue?: number | string): number;
+
+  /**
+   * Get a configuration value as a URL.
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @returns The parsed URL
+   */
+  abstract getUrl(key: string, defaultValue?: string | URL): URL;
+
+  /**
+   * Run a callback with a rotating secret, retrying with the other stage when the credential is rejected.
+   * @param key - Key or dotted path of a secret loaded with SecretsManagerLoader's rotation option
+   * @param fn - Callback receiving the credential and its stage
+   * @param options - How authentication failures are recognized
+   * @returns The result of the callback
+   */
+  abstract withRotatingSecret<V = Record<string, unknown>, R = unknown>(
+    key: string,
+    fn: (credential: V, stage: SecretStage) => R | Promise<R>,
+    options?: RotatingSecretOptions,
+  ): Promise<R>;
+
   /**
    * Check if the configuration service has been initialized.
    * @returns True if the service is ready to serve configuration values
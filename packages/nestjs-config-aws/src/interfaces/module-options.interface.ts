@@ -1,4 +1,4 @@
-import { ZodType } from 'zod';
+import type { BackoffOptions, ConfigSchema, KeyTransformOptions, LoaderErrorPolicy } from '@dyanet/config-aws';
 
 /**
  * Configuration for AWS Secrets Manager integration.
@@ -14,6 +14,18 @@ export interface SecretsManagerConfig {
   };
   /** Whether to enable Secrets Manager integration */
   enabled?: boolean;
+  /** Whether this source must load configuration; failures are then always fatal */
+  required?: boolean;
+  /** Policy for failures when the source is not required. Default: 'warn' when required is false, otherwise 'fail' */
+  onError?: LoaderErrorPolicy;
+  /** Timeout in milliseconds for the availability check and each load attempt. Default: no timeout */
+  timeoutMs?: number;
+  /** Number of times a throttled, timed out or network-failed load is retried. Default: 2 */
+  retries?: number;
+  /** Backoff between retries */
+  backoff?: BackoffOptions;
+  /** Transformation applied to the keys this source produces, before they are merged */
+  keyTransform?: KeyTransformOptions;
 }
 
 /**
@@ -32,14 +44,26 @@ export interface SSMConfig {
   enabled?: boolean;
   /** Whether to decrypt SecureString parameters */
   decrypt?: boolean;
+  /** Whether this source must load configuration; failures are then always fatal */
+  required?: boolean;
+  /** Policy for failures when the source is not required. Default: 'warn' when required is false, otherwise 'fail' */
+  onError?: LoaderErrorPolicy;
+  /** Timeout in milliseconds for the availability check and each load attempt. Default: no timeout */
+  timeoutMs?: number;
+  /** Number of times a throttled, timed out or network-failed load is retried. Default: 2 */
+  retries?: number;
+  /** Backoff between retries */
+  backoff?: BackoffOptions;
+  /** Transformation applied to the keys this source produces, before they are merged */
+  keyTransform?: KeyTransformOptions;
 }
 
 /**
  * Options for configuring the NestJS AWS Configuration module.
  */
 export interface NestConfigAwsModuleOptions<T = any> {
-  /** Zod schema for configuration validation */
-  schema?: ZodType<T>;
+  /** Schema for configuration validation: a Zod schema, Standard Schema or ConfigValidator */
+  schema?: ConfigSchema<T>;
   
   /** Configuration for AWS Secrets Manager integration */
   secretsManagerConfig?: SecretsManagerConfig;
@@ -1,5 +1,5 @@
 import { ConfigServiceImpl, ConfigServiceOptions } from '../config.service';
-import { ConfigManager, ConfigurationError } from '@dyanet/config-aws';
+import { ConfigManager, ConfigurationError, MissingConfigurationError } from '@dyanet/config-aws';
 import type { ConfigLoader } from '@dyanet/config-aws';
 import { z } from 'zod';
 
@@ -176,6 +176,51 @@ describe('ConfigServiceImpl', () => {
     });
   });
 
+  describe('typed accessors', () => {
+    it('should convert string values and read dotted paths', async () => {
+      const service = new ConfigServiceImpl({
+        loaders: [createMockLoader({
+          PORT: '8080',
+          DEBUG: 'yes',
+          HOSTS: 'a.example.com, b.example.com',
+          TIMEOUT: '1m30s',
+          API_URL: 'https://api.example.com/v1',
+          database: { host: 'db.internal' },
+        })],
+        enableNestLogging: false,
+      });
+
+      await service.initialize();
+
+      expect(service.getNumber('PORT')).toBe(8080);
+      expect(service.getBoolean('DEBUG')).toBe(true);
+      expect(service.getList('HOSTS')).toEqual(['a.example.com', 'b.example.com']);
+      expect(service.getDuration('TIMEOUT')).toBe(90000);
+      expect(service.getUrl('API_URL').hostname).toBe('api.example.com');
+      expect(service.get('database.host')).toBe('db.internal');
+      expect(service.getString('database.host')).toBe('db.internal');
+      expect(service.getNumber('RETRIES', 3)).toBe(3);
+    });
+
+    it('should throw MissingConfigurationError for missing keys', async () => {
+      const service = new ConfigServiceImpl({
+        loaders: [createMockLoader({})],
+        enableNestLogging: false,
+      });
+
+      await service.initialize();
+
+      expect(() => service.getOrThrow('DATABASE_URL')).toThrow(MissingConfigurationError);
+      expect(() => service.getOrThrow('DATABASE_URL')).toThrow("Configuration key 'DATABASE_URL' is not set");
+    });
+
+    it('should throw error if not initialized', () => {
+      const service = new ConfigServiceImpl({ enableNestLogging: false });
+
+      expect(() => service.getString('DATABASE_URL')).toThrow('not initialized');
+    });
+  });
+
   describe('isInitialized', () => {
     it('should return false before initialization', () => {
       const service = new ConfigServiceImpl();
@@ -276,5 +321,22 @@ describe('ConfigServiceImpl', () => {
       await service.initialize();
       expect(service.isInitialized()).toBe(true);
     });
+
+    it('should pass decrypt option to ConfigManager', async () => {
+      const ciphertext = Buffer.from('encrypted-password').toString('base64');
+      const mockLoader = createMockLoader({ DB_PASSWORD: `kms:${ciphertext}` });
+      const send = jest.fn().mockResolvedValue({ Plaintext: new Uint8Array(Buffer.from('s3cret')) });
+
+      const service = new ConfigServiceImpl({
+        loaders: [mockLoader],
+        decrypt: { client: { send } },
+        enableNestLogging: false,
+      });
+
+      await service.initialize();
+
+      expect(service.get('DB_PASSWORD')).toBe('s3cret');
+      expect(send).toHaveBeenCalledTimes(1);
+    });
   });
 });
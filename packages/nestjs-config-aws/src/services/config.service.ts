@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ConfigManager, ConfigurationError } from '@dyanet/config-aws';
-import type { ConfigManagerOptions } from '@dyanet/config-aws';
+import { ConfigManager, ConfigurationError, ConfigValidationUtil, ValidationError } from '@dyanet/config-aws';
+import type { ConfigManagerOptions, RotatingSecretOptions, SecretStage } from '@dyanet/config-aws';
 
 import { ConfigService } from '../interfaces/config-service.interface';
 
@@ -58,10 +58,18 @@ export class ConfigServiceImpl<T = Record<string, unknown>> extends ConfigServic
       loaders: options.loaders,
       schema: options.schema,
       precedence: options.precedence,
+      merge: options.merge,
+      interpolate: options.interpolate,
+      resolveReferences: options.resolveReferences,
       validateOnLoad: options.validateOnLoad,
       enableLogging: options.enableLogging,
       logger: options.logger,
       verbose: options.verbose,
+      snapshot: options.snapshot,
+      plugins: options.plugins,
+      concurrency: options.concurrency,
+      loadTimeoutMs: options.loadTimeoutMs,
+      decrypt: options.decrypt,
     });
   }
 
@@ -87,7 +95,9 @@ export class ConfigServiceImpl<T = Record<string, unknown>> extends ConfigServic
         this.logger.log('Configuration service initialized successfully');
       }
     } catch (error) {
-      const errorMessage = `Failed to initialize configuration service: ${error instanceof Error ? error.message : String(error)}`;
+      const errorMessage = error instanceof ValidationError
+        ? `Failed to initialize configuration service: ${ConfigValidationUtil.formatValidationReport(error)}`
+        : `Failed to initialize configuration service: ${error instanceof Error ? error.message : String(error)}`;
       this.logger.error(errorMessage);
       throw error;
     }
@@ -95,18 +105,136 @@ export class ConfigServiceImpl<T = Record<string, unknown>> extends ConfigServic
 
   /**
    * Get a configuration value by key with type safety.
+   * Keys that do not exist at the top level are looked up as dotted paths, e.g. 'database.host'.
    * 
-   * @param key - The configuration key to retrieve
+   * @param key - The configuration key or dotted path to retrieve
    * @returns The configuration value with proper typing
    * @throws ConfigurationError if configuration is not initialized
    */
-  get<K extends keyof T>(key: K): T[K] {
-    if (!this.configManager.isLoaded()) {
-      throw new ConfigurationError(
-        'Configuration service not initialized. Call initialize() first.'
-      );
-    }
-    return this.configManager.get(key);
+  get<K extends keyof T>(key: K): T[K];
+  get<V = unknown>(path: string): V | undefined;
+  get(key: string): unknown {
+    return this.getInitializedManager().get(key);
+  }
+
+  /**
+   * Get a configuration value, throwing if it is not set.
+   * 
+   * @param key - The configuration key or dotted path to retrieve
+   * @returns The configuration value
+   * @throws MissingConfigurationError if the value is not set
+   */
+  getOrThrow<V = unknown>(key: string): V {
+    return this.getInitializedManager().getOrThrow<V>(key);
+  }
+
+  /**
+   * Get a configuration value as a string.
+   * 
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @returns The string value
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value cannot be converted
+   */
+  getString(key: string, defaultValue?: string): string {
+    return this.getInitializedManager().getString(key, defaultValue);
+  }
+
+  /**
+   * Get a configuration value as a number.
+   * 
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @returns The number value
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value is not numeric
+   */
+  getNumber(key: string, defaultValue?: number): number {
+    return this.getInitializedManager().getNumber(key, defaultValue);
+  }
+
+  /**
+   * Get a configuration value as a boolean (true/false, 1/0, yes/no, on/off).
+   * 
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @returns The boolean value
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value is not a recognized boolean
+   */
+  getBoolean(key: string, defaultValue?: boolean): boolean {
+    return this.getInitializedManager().getBoolean(key, defaultValue);
+  }
+
+  /**
+   * Get a configuration value parsed as JSON.
+   * 
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @returns The parsed value
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value is not valid JSON
+   */
+  getJson<V = unknown>(key: string, defaultValue?: V): V {
+    return this.getInitializedManager().getJson<V>(key, defaultValue);
+  }
+
+  /**
+   * Get a configuration value as a list of strings.
+   * 
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @param separator - Separator for string values (default ',')
+   * @returns The list
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value is not a string or array
+   */
+  getList(key: string, defaultValue?: string[], separator?: string): string[] {
+    return this.getInitializedManager().getList(key, defaultValue, separator);
+  }
+
+  /**
+   * Get a configuration value as a duration in milliseconds, e.g. '30s' or '1h30m'.
+   * 
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @returns The duration in milliseconds
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value is not a duration
+   */
+  getDuration(key: string, defaultValue?: number | string): number {
+    return this.getInitializedManager().getDuration(key, defaultValue);
+  }
+
+  /**
+   * Get a configuration value as a URL.
+   * 
+   * @param key - The configuration key or dotted path to retrieve
+   * @param defaultValue - Value used when the key is not set
+   * @returns The parsed URL
+   * @throws MissingConfigurationError if the key is not set and no default is given
+   * @throws ValidationError if the value is not an absolute URL
+   */
+  getUrl(key: string, defaultValue?: string | URL): URL {
+    return this.getInitializedManager().getUrl(key, defaultValue);
+  }
+
+  /**
+   * Run a callback with a rotating secret, retrying with the other stage when the credential is rejected.
+   * 
+   * @param key - Key or dotted path of a secret loaded with SecretsManagerLoader's rotation option
+   * @param fn - Callback receiving the credential and its stage
+   * @param options - How authentication failures are recognized
+   * @returns The result of the callback
+   * @throws MissingConfigurationError if the key is not set
+   */
+  withRotatingSecret<V = Record<string, unknown>, R = unknown>(
+    key: string,
+    fn: (credential: V, stage: SecretStage) => R | Promise<R>,
+    options?: RotatingSecretOptions,
+  ): Promise<R> {
+    return this.getInitializedManager().withRotatingSecret(key, fn, options);
   }
 
   /**
@@ -125,12 +253,7 @@ export class ConfigServiceImpl<T = Record<string, unknown>> extends ConfigServic
    * @throws ConfigurationError if configuration is not initialized
    */
   getAll(): T {
-    if (!this.configManager.isLoaded()) {
-      throw new ConfigurationError(
-        'Configuration service not initialized. Call initialize() first.'
-      );
-    }
-    return this.configManager.getAll();
+    return this.getInitializedManager().getAll();
   }
 
   /**
@@ -151,4 +274,16 @@ export class ConfigServiceImpl<T = Record<string, unknown>> extends ConfigServic
   getConfigManager(): ConfigManager<T> {
     return this.configManager;
   }
+
+  /**
+   * Get the ConfigManager, checking that configuration has been initialized.
+   */
+  private getInitializedManager(): ConfigManager<T> {
+    if (!this.configManager.isLoaded()) {
+      throw new ConfigurationError(
+        'Configuration service not initialized. Call initialize() first.'
+      );
+    }
+    return this.configManager;
+  }
 }
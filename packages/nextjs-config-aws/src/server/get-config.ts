@@ -28,11 +28,11 @@
  * ```
  */
 
-import type { ZodType } from 'zod';
 import {
   ConfigManager,
   ConfigManagerOptions,
   ConfigLoadResult,
+  ConfigSchema,
 } from '@dyanet/config-aws';
 import { detectEnvironment, EnvironmentMode } from './internal/environment';
 import { createLoaders, AwsOptions } from './internal/loader-factory';
@@ -63,8 +63,8 @@ import { createLoaders, AwsOptions } from './internal/loader-factory';
  * ```
  */
 export interface NextConfigOptions<T = Record<string, unknown>> {
-  /** Zod schema for validation */
-  schema?: ZodType<T>;
+  /** Schema for validation: a Zod schema, Standard Schema or ConfigValidator from @dyanet/config-aws */
+  schema?: ConfigSchema<T>;
   
   /** 
    * AWS configuration options.